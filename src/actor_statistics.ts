@@ -1,23 +1,36 @@
 import { Actor } from 'apify';
 import { EventType, log } from 'crawlee';
 import { LOGGING_PERIOD, STATISTICS_KEY } from './constants.js';
+import { getMarketByCode } from './markets.js';
+
+interface MarketStatistics {
+    saved: number,
+    errors: number,
+    // Pages given up because H&M blocked them
+    blocked?: number
+}
 
 interface PersistedStatistics {
     errors: Record<string, string[]>,
-    saved: number
+    saved: number,
+    markets?: Record<string, MarketStatistics>
 }
 
 class ActorStatistics {
     private errors: Record<string, string[]>;
     private saved;
+    private markets: Record<string, MarketStatistics>;
     private limit?: number;
+    private marketLimit?: number;
     private readonly kvKey;
     private readonly logPeriod;
 
     constructor() {
         this.errors = {};
         this.saved = 0;
+        this.markets = {};
         this.limit = undefined;
+        this.marketLimit = undefined;
         this.kvKey = STATISTICS_KEY;
         this.logPeriod = LOGGING_PERIOD;
     }
@@ -41,12 +54,14 @@ class ActorStatistics {
 
         this.errors = loadedStatistics.errors;
         this.saved = loadedStatistics.saved;
+        this.markets = loadedStatistics.markets ?? {};
     }
 
     async saveStatistics() {
         const statisticsToPersist: PersistedStatistics = {
             errors: this.errors,
             saved: this.saved,
+            markets: this.markets,
         };
         await Actor.setValue(this.kvKey, statisticsToPersist);
     }
@@ -57,42 +72,87 @@ class ActorStatistics {
 
         if (!this.errors[path]) this.errors[path] = [];
         this.errors[path].push(error.toString());
+
+        // Paths start with the market code, e.g. /de_de/productpage.1234567001.html
+        const [marketCode] = path.split('/').filter(Boolean);
+        if (marketCode && getMarketByCode(marketCode)) {
+            this.getMarket(marketCode).errors++;
+        }
+    }
+
+    recordBlocked(marketCode: string) {
+        const market = this.getMarket(marketCode);
+        market.blocked = (market.blocked ?? 0) + 1;
+    }
+
+    getBlockedCount(marketCode: string) {
+        return this.markets[marketCode]?.blocked ?? 0;
+    }
+
+    private getMarket(marketCode: string): MarketStatistics {
+        if (!this.markets[marketCode]) this.markets[marketCode] = { saved: 0, errors: 0 };
+        return this.markets[marketCode];
+    }
+
+    private validateLimit(limit: number | undefined, setter: string): number | undefined {
+        if (typeof limit === 'number' && limit > 0) return limit;
+
+        if (limit !== undefined) {
+            log.warning(`actor_statistics.${setter}: invalid limit "${limit}", expected positive number. Ignoring and disabling cap.`);
+        }
+        return undefined;
     }
 
-    incrementCounter(count: number) {
+    incrementCounter(count: number, marketCode?: string) {
         this.saved += count;
+        if (marketCode) this.getMarket(marketCode).saved += count;
     }
 
     setLimit(limit: number | undefined) {
-        if (typeof limit === 'number' && limit > 0) {
-            this.limit = limit;
-        } else {
-            if (limit !== undefined) {
-                log.warning(`actor_statistics.setLimit: invalid limit "${limit}", expected positive number. Ignoring and disabling cap.`);
-            }
-            this.limit = undefined;
-        }
+        this.limit = this.validateLimit(limit, 'setLimit');
+    }
+
+    setMarketLimit(limit: number | undefined) {
+        this.marketLimit = this.validateLimit(limit, 'setMarketLimit');
     }
 
-    getSavedCount() {
+    getSavedCount(marketCode?: string) {
+        if (marketCode) return this.markets[marketCode]?.saved ?? 0;
         return this.saved;
     }
 
-    hasReachedLimit() {
-        if (typeof this.limit !== 'number') return false;
-        return this.saved >= this.limit;
+    getMarketStatistics(): Record<string, MarketStatistics> {
+        return JSON.parse(JSON.stringify(this.markets));
     }
 
-    remainingToLimit() {
-        if (typeof this.limit !== 'number') return null;
-        const remaining = this.limit - this.saved;
-        return remaining > 0 ? remaining : 0;
+    /**
+     * True when the run limit, or the limit of the given market, is reached
+     */
+    hasReachedLimit(marketCode?: string) {
+        return this.remainingToLimit(marketCode) === 0;
+    }
+
+    /**
+     * Products left until the run limit or the limit of the given market, null when unlimited
+     */
+    remainingToLimit(marketCode?: string) {
+        const remainders: number[] = [];
+        if (typeof this.limit === 'number') {
+            remainders.push(this.limit - this.saved);
+        }
+        if (marketCode && typeof this.marketLimit === 'number') {
+            remainders.push(this.marketLimit - this.getSavedCount(marketCode));
+        }
+
+        if (remainders.length === 0) return null;
+        return Math.max(Math.min(...remainders), 0);
     }
 
     logStatistics() {
         log.info('---- statistics state: ----');
         log.info(JSON.stringify({
             totalSaved: this.saved,
+            markets: this.markets,
             errors: this.errors,
         }));
     }
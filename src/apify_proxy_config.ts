@@ -1,5 +1,6 @@
 import { Actor, ProxyConfiguration } from 'apify';
 import { log } from 'crawlee';
+import { getMarketCountryCode } from './markets.js';
 
 /**
  * Apify Proxy Configuration for H&M Scraper
@@ -17,6 +18,9 @@ export interface ApifyProxyOptions {
  * Create Apify proxy configuration with smart defaults
  */
 export async function createApifyProxyConfig(options: ApifyProxyOptions, marketCode?: string): Promise<ProxyConfiguration | undefined> {
+    // Determine proxy country based on market, outside of try so unknown markets fail the run
+    const proxyCountry = options.apifyProxyCountry || getProxyCountryForMarket(marketCode);
+
     try {
         // If not using Apify proxy, check for custom proxies
         if (!options.useApifyProxy) {
@@ -30,9 +34,6 @@ export async function createApifyProxyConfig(options: ApifyProxyOptions, marketC
             return undefined;
         }
 
-        // Determine proxy country based on market
-        const proxyCountry = options.apifyProxyCountry || getProxyCountryForMarket(marketCode);
-        
         // Default proxy groups
         const proxyGroups = options.apifyProxyGroups || ['RESIDENTIAL', 'DATACENTER'];
         
@@ -68,74 +69,7 @@ export async function createApifyProxyConfig(options: ApifyProxyOptions, marketC
  */
 function getProxyCountryForMarket(marketCode?: string): string {
     if (!marketCode) return 'US';
-
-    // Map H&M market codes to proxy countries
-    const marketToProxyCountry: Record<string, string> = {
-        // Europe
-        'en_gb': 'GB',
-        'de_de': 'DE',
-        'fr_fr': 'FR',
-        'es_es': 'ES',
-        'it_it': 'IT',
-        'nl_nl': 'NL',
-        'sv_se': 'SE',
-        'da_dk': 'DK',
-        'no_no': 'NO',
-        'fi_fi': 'FI',
-        'de_at': 'AT',
-        'fr_be': 'BE',
-        'nl_be': 'BE',
-        'de_ch': 'CH',
-        'fr_ch': 'CH',
-        'it_ch': 'CH',
-        'pt_pt': 'PT',
-        'en_ie': 'IE',
-        'pl_pl': 'PL',
-        'cs_cz': 'CZ',
-        'hu_hu': 'HU',
-        'ro_ro': 'RO',
-        'sk_sk': 'SK',
-        'bg_bg': 'BG',
-        'hr_hr': 'HR',
-        'sl_si': 'SI',
-        'el_gr': 'GR',
-        'tr_tr': 'TR',
-        
-        // Americas
-        'en_us': 'US',
-        'en_ca': 'CA',
-        'fr_ca': 'CA',
-        'es_mx': 'MX',
-        'es_cl': 'CL',
-        'es_pe': 'PE',
-        'es_co': 'CO',
-        
-        // Asia Pacific
-        'en_au': 'AU',
-        'en_nz': 'NZ',
-        'ja_jp': 'JP',
-        'ko_kr': 'KR',
-        'zh_cn': 'CN',
-        'zh_hk': 'HK',
-        'en_hk': 'HK',
-        'zh_tw': 'TW',
-        'en_sg': 'SG',
-        'en_my': 'MY',
-        'en_ph': 'PH',
-        'th_th': 'TH',
-        'vi_vn': 'VN',
-        'en_in': 'IN',
-        
-        // Middle East & Africa
-        'en_ae': 'AE',
-        'ar_ae': 'AE',
-        'en_sa': 'SA',
-        'ar_sa': 'SA',
-        'en_za': 'ZA',
-        'he_il': 'IL',
-    };
-
-    return marketToProxyCountry[marketCode] || 'US';
+    return getMarketCountryCode(marketCode);
 }
 
 /**
@@ -0,0 +1,422 @@
+import { Actor, ProxyConfiguration } from 'apify';
+import { CheerioCrawler, CheerioCrawlerOptions, log, LogLevel, RequestQueue } from 'crawlee';
+import { router } from './routes.js';
+import actorStatistics from './actor_statistics.js';
+import { ResolvedInput } from './input.js';
+import { getStartRequests } from './tools.js';
+import { getAntiBotCrawlerConfig, smartScheduler } from './anti_bot.js';
+import { concurrencyManager } from './concurrency_manager.js';
+import { advancedSessionManager } from './advanced_stealth.js';
+import { behavioralSimulator } from './behavioral_simulation.js';
+import { stealthMode } from './stealth_mode.js';
+import { javaScriptRenderer } from './javascript_renderer.js';
+import { createEnhancedErrorHandler, retryWithBackoff } from './error_handling.js';
+import { progressiveDataSaver } from './progressive_saving.js';
+import { MemoryOptimizer } from './memory_optimizer.js';
+import { DataQualityMonitor } from './data_quality_monitor.js';
+import { DataPersistence } from './data_persistence.js';
+import { getEnhancedProxyConfiguration } from './proxy_manager.js';
+import { createApifyProxyConfig } from './apify_proxy_config.js';
+import { outputFormatter } from './canonical_output.js';
+import { runPriceComparison } from './price_comparison.js';
+import { runExport } from './export.js';
+import { incrementalTracker } from './incremental.js';
+import { priceHistoryTracker } from './price_history.js';
+import { markdownEventReporter } from './markdown_events.js';
+import { fixtureManager } from './fixtures.js';
+import { extractionTelemetry } from './extraction_telemetry.js';
+import { extractionRules } from './extraction_rules.js';
+import { variantExpander } from './variants.js';
+import { watchlistMonitor } from './watchlist.js';
+import { sqliteSink } from './sqlite_sink.js';
+import { dataSinks } from './data_sinks.js';
+import { categoryDiscovery } from './category_discovery.js';
+import { validationProfiles } from './validation_profiles.js';
+import { quarantine } from './quarantine.js';
+import { qualityReport } from './quality_report.js';
+import { qualityGate, QualityGateResult } from './quality_gate.js';
+import { productDedup } from './dedup.js';
+import { searchQueryTracker } from './search_queries.js';
+import { Market } from './markets.js';
+import { assertMarketsSucceeded, crawlEachMarket, getRunMarkets, withMarketQueue } from './market_runs.js';
+
+/**
+ * Shared run bootstrap
+ * Builds one crawler per market from resolved input and owns the run lifecycle: graceful shutdown,
+ * state recovery and final statistics
+ */
+
+export interface CrawlerSetup {
+    crawler: CheerioCrawler;
+    market: Market;
+    requestQueue?: RequestQueue;
+    enhancedProxyConfig?: any;
+}
+
+/**
+ * Crawler of the market being scraped, aborted on graceful shutdown
+ */
+let activeSetup: CrawlerSetup | undefined;
+
+/**
+ * Configure logging, saving, output and limits for the run
+ */
+export const configureRun = (input: ResolvedInput): void => {
+    log.setLevel(input.debug ? LogLevel.DEBUG : LogLevel.INFO);
+
+    log.info('Starting H&M scraper', {
+        country: input.country,
+        countries: input.countries,
+        regions: input.regions,
+        currencies: input.currencies,
+        maxProducts: input.maxProducts,
+        maxProductsPerMarket: input.maxProductsPerMarket,
+        maxRunSeconds: input.maxRunSeconds,
+        filtersApplied: Object.keys(input.filters).length,
+        urlCount: input.startUrls.length,
+        categoryCount: input.categories.length,
+        searchCount: input.searchQueries.length,
+        outputFormat: input.outputFormat,
+        enableAntiBot: input.enableAntiBot,
+        enableProgressiveSaving: input.enableProgressiveSaving,
+        batchSize: input.batchSize,
+        minQualityScore: input.minQualityScore,
+        fixtureMode: input.fixtureMode,
+    });
+
+    if (input.enableProgressiveSaving) {
+        progressiveDataSaver.config = {
+            ...progressiveDataSaver.config,
+            batchSize: input.batchSize,
+            minQualityScore: input.minQualityScore,
+        };
+        log.info('Progressive data saving enabled');
+    }
+
+    // Held records and sink batches live in memory, the run restarted after a migration would not have them
+    Actor.on('migrating', async () => {
+        await progressiveDataSaver.forceSave(true);
+        await progressiveDataSaver.flushSinks();
+    });
+
+    if (input.enableMemoryOptimization) {
+        MemoryOptimizer.startMonitoring();
+        log.info('Memory optimization enabled');
+    }
+
+    outputFormatter.configure(input.outputFormat, {
+        includeRawData: input.includeRawData,
+        includeTranslations: input.includeTranslations,
+        includeRelatedProducts: input.includeRelatedProducts,
+        includeStoreAvailability: input.includeStoreAvailability,
+        fields: input.outputFields,
+    });
+    variantExpander.configure(input);
+
+    // 0 means unlimited
+    actorStatistics.setLimit(input.maxProducts || undefined);
+    actorStatistics.setMarketLimit(input.maxProductsPerMarket || undefined);
+
+    incrementalTracker.configure(input);
+    priceHistoryTracker.configure(input);
+    markdownEventReporter.configure(input);
+    watchlistMonitor.configure(input);
+    categoryDiscovery.configure(input);
+    validationProfiles.configure(input);
+    quarantine.configure(input);
+    qualityGate.configure(input, getRunMarkets(input));
+    productDedup.configure(input);
+    sqliteSink.configure(input);
+    dataSinks.configure(input);
+
+    fixtureManager.configure(input);
+    if (fixtureManager.getMode() === 'record') {
+        router.use(fixtureManager.createRecordingMiddleware());
+    }
+};
+
+/**
+ * Create proxy configuration from input
+ */
+const createProxyConfiguration = async (input: ResolvedInput, countryCode: string) => {
+    let proxyConfiguration: ProxyConfiguration | undefined;
+    let enhancedProxyConfig: any;
+
+    if (fixtureManager.isReplaying()) {
+        log.info('Replaying fixtures, proxies are not used');
+    } else if (input.proxyConfiguration) {
+        try {
+            proxyConfiguration = await createApifyProxyConfig(input.proxyConfiguration, countryCode);
+
+            if (proxyConfiguration) {
+                log.info('Apify proxy configuration loaded successfully');
+            } else {
+                log.info('Running without proxy configuration');
+            }
+        } catch (error: any) {
+            log.warning('Failed to create proxy configuration:', error);
+        }
+    } else if (input.enableAntiBot) {
+        try {
+            // Enhanced proxy config returns a custom object, not ProxyConfiguration
+            enhancedProxyConfig = await getEnhancedProxyConfiguration();
+            log.info('Enhanced anti-bot proxy configuration loaded');
+        } catch (error: any) {
+            log.warning('Enhanced proxy not available:', error);
+        }
+    }
+
+    return { proxyConfiguration, enhancedProxyConfig };
+};
+
+/**
+ * Build the crawler for one market.
+ * Multi-market runs pass the named request queue of the market, single-market runs use the default queue.
+ */
+export const createCrawler = async (input: ResolvedInput, market: Market, requestQueue?: RequestQueue): Promise<CrawlerSetup> => {
+    const { proxyConfiguration, enhancedProxyConfig } = await createProxyConfiguration(input, market.code);
+
+    // Navigation -> categories -> subcategories -> products needs far more requests than products
+    const productLimit = Math.min(...[input.maxProducts, input.maxProductsPerMarket].filter((limit) => limit > 0));
+    const maxRequestsPerCrawl = Number.isFinite(productLimit) ? Math.max(productLimit * 100, 1000) : undefined;
+
+    const baseConfig: Partial<CheerioCrawlerOptions> = {
+        requestQueue,
+        proxyConfiguration,
+        requestHandler: router,
+        errorHandler: createEnhancedErrorHandler(),
+        failedRequestHandler: createEnhancedErrorHandler(),
+        maxRequestsPerCrawl,
+        maxRequestRetries: input.retryAttempts,
+        requestHandlerTimeoutSecs: input.requestTimeout,
+        additionalMimeTypes: ['text/html', 'application/json', 'application/xml'],
+        ignoreSslErrors: false,
+        ...fixtureManager.getCrawlerHooks(),
+    };
+
+    concurrencyManager.setConcurrency(Math.min(input.maxConcurrency, 5));
+
+    // Anti-bot hooks would replace the replay hooks, and fixtures need no evasion
+    const crawlerConfig = input.enableAntiBot && !fixtureManager.isReplaying()
+        ? getAntiBotCrawlerConfig(baseConfig)
+        : { ...baseConfig, maxConcurrency: input.maxConcurrency };
+
+    return {
+        crawler: new CheerioCrawler(crawlerConfig),
+        market,
+        requestQueue,
+        enhancedProxyConfig,
+    };
+};
+
+/**
+ * Log statistics of all run components
+ */
+export const logFinalStatistics = (enhancedProxyConfig?: any): void => {
+    actorStatistics.logStatistics();
+    DataQualityMonitor.logQualityReport();
+
+    log.info('Final scheduler statistics:', smartScheduler.getStats());
+    log.info('Final advanced session statistics:', advancedSessionManager.getStats());
+    log.info('Final behavioral simulation statistics:', behavioralSimulator.getStats());
+    log.info('Final concurrency management statistics:', concurrencyManager.getStats());
+
+    if (enhancedProxyConfig) {
+        log.info('Final proxy statistics:', enhancedProxyConfig.getStats());
+    }
+
+    log.info('Final stealth mode statistics:', stealthMode.getStealthConfig() as any);
+    log.info('Final JavaScript renderer statistics:', Object.fromEntries(javaScriptRenderer.getPerformanceMetrics()));
+};
+
+/**
+ * Abort the crawl gracefully once maxRunSeconds elapse
+ */
+export const registerGracefulShutdown = (input: ResolvedInput): void => {
+    const { maxRunSeconds } = input;
+    if (typeof maxRunSeconds !== 'number' || maxRunSeconds <= 0) return;
+
+    setTimeout(async () => {
+        log.info(`Max run time reached (${maxRunSeconds}s). Initiating graceful shutdown.`);
+
+        try {
+            if (input.enableProgressiveSaving) {
+                await progressiveDataSaver.forceSave(true);
+            }
+            await progressiveDataSaver.flushSinks();
+            await quarantine.flush(true);
+            await markdownEventReporter.flush();
+            await incrementalTracker.persist();
+            await watchlistMonitor.persist();
+            await categoryDiscovery.persist();
+            await searchQueryTracker.persist();
+            await sqliteSink.persist();
+            await extractionTelemetry.saveReport();
+            await qualityReport.saveReport();
+
+            logFinalStatistics(activeSetup?.enhancedProxyConfig);
+
+            await DataPersistence.saveState({
+                totalSaved: actorStatistics.getSavedCount(),
+                markets: actorStatistics.getMarketStatistics(),
+                qualityMetrics: DataQualityMonitor.getMetrics(),
+                timestamp: new Date().toISOString(),
+            });
+
+            await activeSetup?.crawler.autoscaledPool?.abort();
+            await activeSetup?.requestQueue?.drop();
+        } catch (error: any) {
+            log.error('Error during graceful shutdown:', error);
+        } finally {
+            await Actor.exit();
+        }
+    }, maxRunSeconds * 1000);
+};
+
+/**
+ * Crawl a single market with retries on startup errors.
+ * Returns the number of requests that failed all their retries.
+ */
+const crawlMarket = async (setup: CrawlerSetup, input: ResolvedInput): Promise<number> => {
+    const { crawler, market } = setup;
+    const startRequests = getStartRequests(input, market);
+    let requestsFailed = 0;
+
+    await retryWithBackoff(
+        async () => {
+            log.info(`Adding ${startRequests.length} initial requests for market ${market.code}`);
+            await crawler.addRequests(startRequests);
+            ({ requestsFailed } = await crawler.run());
+        },
+        {
+            maxRetries: 2,
+            baseDelay: 5000,
+            maxDelay: 30000,
+            backoffMultiplier: 2,
+            retryableErrors: ['ECONNRESET', 'ETIMEDOUT', 'ENOTFOUND'],
+        },
+        `crawler startup (${market.code})`,
+    );
+
+    log.info(`Market ${market.code} finished, saved ${actorStatistics.getSavedCount(market.code)} products`);
+    return requestsFailed;
+};
+
+/**
+ * Run one crawler per market with recovery on failure and final cleanup.
+ * A failing market does not stop the remaining ones, the run fails once all markets are processed.
+ */
+export const runMarkets = async (markets: Market[], input: ResolvedInput): Promise<void> => {
+    // Invalid rule overrides fail the run before any request is made
+    await extractionRules.load(input);
+    await productDedup.load();
+
+    // Load previous state for recovery
+    const previousState = await DataPersistence.loadState();
+    if (previousState) {
+        log.info('Loaded previous state for recovery:', previousState);
+    }
+
+    let failedMarkets: string[] = [];
+    // Markets crawled completely, only these can tell that a product was removed
+    const completedMarkets: string[] = [];
+    let qualityGateResult: QualityGateResult | null = null;
+
+    try {
+        log.info(`Starting crawler with enhanced configuration for ${markets.length} market(s)`);
+        await fixtureManager.start();
+
+        await DataPersistence.saveState({
+            startTime: new Date().toISOString(),
+            configuration: {
+                markets: markets.map((market) => market.code),
+                maxProducts: input.maxProducts,
+                maxProductsPerMarket: input.maxProductsPerMarket,
+                enableAntiBot: input.enableAntiBot,
+                enableProgressiveSaving: input.enableProgressiveSaving,
+            },
+        });
+
+        failedMarkets = await crawlEachMarket(markets, {
+            hasReachedLimit: () => actorStatistics.hasReachedLimit(),
+            crawl: async (market) => {
+                const crawl = async (requestQueue?: RequestQueue) => {
+                    activeSetup = await createCrawler(input, market, requestQueue);
+                    return crawlMarket(activeSetup, input);
+                };
+                const requestsFailed = markets.length > 1 ? await withMarketQueue(market, crawl) : await crawl();
+
+                // Products behind failed or blocked pages were not seen, that does not make them removed
+                const crawledAll = requestsFailed === 0 && actorStatistics.getBlockedCount(market.code) === 0;
+                if (crawledAll && !input.maxPages && !actorStatistics.hasReachedLimit(market.code)) {
+                    completedMarkets.push(market.code);
+                } else if (!crawledAll) {
+                    log.warning(`Market ${market.code}: ${requestsFailed} failed and ${actorStatistics.getBlockedCount(market.code)} `
+                        + 'blocked requests, removed products are not reported');
+                }
+            },
+            recover: async (market, error) => {
+                await progressiveDataSaver.forceSave();
+                await DataPersistence.saveState({
+                    error: error.toString(),
+                    market: market.code,
+                    recoveryAttempted: true,
+                    timestamp: new Date().toISOString(),
+                });
+            },
+        });
+    } finally {
+        try {
+            log.info('Performing final cleanup...');
+
+            await fixtureManager.stop();
+            await progressiveDataSaver.cleanup();
+            await incrementalTracker.finish(completedMarkets);
+            await quarantine.flush(true);
+            await markdownEventReporter.flush();
+            await watchlistMonitor.persist();
+            await categoryDiscovery.persist();
+            await searchQueryTracker.persist();
+            await sqliteSink.persist();
+
+            if (input.comparePrices) {
+                await runPriceComparison(input);
+            }
+
+            if (input.exportFormats.length > 0) {
+                await runExport(input);
+            }
+
+            await extractionTelemetry.saveReport();
+            const qualityReportOfRun = await qualityReport.saveReport();
+            qualityGateResult = await qualityGate.check(qualityReportOfRun, failedMarkets.length === 0);
+
+            logFinalStatistics(activeSetup?.enhancedProxyConfig);
+
+            await DataPersistence.saveState({
+                endTime: new Date().toISOString(),
+                finalStats: {
+                    totalSaved: actorStatistics.getSavedCount(),
+                    markets: actorStatistics.getMarketStatistics(),
+                    failedMarkets,
+                    qualityMetrics: DataQualityMonitor.getMetrics(),
+                    progressiveSaverStats: progressiveDataSaver.getStats(),
+                    outputSinks: dataSinks.getStats(),
+                    quarantinedProducts: quarantine.getCounts(),
+                    deduplication: productDedup.getStats(),
+                    qualityGate: qualityGateResult,
+                },
+            });
+
+            log.info('Scraping completed');
+        } catch (cleanupError: any) {
+            log.error('Error during final cleanup:', cleanupError);
+        }
+    }
+
+    assertMarketsSucceeded(failedMarkets);
+
+    if (qualityGateResult?.action === 'fail' && !qualityGateResult.passed) {
+        throw new Error(`Quality gate failed: ${qualityGateResult.violations.map(({ message }) => message).join('; ')}`);
+    }
+};
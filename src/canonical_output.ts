@@ -0,0 +1,164 @@
+import { log } from 'crawlee';
+import { CanonicalProduct, OutputConfig } from './canonical_schema.js';
+
+/**
+ * Canonical output formatting
+ * Shapes CanonicalProduct records according to the OutputConfig flags from actor input
+ */
+
+export type OutputFormat = 'legacy' | 'canonical';
+
+/**
+ * Maps the `outputFields` input values to the CanonicalProduct fields they select
+ */
+export const OUTPUT_FIELD_ALIASES: Record<string, (keyof CanonicalProduct)[]> = {
+    productId: ['productId', 'variantId', 'sku'],
+    title: ['title', 'title_original'],
+    description: ['description', 'description_original', 'shortDescription', 'shortDescription_original'],
+    price: ['price'],
+    originalPrice: ['originalPrice'],
+    salePrice: ['salePrice', 'discountAmount', 'discountPercentage'],
+    currency: ['currency'],
+    colors: ['color', 'color_original', 'colorCode', 'hexColor', 'secondaryColors'],
+    sizes: ['size', 'sizeStock', 'availableSizes', 'sizeGuide', 'sizeType'],
+    materials: ['materials', 'mainMaterial'],
+    images: ['images', 'thumbnail'],
+    videos: ['videos'],
+    category: ['domain', 'category', 'subCategory', 'productType'],
+    url: ['url', 'canonicalUrl'],
+    inStock: ['inStock'],
+    stockLevel: ['stockLevel', 'availableQuantity', 'backInStockDate'],
+    sustainable: ['sustainable', 'sustainabilityLabels'],
+    rating: ['rating'],
+    reviews: ['reviewCount'],
+};
+
+/**
+ * Maps the `outputFields` input values to the fields of legacy records
+ */
+export const LEGACY_OUTPUT_FIELD_ALIASES: Record<string, string[]> = {
+    productId: ['articleNo', 'productId', 'variantId', 'sku'],
+    title: ['productName'],
+    description: ['description'],
+    price: ['listPrice'],
+    originalPrice: ['listPrice'],
+    salePrice: ['salePrice'],
+    currency: ['currency'],
+    colors: ['colors', 'color'],
+    sizes: ['sizes', 'size', 'sizeSystem', 'sizeStock', 'availableSizes'],
+    materials: ['materials'],
+    images: ['imageUrl', 'images'],
+    category: ['division', 'category', 'subCategory'],
+    url: ['url'],
+    inStock: ['inStock'],
+    sustainable: ['sustainable'],
+};
+
+/**
+ * Fields that identify a record and are kept even when `fields` selects a subset
+ */
+const IDENTITY_FIELDS: (keyof CanonicalProduct)[] = ['productId', 'market'];
+
+const RELATED_PRODUCT_FIELDS: (keyof CanonicalProduct)[] = ['relatedProducts', 'outfitProducts', 'similarProducts'];
+
+const TRANSLATION_SUFFIX = '_original';
+
+/**
+ * Recursively removes original-language fields (`*_original`)
+ */
+const stripTranslations = (value: any): any => {
+    if (Array.isArray(value)) return value.map(stripTranslations);
+    if (!value || typeof value !== 'object') return value;
+
+    const stripped: Record<string, unknown> = {};
+    for (const [key, fieldValue] of Object.entries(value)) {
+        if (key.endsWith(TRANSLATION_SUFFIX)) continue;
+        stripped[key] = stripTranslations(fieldValue);
+    }
+    return stripped;
+};
+
+/**
+ * Canonical records name their article productId, legacy records (also variant records) articleNo
+ */
+export const isCanonicalRecord = (record: Record<string, unknown>): boolean => !('articleNo' in record);
+
+/**
+ * Apply OutputConfig flags to a CanonicalProduct
+ */
+export const formatCanonicalProduct = (product: CanonicalProduct, config: OutputConfig = {}): Partial<CanonicalProduct> => {
+    let formatted: Partial<CanonicalProduct> = { ...product };
+
+    if (!config.includeRawData) {
+        delete formatted.rawData;
+    }
+
+    if (!config.includeRelatedProducts) {
+        RELATED_PRODUCT_FIELDS.forEach((field) => delete formatted[field]);
+    }
+
+    if (!config.includeStoreAvailability) {
+        delete formatted.storeAvailability;
+    }
+
+    if (!config.includeTranslations) {
+        formatted = stripTranslations(formatted);
+    }
+
+    if (config.fields && config.fields.length > 0) {
+        const selectedFields = new Set<string>(IDENTITY_FIELDS);
+        for (const field of config.fields) {
+            const canonicalFields = OUTPUT_FIELD_ALIASES[field] ?? [field];
+            canonicalFields.forEach((canonicalField) => selectedFields.add(canonicalField));
+        }
+
+        formatted = Object.fromEntries(
+            Object.entries(formatted).filter(([key]) => selectedFields.has(key)),
+        ) as Partial<CanonicalProduct>;
+    }
+
+    // Drop empty optional fields to keep records compact
+    Object.keys(formatted).forEach((key) => {
+        if (formatted[key as keyof CanonicalProduct] === undefined) {
+            delete formatted[key as keyof CanonicalProduct];
+        }
+    });
+
+    return formatted;
+};
+
+/**
+ * Holds the output mode of the current run
+ */
+class OutputFormatter {
+    private format: OutputFormat = 'legacy';
+    private config: OutputConfig = {};
+
+    configure(format: OutputFormat, config: OutputConfig = {}) {
+        this.format = format;
+        this.config = config;
+        log.info(`Output format: ${format}`, format === 'canonical' ? { ...config } : undefined);
+    }
+
+    isCanonical(): boolean {
+        return this.format === 'canonical';
+    }
+
+    getConfig(): OutputConfig {
+        return { ...this.config };
+    }
+
+    formatProduct(product: CanonicalProduct): Partial<CanonicalProduct> {
+        return formatCanonicalProduct(product, this.config);
+    }
+
+    /**
+     * Shape a record as it is written, canonical records are formatted and legacy records kept as they are.
+     * Deduplication, incremental fingerprints and price history work on the full record before this.
+     */
+    formatRecord(record: Record<string, any>): Record<string, any> {
+        return isCanonicalRecord(record) ? this.formatProduct(record as CanonicalProduct) : record;
+    }
+}
+
+export const outputFormatter = new OutputFormatter();
@@ -43,6 +43,7 @@ export interface CanonicalProduct {
     secondaryColors?: string[];         // Additional colors
     
     size: string;                       // Current variant size
+    sizeStock?: 'in' | 'low' | 'out';   // Stock of the current variant size
     availableSizes: Size[];             // All available sizes
     sizeGuide?: SizeGuide;              // Size measurements
     sizeType: string;                   // Size system (EU, US, UK)
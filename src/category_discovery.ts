@@ -0,0 +1,217 @@
+import { Actor } from 'apify';
+import { log } from 'crawlee';
+import { BASE_URL } from './constants.js';
+import { extractionRules } from './extraction_rules.js';
+import { Market } from './markets.js';
+import type { ResolvedInput } from './input.js';
+
+/**
+ * Category discovery
+ * Builds the division → category → subcategory tree of a market from its navigation data, filtered by
+ * the include/exclude patterns of the input. Discovery mode saves the tree with the product count of
+ * every category instead of crawling its products.
+ */
+
+export const DEFAULT_CATEGORY_DATASET = 'category-trees';
+
+export interface NavigationItem {
+    trackingLabel: string;
+    path: string;
+    aliasPath: string;
+    title: string;
+    children?: NavigationItem[];
+}
+
+export interface SiteNavigationResponse {
+    siteStructure: NavigationItem[];
+}
+
+export interface CategoryNode {
+    title: string;
+    trackingLabel: string;
+    path: string;
+    aliasPath: string;
+    url: string;
+    productCount: number | null;
+    // Only some subcategories matched the include patterns, the category page itself is not crawled
+    partial?: boolean;
+    children: CategoryNode[];
+}
+
+/**
+ * Include/exclude patterns matched against tracking labels and titles, `*` is a wildcard.
+ * Empty include lists select everything.
+ */
+export interface CategoryFilter {
+    includeDivisions: string[];
+    excludeDivisions: string[];
+    includeCategories: string[];
+    excludeCategories: string[];
+}
+
+export const DEFAULT_CATEGORY_FILTER: CategoryFilter = {
+    includeDivisions: ['ladies', 'men', 'baby', 'kids', 'home', 'beauty'],
+    excludeDivisions: [],
+    includeCategories: [],
+    excludeCategories: ['view-all', 'last-chance', 'the-bestsellers'],
+};
+
+/**
+ * Record saved per market in discovery mode
+ */
+export interface CategoryTreeRecord {
+    type: 'categoryTree';
+    market: string;
+    country: string;
+    divisionCount: number;
+    categoryCount: number;
+    subCategoryCount: number;
+    discoveredAt: string;
+    divisions: CategoryNode[];
+}
+
+const patternToRegExp = (pattern: string): RegExp => {
+    const source = pattern.trim().split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${source}$`, 'i');
+};
+
+/**
+ * Whether a navigation item matches a pattern by tracking label or title
+ */
+export const matchesPattern = (item: Pick<NavigationItem, 'trackingLabel' | 'title'>, pattern: string): boolean => {
+    const regExp = patternToRegExp(pattern);
+    return regExp.test(item.trackingLabel ?? '') || regExp.test(item.title ?? '');
+};
+
+const matchesAny = (item: NavigationItem, patterns: string[]) => patterns.some((pattern) => matchesPattern(item, pattern));
+
+const toNode = (item: NavigationItem, children: CategoryNode[] = []): CategoryNode => ({
+    title: item.title,
+    trackingLabel: item.trackingLabel,
+    path: item.path,
+    aliasPath: item.aliasPath,
+    url: new URL(item.aliasPath, BASE_URL).toString(),
+    productCount: null,
+    children,
+});
+
+const selectCategory = (category: NavigationItem, filter: CategoryFilter): CategoryNode | null => {
+    if (matchesAny(category, filter.excludeCategories)) return null;
+
+    const subCategories = (category.children ?? []).filter((subCategory) => !matchesAny(subCategory, filter.excludeCategories));
+    if (filter.includeCategories.length === 0 || matchesAny(category, filter.includeCategories)) {
+        return toNode(category, subCategories.map((subCategory) => toNode(subCategory)));
+    }
+
+    const matching = subCategories.filter((subCategory) => matchesAny(subCategory, filter.includeCategories));
+    if (matching.length === 0) return null;
+    return { ...toNode(category, matching.map((subCategory) => toNode(subCategory))), partial: true };
+};
+
+/**
+ * Division → category → subcategory tree of the selected divisions and categories.
+ * Categories are the children of the `navigation.categoryGroup` extraction rule (shop by product).
+ */
+export const buildCategoryTree = (response: SiteNavigationResponse, filter: CategoryFilter = DEFAULT_CATEGORY_FILTER): CategoryNode[] => {
+    const { categoryGroup } = extractionRules.get().navigation;
+
+    return (response.siteStructure ?? [])
+        .filter((division) => (filter.includeDivisions.length === 0 || matchesAny(division, filter.includeDivisions))
+            && !matchesAny(division, filter.excludeDivisions))
+        .map((division) => {
+            const group = (division.children ?? []).find((child) => child.trackingLabel === categoryGroup);
+            const categories = (group?.children ?? [])
+                .map((category) => selectCategory(category, filter))
+                .filter((category): category is CategoryNode => category !== null);
+            return toNode(division, categories);
+        });
+};
+
+/**
+ * Set the product count of the category or subcategory with this alias path
+ */
+export const setProductCount = (divisions: CategoryNode[], aliasPath: string, productCount: number | null): boolean => {
+    for (const node of divisions.flatMap((division) => division.children.flatMap((category) => [category, ...category.children]))) {
+        if (node.aliasPath === aliasPath) {
+            node.productCount = productCount;
+            return true;
+        }
+    }
+    return false;
+};
+
+export const toCategoryTreeRecord = (divisions: CategoryNode[], country: Market, discoveredAt = new Date().toISOString()): CategoryTreeRecord => {
+    const categories = divisions.flatMap((division) => division.children);
+    return {
+        type: 'categoryTree',
+        market: country.code,
+        country: country.name,
+        divisionCount: divisions.length,
+        categoryCount: categories.length,
+        subCategoryCount: categories.reduce((count, category) => count + category.children.length, 0),
+        discoveredAt,
+        divisions,
+    };
+};
+
+class CategoryDiscovery {
+    private enabled = false;
+    private datasetName = DEFAULT_CATEGORY_DATASET;
+    private filter: CategoryFilter = DEFAULT_CATEGORY_FILTER;
+    private trees = new Map<string, { country: Market, divisions: CategoryNode[] }>();
+
+    configure(input: ResolvedInput) {
+        this.enabled = input.categoryDiscovery;
+        this.datasetName = input.categoryDatasetName;
+        this.filter = {
+            includeDivisions: input.includeDivisions,
+            excludeDivisions: input.excludeDivisions,
+            includeCategories: input.includeCategories,
+            excludeCategories: input.excludeCategories,
+        };
+
+        if (this.enabled) {
+            log.info(`Category discovery mode: saving the category tree of every market to dataset "${this.datasetName}" instead of products`);
+        }
+    }
+
+    isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    getFilter(): CategoryFilter {
+        return this.filter;
+    }
+
+    /**
+     * Remember the tree of a market until its product counts are known
+     */
+    addTree(country: Market, divisions: CategoryNode[]): void {
+        this.trees.set(country.code, { country, divisions });
+    }
+
+    recordProductCount(market: string, aliasPath: string, productCount: number | null): void {
+        const tree = this.trees.get(market);
+        if (!tree || !setProductCount(tree.divisions, aliasPath, productCount)) {
+            log.warning(`Category discovery: ${aliasPath} is not in the category tree of ${market}`);
+        }
+    }
+
+    /**
+     * Save the tree of every market to the category dataset, apart from product records
+     */
+    async persist(): Promise<void> {
+        if (!this.enabled || this.trees.size === 0) return;
+
+        const records = [...this.trees.values()].map(({ country, divisions }) => toCategoryTreeRecord(divisions, country));
+        const dataset = await Actor.openDataset(this.datasetName);
+        await dataset.pushData(records);
+        this.trees.clear();
+
+        for (const record of records) {
+            log.info(`Category discovery: ${record.market} has ${record.categoryCount} categories and ${record.subCategoryCount} subcategories`);
+        }
+    }
+}
+
+export const categoryDiscovery = new CategoryDiscovery();
@@ -1,5 +1,9 @@
 import { log } from 'crawlee';
 import { CanonicalProduct, Size, Material, ProductImage, StoreInfo, Promotion } from './canonical_schema.js';
+import { getMarketCurrency } from './markets.js';
+import { extractionRules, readFirst } from './extraction_rules.js';
+import { SmartDataExtractor } from './smart_extractor.js';
+import { getSizeStock, getSizeSystem } from './variants.js';
 
 /**
  * Comprehensive product data extractor for H&M
@@ -19,15 +23,13 @@ export class ComprehensiveExtractor {
     ): Promise<CanonicalProduct | null> {
         try {
             // Extract Next.js data
-            const scriptMatch = body.match(/<script id="__NEXT_DATA__" type="application\/json">(.+?)<\/script>/s);
-            if (!scriptMatch) {
+            const jsonData = SmartDataExtractor.parseNextData(body);
+            if (!jsonData) {
                 log.warning('No Next.js data found on product page');
                 return null;
             }
 
-            const jsonData = JSON.parse(scriptMatch[1]);
-            const pageProps = jsonData?.props?.pageProps;
-            const productData = pageProps?.productData || pageProps?.product;
+            const productData = readFirst(jsonData, extractionRules.get().nextData.productPaths);
             
             if (!productData) {
                 log.warning('No product data found in Next.js data');
@@ -64,7 +66,7 @@ export class ComprehensiveExtractor {
                 salePrice: productData.redPrice ? this.extractPrice(productData.redPrice) : undefined,
                 discountAmount: this.calculateDiscountAmount(productData),
                 discountPercentage: this.calculateDiscountPercentage(productData),
-                currency: productData.currency || this.getCurrencyForMarket(market),
+                currency: productData.currency || getMarketCurrency(market),
                 pricePerUnit: productData.pricePerUnit,
 
                 // Variants & Options
@@ -243,24 +245,6 @@ export class ComprehensiveExtractor {
         return undefined;
     }
 
-    private static getCurrencyForMarket(market: string): string {
-        const currencyMap: Record<string, string> = {
-            'en_us': 'USD',
-            'en_gb': 'GBP',
-            'de_de': 'EUR',
-            'fr_fr': 'EUR',
-            'es_es': 'EUR',
-            'it_it': 'EUR',
-            'nl_nl': 'EUR',
-            'sv_se': 'SEK',
-            'en_ca': 'CAD',
-            'en_au': 'AUD',
-            'ja_jp': 'JPY',
-            'zh_cn': 'CNY',
-        };
-        return currencyMap[market] || 'EUR';
-    }
-
     private static extractColorName(data: any, language: string): string {
         if (language === 'en') {
             return data.colorName || data.color || data.mainColor || '';
@@ -287,7 +271,7 @@ export class ComprehensiveExtractor {
             sizes.push({
                 code: size.sizeCode || size.code,
                 name: size.name || size.size,
-                stock: this.getSizeStock(size),
+                stock: getSizeStock(size),
                 measurements: size.measurements,
             });
         }
@@ -295,12 +279,6 @@ export class ComprehensiveExtractor {
         return sizes;
     }
 
-    private static getSizeStock(size: any): 'in' | 'low' | 'out' {
-        if (size.availability === 'OutOfStock' || size.stock === 0) return 'out';
-        if (size.availability === 'LowStock' || size.stock < 10) return 'low';
-        return 'in';
-    }
-
     private static extractSizeGuide(data: any): any {
         if (data.sizeGuide) {
             return {
@@ -314,10 +292,7 @@ export class ComprehensiveExtractor {
     }
 
     private static detectSizeSystem(data: any): string {
-        const market = data.market || '';
-        if (market.includes('us')) return 'US';
-        if (market.includes('gb')) return 'UK';
-        return 'EU';
+        return getSizeSystem(data.market || '');
     }
 
     private static extractMaterials(data: any): Material[] {
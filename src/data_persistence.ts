@@ -0,0 +1,47 @@
+import { Actor } from 'apify';
+import { log } from 'crawlee';
+
+/**
+ * Data persistence and recovery
+ */
+export class DataPersistence {
+    private static readonly PERSISTENCE_KEY = 'SCRAPER_PERSISTENCE';
+
+    /**
+     * Save current state for recovery
+     */
+    static async saveState(state: any): Promise<void> {
+        try {
+            await Actor.setValue(this.PERSISTENCE_KEY, {
+                ...state,
+                timestamp: new Date().toISOString(),
+            });
+        } catch (error: any) {
+            log.warning('Could not save persistence state:', error);
+        }
+    }
+
+    /**
+     * Load saved state for recovery
+     */
+    static async loadState(): Promise<any | null> {
+        try {
+            const state = await Actor.getValue(this.PERSISTENCE_KEY);
+            return state;
+        } catch (error: any) {
+            log.warning('Could not load persistence state:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Clear saved state
+     */
+    static async clearState(): Promise<void> {
+        try {
+            await Actor.setValue(this.PERSISTENCE_KEY, null);
+        } catch (error: any) {
+            log.warning('Could not clear persistence state:', error);
+        }
+    }
+}
@@ -0,0 +1,67 @@
+import { log } from 'crawlee';
+import { CanonicalProduct } from './canonical_schema.js';
+import { calculateProductQualityScore, ProductData } from './data_validation.js';
+import { fromCanonicalProduct, qualityReport } from './quality_report.js';
+
+/**
+ * Data quality monitoring
+ */
+export class DataQualityMonitor {
+    private static qualityMetrics = {
+        totalProcessed: 0,
+        validProducts: 0,
+        invalidProducts: 0,
+        averageQualityScore: 0,
+        qualityScores: [] as number[],
+    };
+
+    /**
+     * Record product quality
+     */
+    static recordProduct(product: ProductData, isValid: boolean, qualityScore: number): void {
+        this.qualityMetrics.totalProcessed++;
+        qualityReport.recordProduct(product, isValid);
+
+        if (isValid) {
+            this.qualityMetrics.validProducts++;
+            this.qualityMetrics.qualityScores.push(qualityScore);
+
+            // Update average quality score
+            const totalScore = this.qualityMetrics.qualityScores.reduce((sum, score) => sum + score, 0);
+            this.qualityMetrics.averageQualityScore = totalScore / this.qualityMetrics.qualityScores.length;
+        } else {
+            this.qualityMetrics.invalidProducts++;
+        }
+    }
+
+    /**
+     * Record canonical product quality, scored on the fields legacy products are scored on
+     */
+    static recordCanonicalProduct(product: Partial<CanonicalProduct>, isValid: boolean): void {
+        const reportedProduct = fromCanonicalProduct(product);
+        this.recordProduct(reportedProduct, isValid, isValid ? calculateProductQualityScore(reportedProduct) : 0);
+    }
+
+    /**
+     * Get quality metrics
+     */
+    static getMetrics() {
+        return { ...this.qualityMetrics };
+    }
+
+    /**
+     * Log quality report
+     */
+    static logQualityReport(): void {
+        const metrics = this.getMetrics();
+        const successRate = metrics.totalProcessed > 0 ? (metrics.validProducts / metrics.totalProcessed) * 100 : 0;
+
+        log.info('Data Quality Report:', {
+            totalProcessed: metrics.totalProcessed,
+            validProducts: metrics.validProducts,
+            invalidProducts: metrics.invalidProducts,
+            successRate: `${successRate.toFixed(2)}%`,
+            averageQualityScore: metrics.averageQualityScore.toFixed(2),
+        });
+    }
+}
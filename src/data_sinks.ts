@@ -0,0 +1,261 @@
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { Actor } from 'apify';
+import { log } from 'crawlee';
+import { outputFormatter } from './canonical_output.js';
+import { CircuitBreaker, circuitBreakers, createDataSavingBreaker, retryWithBackoff, RetryConfig } from './error_handling.js';
+import { sqliteSink } from './sqlite_sink.js';
+import type { ResolvedInput } from './input.js';
+
+/**
+ * Output sinks
+ * Records saved by the ProgressiveDataSaver are written to every configured sink. Each sink batches on
+ * its own and writes through its own circuit breaker, so a failing sink never blocks the others.
+ */
+
+export type DataSinkType = 'dataset' | 'jsonl' | 'webhook' | 'stdout';
+
+/**
+ * Sink as configured in the `outputSinks` input
+ */
+export interface DataSinkConfig {
+    type: DataSinkType;
+    // Records per write, 0 writes every batch saved by the ProgressiveDataSaver
+    batchSize?: number;
+    datasetName?: string;
+    path?: string;
+    url?: string;
+    headers?: Record<string, string>;
+}
+
+export interface DataSink {
+    name: string;
+    batchSize: number;
+    write(records: Record<string, any>[]): Promise<void>;
+}
+
+export interface DataSinkStats {
+    name: string;
+    written: number;
+    pending: number;
+    failures: number;
+    breakerState: string;
+}
+
+export const DEFAULT_OUTPUT_SINKS: DataSinkConfig[] = [{ type: 'dataset' }];
+
+// Records kept per sink while it fails, the oldest are dropped beyond this
+const MAX_PENDING_RECORDS = 10000;
+
+const SINK_RETRY_CONFIG: RetryConfig = {
+    maxRetries: 3,
+    baseDelay: 1000,
+    maxDelay: 10000,
+    backoffMultiplier: 2,
+    retryableErrors: ['ECONNRESET', 'ETIMEDOUT', 'ENOTFOUND'],
+};
+
+/**
+ * The default dataset or a named one
+ */
+export const createDatasetSink = (datasetName?: string, batchSize = 0): DataSink => ({
+    name: datasetName ? `dataset:${datasetName}` : 'dataset',
+    batchSize,
+    write: async (records) => {
+        const dataset = await Actor.openDataset(datasetName);
+        await retryWithBackoff(() => dataset.pushData(records), SINK_RETRY_CONFIG, 'dataset sink');
+    },
+});
+
+/**
+ * A local file with one JSON record per line, appended to across writes
+ */
+export const createJsonlFileSink = (path: string, batchSize = 0): DataSink => ({
+    name: `jsonl:${path}`,
+    batchSize,
+    write: async (records) => {
+        await mkdir(dirname(path), { recursive: true });
+        await appendFile(path, records.map((record) => `${JSON.stringify(record)}\n`).join(''), 'utf8');
+    },
+});
+
+/**
+ * JSON POST of every batch (`{ "count": 2, "records": [...] }`)
+ */
+export const createWebhookSink = (url: string, headers: Record<string, string> = {}, batchSize = 0): DataSink => ({
+    name: `webhook:${new URL(url).host}`,
+    batchSize,
+    write: async (records) => {
+        await retryWithBackoff(
+            async () => {
+                const response = await fetch(url, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json', ...headers },
+                    body: JSON.stringify({ count: records.length, records }),
+                });
+                if (!response.ok) {
+                    throw new Error(`Output webhook responded with status ${response.status}`);
+                }
+            },
+            SINK_RETRY_CONFIG,
+            'webhook sink',
+        );
+    },
+});
+
+/**
+ * One JSON record per line on stdout, to pipe a local run into other tools
+ */
+export const createStdoutSink = (batchSize = 0): DataSink => ({
+    name: 'stdout',
+    batchSize,
+    write: async (records) => {
+        process.stdout.write(records.map((record) => `${JSON.stringify(record)}\n`).join(''));
+    },
+});
+
+export const createDataSink = (config: DataSinkConfig): DataSink => {
+    const batchSize = config.batchSize ?? 0;
+    switch (config.type) {
+        case 'dataset':
+            return createDatasetSink(config.datasetName, batchSize);
+        case 'jsonl':
+            if (!config.path) throw new Error('The jsonl output sink needs a path');
+            return createJsonlFileSink(config.path, batchSize);
+        case 'webhook':
+            if (!config.url) throw new Error('The webhook output sink needs a url');
+            return createWebhookSink(config.url, config.headers, batchSize);
+        case 'stdout':
+            return createStdoutSink(batchSize);
+        default:
+            throw new Error(`Unknown output sink type "${(config as DataSinkConfig).type}"`);
+    }
+};
+
+/**
+ * Record handed to the sinks with its formatted output
+ */
+interface PendingRecord {
+    record: Record<string, any>;
+    output: Record<string, any>;
+}
+
+interface SinkState {
+    sink: DataSink;
+    breaker: CircuitBreaker;
+    pending: PendingRecord[];
+    written: number;
+    failures: number;
+}
+
+class DataSinkManager {
+    private sinks: SinkState[] = [];
+
+    constructor() {
+        this.use(DEFAULT_OUTPUT_SINKS.map(createDataSink));
+    }
+
+    configure(input: ResolvedInput) {
+        const sinks = input.outputSinks.map(createDataSink);
+        if (sqliteSink.isEnabled()) {
+            sinks.push({ name: 'sqlite', batchSize: 0, write: (records) => sqliteSink.write(records) });
+        }
+
+        this.use(sinks);
+        log.info(`Output sinks: ${sinks.map(({ name }) => name).join(', ') || 'none'}`);
+    }
+
+    /**
+     * Replace the sinks, the dataset sink keeps the shared data saving circuit breaker
+     */
+    use(sinks: DataSink[]) {
+        this.sinks = sinks.map((sink) => ({
+            sink,
+            breaker: sink.name === 'dataset' ? circuitBreakers.dataSaving : createDataSavingBreaker(),
+            pending: [],
+            written: 0,
+            failures: 0,
+        }));
+    }
+
+    /**
+     * Hand records to every sink formatted according to the output configuration, sinks whose batch is full
+     * write concurrently.
+     * Returns the records the primary sink, the first one, wrote, as they were handed in: a primary sink with
+     * a `batchSize` writes them once its batch is full. A failure of the primary sink is thrown with its
+     * records kept pending for `retryPrimary`, other sinks retry on their next write.
+     */
+    async write(records: Record<string, any>[]): Promise<Record<string, any>[]> {
+        const pending = records.map((record) => ({ record, output: outputFormatter.formatRecord(record) }));
+        for (const state of this.sinks) {
+            state.pending.push(...pending);
+        }
+
+        const [primary] = await Promise.allSettled(this.sinks.map(async (state) => {
+            return state.pending.length >= Math.max(state.sink.batchSize, 1) ? this.flushSink(state) : [];
+        }));
+
+        if (primary?.status === 'rejected') throw primary.reason;
+        return primary?.value ?? [];
+    }
+
+    /**
+     * Write the pending records of the primary sink and return them, throws when it fails again
+     */
+    async retryPrimary(): Promise<Record<string, any>[]> {
+        const [primary] = this.sinks;
+        return primary && primary.pending.length > 0 ? this.flushSink(primary) : [];
+    }
+
+    /**
+     * Write the pending records of every sink, at the end of the run.
+     * Returns the records the primary sink wrote.
+     */
+    async flush(): Promise<Record<string, any>[]> {
+        const [primary] = await Promise.allSettled(this.sinks.map(async (state) => {
+            return state.pending.length > 0 ? this.flushSink(state) : [];
+        }));
+
+        for (const { sink, pending } of this.sinks.filter((state) => state.pending.length > 0)) {
+            log.error(`Output sink ${sink.name}: ${pending.length} records could not be written`);
+        }
+
+        return primary?.status === 'fulfilled' ? primary.value : [];
+    }
+
+    /**
+     * Write the pending records of a sink and return them as handed in, failed records stay pending
+     */
+    private async flushSink(state: SinkState): Promise<Record<string, any>[]> {
+        const batch = state.pending;
+        state.pending = [];
+
+        try {
+            const outputs = batch.map(({ output }) => output);
+            await state.breaker.execute(() => state.sink.write(outputs), `output sink ${state.sink.name}`);
+            state.written += batch.length;
+            return batch.map(({ record }) => record);
+        } catch (error: any) {
+            state.failures++;
+            state.pending = [...batch, ...state.pending];
+            if (state.pending.length > MAX_PENDING_RECORDS) {
+                log.warning(`Output sink ${state.sink.name}: dropping ${state.pending.length - MAX_PENDING_RECORDS} pending records`);
+                state.pending = state.pending.slice(-MAX_PENDING_RECORDS);
+            }
+            log.warning(`Output sink ${state.sink.name} failed, ${state.pending.length} records pending: ${error.message}`);
+            throw error;
+        }
+    }
+
+    getStats(): DataSinkStats[] {
+        return this.sinks.map(({ sink, breaker, pending, written, failures }) => ({
+            name: sink.name,
+            written,
+            pending: pending.length,
+            failures,
+            breakerState: breaker.getState(),
+        }));
+    }
+}
+
+export const dataSinks = new DataSinkManager();
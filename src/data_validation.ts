@@ -1,4 +1,7 @@
 import { log } from 'crawlee';
+import { getMarketByCode, getPriceBounds } from './markets.js';
+import type { ChangeType } from './incremental.js';
+import type { VariantFields } from './variants.js';
 
 /**
  * Comprehensive data validation and cleaning utilities
@@ -8,6 +11,7 @@ import { log } from 'crawlee';
 export interface ProductData {
     company: string;
     country: string;
+    market: string;
     productName: string;
     articleNo: number;
     division: string;
@@ -20,47 +24,107 @@ export interface ProductData {
     url: string;
     imageUrl: string;
     timestamp: string;
+    searchQuery?: string;
+    colors?: string[];
+    sizes?: string[];
+    inStock?: boolean;
+    changeType?: ChangeType;
 }
 
 /**
- * Data validation rules and schemas
+ * Product record of a single size in variant mode
  */
-export const VALIDATION_RULES = {
-    productName: {
-        minLength: 3,
-        maxLength: 200,
-        required: true,
-    },
-    articleNo: {
-        min: 100000,
-        max: 999999999,
-        required: true,
-    },
-    listPrice: {
-        min: 0.01,
-        max: 10000,
-        required: true,
-    },
-    salePrice: {
-        min: 0.01,
-        max: 10000,
-        required: false,
-    },
-    description: {
-        minLength: 10,
-        maxLength: 1000,
-        required: true,
-    },
-    url: {
-        pattern: /^https?:\/\/.+/,
-        required: true,
+export type VariantProductData = ProductData & Partial<VariantFields>;
+
+const VARIANT_FIELDS: (keyof VariantFields)[] = ['productId', 'variantId', 'sku', 'size', 'sizeSystem', 'sizeStock'];
+
+export interface TextRule {
+    required: boolean;
+    minLength: number;
+    maxLength: number;
+}
+
+export interface PatternRule {
+    required: boolean;
+    pattern: string;
+    // `pattern` compiled once when the profile is built
+    regExp?: RegExp;
+}
+
+/**
+ * Validation rules of a profile, price bounds come from the currency of the product
+ */
+export interface ValidationRules {
+    productName: TextRule;
+    description: TextRule;
+    articleNo: PatternRule;
+    url: PatternRule;
+    imageUrl: PatternRule;
+    listPrice: { required: boolean };
+    salePrice: { belowListPrice: boolean };
+    currency: { required: boolean, matchesMarket: boolean };
+    sizes: { required: boolean };
+}
+
+export type ValidationProfileName = 'listing' | 'detail' | 'strict';
+
+const LISTING_RULES: ValidationRules = {
+    productName: { required: true, minLength: 3, maxLength: 200 },
+    // Listing pages have no descriptions
+    description: { required: false, minLength: 0, maxLength: 1000 },
+    // Article numbers lose their leading zero as numbers, e.g. 0970819001 -> 970819001
+    articleNo: { required: true, pattern: '^\\d{6,10}$' },
+    url: { required: true, pattern: '^https?://.+' },
+    imageUrl: { required: true, pattern: '^https?://.+' },
+    listPrice: { required: true },
+    salePrice: { belowListPrice: false },
+    currency: { required: false, matchesMarket: false },
+    sizes: { required: false },
+};
+
+/**
+ * Built-in validation profiles: `listing` for listing pages and search results, `detail` for product pages
+ * and `strict` for consistency checks across fields
+ */
+export const VALIDATION_PROFILES: Record<ValidationProfileName, ValidationRules> = {
+    listing: LISTING_RULES,
+    detail: {
+        ...LISTING_RULES,
+        description: { required: true, minLength: 10, maxLength: 1000 },
     },
-    imageUrl: {
-        pattern: /^https?:\/\/.+/,
-        required: true,
+    strict: {
+        ...LISTING_RULES,
+        description: { required: true, minLength: 10, maxLength: 1000 },
+        salePrice: { belowListPrice: true },
+        currency: { required: true, matchesMarket: true },
+        sizes: { required: true },
     },
 };
 
+const PATTERN_FIELDS = ['articleNo', 'url', 'imageUrl'] as const;
+
+/**
+ * Rules with their patterns compiled, so validating a product compiles no regular expression
+ */
+export const compileValidationRules = (rules: ValidationRules): ValidationRules => ({
+    ...rules,
+    ...Object.fromEntries(PATTERN_FIELDS.map((field) => [field, { ...rules[field], regExp: new RegExp(rules[field].pattern) }])),
+});
+
+const DEFAULT_RULES = compileValidationRules(VALIDATION_PROFILES.detail);
+
+export type ValidationReason = 'required' | 'tooShort' | 'tooLong' | 'invalidFormat' | 'outOfRange' | 'notBelowListPrice' | 'marketMismatch';
+
+/**
+ * Machine-readable validation failure, `code` is `<field>.<reason>` (e.g. `description.tooShort`)
+ */
+export interface ValidationIssue {
+    field: string;
+    reason: ValidationReason;
+    code: string;
+    message: string;
+}
+
 /**
  * Clean and normalize text data
  */
@@ -138,106 +202,134 @@ export const cleanImageUrl = (imageUrl: string): string => {
     }
 };
 
+const issue = (field: string, reason: ValidationReason, message: string): ValidationIssue => ({ field, reason, code: `${field}.${reason}`, message });
+
+const validateText = (field: string, label: string, value: string | undefined, rule: TextRule): ValidationIssue[] => {
+    if (!value) return rule.required ? [issue(field, 'required', `${label} is required`)] : [];
+
+    const cleaned = cleanText(value);
+    if (cleaned.length < rule.minLength) return [issue(field, 'tooShort', `${label} too short (min: ${rule.minLength})`)];
+    if (cleaned.length > rule.maxLength) return [issue(field, 'tooLong', `${label} too long (max: ${rule.maxLength})`)];
+    return [];
+};
+
+const validatePattern = (field: string, label: string, value: string | number | undefined, rule: PatternRule): ValidationIssue[] => {
+    if (!value) return rule.required ? [issue(field, 'required', `${label} is required`)] : [];
+    return (rule.regExp ?? new RegExp(rule.pattern)).test(String(value)) ? [] : [issue(field, 'invalidFormat', `Invalid ${label.toLowerCase()} format`)];
+};
+
 /**
- * Validate product data against rules
+ * Validate product data against the rules of a validation profile
  */
-export const validateProductData = (product: Partial<ProductData>): { isValid: boolean; errors: string[] } => {
-    const errors: string[] = [];
-
-    // Validate product name
-    if (VALIDATION_RULES.productName.required && !product.productName) {
-        errors.push('Product name is required');
-    } else if (product.productName) {
-        const cleanedName = cleanText(product.productName);
-        if (cleanedName.length < VALIDATION_RULES.productName.minLength) {
-            errors.push(`Product name too short (min: ${VALIDATION_RULES.productName.minLength})`);
-        }
-        if (cleanedName.length > VALIDATION_RULES.productName.maxLength) {
-            errors.push(`Product name too long (max: ${VALIDATION_RULES.productName.maxLength})`);
-        }
+export const validateProductData = (
+    product: Partial<ProductData>,
+    rules: ValidationRules = DEFAULT_RULES,
+): { isValid: boolean; errors: string[]; issues: ValidationIssue[] } => {
+    const issues: ValidationIssue[] = [
+        ...validateText('productName', 'Product name', product.productName, rules.productName),
+        ...validatePattern('articleNo', 'Article number', product.articleNo, rules.articleNo),
+    ];
+
+    const { min, max } = getPriceBounds(product.currency ?? '');
+    const range = `${min}-${max}${product.currency ? ` ${product.currency}` : ''}`;
+    if (!product.listPrice) {
+        if (rules.listPrice.required) issues.push(issue('listPrice', 'required', 'List price is required'));
+    } else if (product.listPrice < min || product.listPrice > max) {
+        issues.push(issue('listPrice', 'outOfRange', `List price out of range (${range})`));
     }
 
-    // Validate article number
-    if (VALIDATION_RULES.articleNo.required && !product.articleNo) {
-        errors.push('Article number is required');
-    } else if (product.articleNo) {
-        if (product.articleNo < VALIDATION_RULES.articleNo.min || product.articleNo > VALIDATION_RULES.articleNo.max) {
-            errors.push(`Article number out of range (${VALIDATION_RULES.articleNo.min}-${VALIDATION_RULES.articleNo.max})`);
-        }
+    if (product.salePrice && (product.salePrice < min || product.salePrice > max)) {
+        issues.push(issue('salePrice', 'outOfRange', `Sale price out of range (${range})`));
+    } else if (product.salePrice && product.listPrice && rules.salePrice.belowListPrice && product.salePrice >= product.listPrice) {
+        issues.push(issue('salePrice', 'notBelowListPrice', 'Sale price is not below the list price'));
     }
 
-    // Validate list price
-    if (VALIDATION_RULES.listPrice.required && !product.listPrice) {
-        errors.push('List price is required');
-    } else if (product.listPrice) {
-        if (product.listPrice < VALIDATION_RULES.listPrice.min || product.listPrice > VALIDATION_RULES.listPrice.max) {
-            errors.push(`List price out of range (${VALIDATION_RULES.listPrice.min}-${VALIDATION_RULES.listPrice.max})`);
-        }
+    if (!product.currency) {
+        if (rules.currency.required) issues.push(issue('currency', 'required', 'Currency is required'));
+    } else if (rules.currency.matchesMarket && product.market && getMarketByCode(product.market)?.currency !== product.currency) {
+        issues.push(issue('currency', 'marketMismatch', `Currency ${product.currency} is not the currency of market ${product.market}`));
     }
 
-    // Validate sale price
-    if (product.salePrice && (product.salePrice < VALIDATION_RULES.salePrice.min || product.salePrice > VALIDATION_RULES.salePrice.max)) {
-        errors.push(`Sale price out of range (${VALIDATION_RULES.salePrice.min}-${VALIDATION_RULES.salePrice.max})`);
-    }
+    issues.push(
+        ...validateText('description', 'Description', product.description, rules.description),
+        ...validatePattern('url', 'URL', product.url, rules.url),
+        ...validatePattern('imageUrl', 'Image URL', product.imageUrl, rules.imageUrl),
+    );
 
-    // Validate description
-    if (VALIDATION_RULES.description.required && !product.description) {
-        errors.push('Description is required');
-    } else if (product.description) {
-        const cleanedDesc = cleanText(product.description);
-        if (cleanedDesc.length < VALIDATION_RULES.description.minLength) {
-            errors.push(`Description too short (min: ${VALIDATION_RULES.description.minLength})`);
-        }
-        if (cleanedDesc.length > VALIDATION_RULES.description.maxLength) {
-            errors.push(`Description too long (max: ${VALIDATION_RULES.description.maxLength})`);
-        }
+    if (rules.sizes.required && !product.sizes?.length) {
+        issues.push(issue('sizes', 'required', 'Sizes are required'));
     }
 
-    // Validate URL
-    if (VALIDATION_RULES.url.required && !product.url) {
-        errors.push('URL is required');
-    } else if (product.url && !VALIDATION_RULES.url.pattern.test(product.url)) {
-        errors.push('Invalid URL format');
+    return {
+        isValid: issues.length === 0,
+        errors: issues.map(({ message }) => message),
+        issues,
+    };
+};
+
+/**
+ * Clean a list of names, given as strings or as { name, code } objects
+ */
+const cleanNames = (values: any[]): string[] => {
+    return values
+        .map((value) => cleanText(typeof value === 'string' ? value : value?.name ?? value?.code ?? ''))
+        .filter((value) => value.length > 0);
+};
+
+/**
+ * Clean and normalize product data, without validation
+ */
+export const cleanProduct = (rawProduct: any): ProductData => {
+    // Clean all text fields
+    const cleanedProduct: ProductData = {
+        company: cleanText(rawProduct.company || ''),
+        country: cleanText(rawProduct.country || ''),
+        market: cleanText(rawProduct.market || ''),
+        productName: cleanText(rawProduct.productName || ''),
+        articleNo: typeof rawProduct.articleNo === 'number' ? rawProduct.articleNo : parseInt(rawProduct.articleNo || '0', 10),
+        division: cleanText(rawProduct.division || ''),
+        category: cleanText(rawProduct.category || ''),
+        subCategory: cleanText(rawProduct.subCategory || ''),
+        listPrice: cleanPrice(rawProduct.listPrice) || 0,
+        salePrice: cleanPrice(rawProduct.salePrice),
+        currency: cleanText(rawProduct.currency || ''),
+        description: cleanText(rawProduct.description || ''),
+        url: cleanUrl(rawProduct.url || ''),
+        imageUrl: cleanImageUrl(rawProduct.imageUrl || ''),
+        timestamp: rawProduct.timestamp || new Date().toISOString(),
+    };
+
+    // Keep the search keyword that surfaced the product
+    if (rawProduct.searchQuery) {
+        cleanedProduct.searchQuery = cleanText(rawProduct.searchQuery);
     }
 
-    // Validate image URL
-    if (VALIDATION_RULES.imageUrl.required && !product.imageUrl) {
-        errors.push('Image URL is required');
-    } else if (product.imageUrl && !VALIDATION_RULES.imageUrl.pattern.test(product.imageUrl)) {
-        errors.push('Invalid image URL format');
+    // Variant and stock data, when the source provides it
+    if (Array.isArray(rawProduct.colors)) {
+        cleanedProduct.colors = cleanNames(rawProduct.colors);
+    }
+    if (Array.isArray(rawProduct.sizes)) {
+        cleanedProduct.sizes = cleanNames(rawProduct.sizes);
+    }
+    if (typeof rawProduct.inStock === 'boolean') {
+        cleanedProduct.inStock = rawProduct.inStock;
+    }
+    for (const field of VARIANT_FIELDS) {
+        if (typeof rawProduct[field] === 'string') {
+            (cleanedProduct as VariantProductData)[field] = rawProduct[field];
+        }
     }
 
-    return {
-        isValid: errors.length === 0,
-        errors,
-    };
+    return cleanedProduct;
 };
 
 /**
- * Clean and validate product data
+ * Clean and validate product data, null when it breaks a rule of the validation profile
  */
-export const cleanAndValidateProduct = (rawProduct: any): ProductData | null => {
+export const cleanAndValidateProduct = (rawProduct: any, rules: ValidationRules = DEFAULT_RULES): ProductData | null => {
     try {
-        // Clean all text fields
-        const cleanedProduct: ProductData = {
-            company: cleanText(rawProduct.company || ''),
-            country: cleanText(rawProduct.country || ''),
-            productName: cleanText(rawProduct.productName || ''),
-            articleNo: typeof rawProduct.articleNo === 'number' ? rawProduct.articleNo : parseInt(rawProduct.articleNo || '0', 10),
-            division: cleanText(rawProduct.division || ''),
-            category: cleanText(rawProduct.category || ''),
-            subCategory: cleanText(rawProduct.subCategory || ''),
-            listPrice: cleanPrice(rawProduct.listPrice) || 0,
-            salePrice: cleanPrice(rawProduct.salePrice),
-            currency: cleanText(rawProduct.currency || ''),
-            description: cleanText(rawProduct.description || ''),
-            url: cleanUrl(rawProduct.url || ''),
-            imageUrl: cleanImageUrl(rawProduct.imageUrl || ''),
-            timestamp: rawProduct.timestamp || new Date().toISOString(),
-        };
-
-        // Validate cleaned data
-        const validation = validateProductData(cleanedProduct);
+        const cleanedProduct = cleanProduct(rawProduct);
+        const validation = validateProductData(cleanedProduct, rules);
 
         if (!validation.isValid) {
             log.warning(`Product validation failed: ${validation.errors.join(', ')}`, {
@@ -254,54 +346,56 @@ export const cleanAndValidateProduct = (rawProduct: any): ProductData | null =>
     }
 };
 
+export type QualityDimension = 'name' | 'description' | 'price' | 'image' | 'url' | 'article';
+
 /**
- * Deduplicate products based on article number and country
+ * Points of a product per quality dimension
  */
-export const deduplicateProducts = (products: ProductData[]): ProductData[] => {
-    const seen = new Set<string>();
-    const unique: ProductData[] = [];
-
-    for (const product of products) {
-        const key = `${product.articleNo}_${product.country}`;
-        if (!seen.has(key)) {
-            seen.add(key);
-            unique.push(product);
-        }
-    }
+export type QualityBreakdown = Record<QualityDimension, number>;
 
-    return unique;
+/**
+ * Highest points per quality dimension, they add up to 100
+ */
+export const QUALITY_DIMENSION_POINTS: QualityBreakdown = {
+    name: 20,
+    description: 20,
+    price: 20,
+    image: 20,
+    url: 10,
+    article: 10,
 };
 
 /**
- * Quality scoring for products
+ * Quality score of a product per dimension
  */
-export const calculateProductQualityScore = (product: ProductData): number => {
-    let score = 0;
-    const maxScore = 100;
+export const calculateQualityBreakdown = (product: ProductData): QualityBreakdown => {
+    const breakdown: QualityBreakdown = { name: 0, description: 0, price: 0, image: 0, url: 0, article: 0 };
+
+    if (product.productName && product.productName.length > 10) breakdown.name = 20;
+    else if (product.productName && product.productName.length > 5) breakdown.name = 10;
 
-    // Product name quality (20 points)
-    if (product.productName && product.productName.length > 10) score += 20;
-    else if (product.productName && product.productName.length > 5) score += 10;
+    if (product.description && product.description.length > 50) breakdown.description = 20;
+    else if (product.description && product.description.length > 20) breakdown.description = 10;
 
-    // Description quality (20 points)
-    if (product.description && product.description.length > 50) score += 20;
-    else if (product.description && product.description.length > 20) score += 10;
+    if (product.listPrice > 0) breakdown.price += 15;
+    if (product.salePrice && product.salePrice > 0) breakdown.price += 5;
 
-    // Price information (20 points)
-    if (product.listPrice > 0) score += 15;
-    if (product.salePrice && product.salePrice > 0) score += 5;
+    if (product.imageUrl && product.imageUrl.includes('hm.com')) breakdown.image = 20;
+    else if (product.imageUrl) breakdown.image = 10;
 
-    // Image availability (20 points)
-    if (product.imageUrl && product.imageUrl.includes('hm.com')) score += 20;
-    else if (product.imageUrl) score += 10;
+    if (product.url && product.url.includes('hm.com')) breakdown.url = 10;
 
-    // URL validity (10 points)
-    if (product.url && product.url.includes('hm.com')) score += 10;
+    if (product.articleNo && product.articleNo > 100000) breakdown.article = 10;
 
-    // Article number validity (10 points)
-    if (product.articleNo && product.articleNo > 100000) score += 10;
+    return breakdown;
+};
 
-    return Math.min(score, maxScore);
+/**
+ * Quality scoring for products, the sum of the quality breakdown (0-100)
+ */
+export const calculateProductQualityScore = (product: ProductData): number => {
+    const score = Object.values(calculateQualityBreakdown(product)).reduce((sum, points) => sum + points, 0);
+    return Math.min(score, 100);
 };
 
 /**
@@ -1,8 +1,9 @@
 import { Request } from 'crawlee';
-import { BASE_URL, COUNTRIES, Labels } from './constants.js';
+import { BASE_URL, Labels } from './constants.js';
+import { requireMarket } from './markets.js';
 
 export const getMockStartUrls = (): Request[] => {
-    const country = COUNTRIES[0];
+    const country = requireMarket('en_gb');
 
     const subCategoryRequest = new Request({
         url: `${BASE_URL}/en_gb/men/shop-by-product/suits-blazers/blazers.html`,
@@ -0,0 +1,212 @@
+import { Actor } from 'apify';
+import { log } from 'crawlee';
+import { calculateProductQualityScore, ProductData } from './data_validation.js';
+import { isFieldFilled } from './quality_report.js';
+import type { ResolvedInput } from './input.js';
+
+/**
+ * Product deduplication
+ * One deduplication service for every record the ProgressiveDataSaver buffers, across batches and across
+ * migrations and restarts: the identities seen so far are kept in the default key-value store. Duplicates
+ * are dropped or combined with the record already saved according to the merge policy.
+ */
+
+export const DEDUP_STATE_KEY = 'DEDUP_STATE';
+
+/**
+ * What makes two records the same product. Variant records always keep their size.
+ */
+export type DedupIdentity = 'article' | 'articleSize' | 'articleMarket';
+
+/**
+ * What happens to a duplicate: dropped, replacing the saved record when its quality score is higher, or combined field by field
+ */
+export type DedupMergePolicy = 'keepFirst' | 'keepRichest' | 'mergeFields';
+
+/**
+ * Deduplication state saved in the default key-value store, identities and keys only, never records
+ */
+export interface DedupState {
+    // Quality score of the last saved record per identity
+    scores: Record<string, number>;
+    // Products handled per route, article and market, whatever the merge policy
+    handled: Record<string, boolean>;
+}
+
+export type DedupStatus = 'new' | 'duplicate' | 'updated';
+
+export interface DedupResult<T> {
+    status: DedupStatus;
+    key: string;
+    // The record to save, merged with the saved one by the mergeFields policy
+    record: T;
+}
+
+// Saved records kept in memory for the mergeFields policy, the least recently saved are dropped beyond this
+const MAX_MERGE_RECORDS = 5000;
+
+export interface DedupStats {
+    identity: DedupIdentity;
+    policy: DedupMergePolicy;
+    unique: number;
+    duplicates: number;
+    updated: number;
+}
+
+// Article numbers lose their leading zero as numbers, e.g. 0970819001 -> 970819001
+const normalizeArticle = (value: unknown): string => String(value ?? '').replace(/^0+/, '');
+
+/**
+ * Identity of a record, legacy records are identified by article number, canonical records by product ID
+ */
+export const getDedupKey = (record: Record<string, any>, identity: DedupIdentity): string => {
+    const parts = [normalizeArticle(record.articleNo ?? record.productId)];
+    if (identity === 'articleSize' || record.variantId) {
+        parts.push(record.variantId ? normalizeArticle(record.variantId) : String(record.size ?? ''));
+    }
+    if (identity === 'articleMarket') {
+        parts.push(record.market ?? '');
+    }
+    return parts.join('_');
+};
+
+/**
+ * One record per product and market, the last one read wins as the latest version of the product.
+ * Records without article are all kept.
+ */
+export const keepLastRecords = <T extends Record<string, any>>(records: T[]): T[] => {
+    const latest = new Map<string, T>();
+    records.forEach((record, index) => {
+        const hasArticle = normalizeArticle(record.articleNo ?? record.productId) !== '';
+        latest.set(hasArticle ? getDedupKey(record, 'articleMarket') : `#${index}`, record);
+    });
+    return [...latest.values()];
+};
+
+/**
+ * Quality score of legacy records, number of filled fields of canonical records
+ */
+export const getRecordScore = (record: Record<string, any>): number => {
+    if ('articleNo' in record) return calculateProductQualityScore(record as ProductData);
+    return Object.values(record).filter(isFieldFilled).length;
+};
+
+/**
+ * Fields of the preferred record, empty ones filled from the other record
+ */
+export const mergeRecords = <T extends Record<string, any>>(preferred: T, other: Record<string, any>): T => {
+    const merged: Record<string, any> = { ...other };
+    for (const [field, value] of Object.entries(preferred)) {
+        if (isFieldFilled(value) || !isFieldFilled(merged[field])) merged[field] = value;
+    }
+    return merged as T;
+};
+
+class ProductDedup {
+    private identity: DedupIdentity = 'articleMarket';
+    private policy: DedupMergePolicy = 'keepFirst';
+    private state: DedupState = { scores: {}, handled: {} };
+    // Last saved record per identity for the mergeFields policy, not persisted
+    private mergeRecords = new Map<string, Record<string, any>>();
+    private duplicates = 0;
+    private updated = 0;
+
+    configure(input: ResolvedInput) {
+        this.identity = input.dedupIdentity;
+        this.policy = input.dedupMergePolicy;
+        log.info(`Deduplication: identity ${this.identity}, duplicates ${this.policy}`);
+    }
+
+    /**
+     * Load the identities seen before a migration or restart, they are saved with the state of the run
+     */
+    async load(): Promise<void> {
+        const store = await Actor.openKeyValueStore();
+        this.state = await store.getAutoSavedValue<DedupState>(DEDUP_STATE_KEY, { scores: {}, handled: {} });
+    }
+
+    getKey(record: Record<string, any>): string {
+        return getDedupKey(record, this.identity);
+    }
+
+    /**
+     * Whether a later record can update a saved one, keepFirst only ever drops duplicates
+     */
+    canUpdate(): boolean {
+        return this.policy !== 'keepFirst';
+    }
+
+    /**
+     * Mark a product as handled by a route, false when the route handled it already and it can be skipped
+     * before it is extracted. Each route handles a product once per market, whatever the merge policy.
+     */
+    markHandled(route: string, record: Record<string, any>): boolean {
+        const key = `${route}_${getDedupKey(record, 'articleMarket')}`;
+        if (this.state.handled[key]) return false;
+
+        this.state.handled[key] = true;
+        return true;
+    }
+
+    /**
+     * Register a record and decide whether it is new, a duplicate to drop or an update of a saved record
+     */
+    accept<T extends Record<string, any>>(record: T): DedupResult<T> {
+        const key = this.getKey(record);
+        const score = getRecordScore(record);
+        const savedScore = this.state.scores[key];
+
+        if (savedScore === undefined) {
+            this.save(key, score, record);
+            return { status: 'new', key, record };
+        }
+
+        // After a migration or beyond the kept records, mergeFields keeps the richest record
+        const savedRecord = this.policy === 'mergeFields' ? this.mergeRecords.get(key) : undefined;
+        if (savedRecord) {
+            const merged = score >= savedScore ? mergeRecords(record, savedRecord) : mergeRecords(savedRecord as T, record);
+            if (JSON.stringify(merged) !== JSON.stringify(savedRecord)) {
+                this.save(key, Math.max(score, getRecordScore(merged)), merged);
+                this.updated++;
+                return { status: 'updated', key, record: merged };
+            }
+        } else if (this.policy !== 'keepFirst' && score > savedScore) {
+            this.save(key, score, record);
+            this.updated++;
+            return { status: 'updated', key, record };
+        }
+
+        this.duplicates++;
+        return { status: 'duplicate', key, record };
+    }
+
+    private save(key: string, score: number, record: Record<string, any>) {
+        this.state.scores[key] = score;
+        if (this.policy !== 'mergeFields') return;
+
+        this.mergeRecords.delete(key);
+        this.mergeRecords.set(key, record);
+        if (this.mergeRecords.size > MAX_MERGE_RECORDS) {
+            this.mergeRecords.delete(this.mergeRecords.keys().next().value);
+        }
+    }
+
+    getStats(): DedupStats {
+        return {
+            identity: this.identity,
+            policy: this.policy,
+            unique: Object.keys(this.state.scores).length,
+            duplicates: this.duplicates,
+            updated: this.updated,
+        };
+    }
+
+    reset() {
+        this.state = { scores: {}, handled: {} };
+        this.mergeRecords.clear();
+        this.duplicates = 0;
+        this.updated = 0;
+    }
+}
+
+export const productDedup = new ProductDedup();
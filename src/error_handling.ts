@@ -234,13 +234,18 @@ export class CircuitBreaker {
     }
 }
 
+/**
+ * Circuit breaker with the data saving thresholds, one per output sink
+ */
+export const createDataSavingBreaker = (): CircuitBreaker => new CircuitBreaker(10, 30000, 60000);
+
 /**
  * Global circuit breakers for different operations
  */
 export const circuitBreakers = {
     navigation: new CircuitBreaker(3, 30000, 120000),
     productPage: new CircuitBreaker(5, 60000, 300000),
-    dataSaving: new CircuitBreaker(10, 30000, 60000),
+    dataSaving: createDataSavingBreaker(),
 };
 
 /**
@@ -0,0 +1,220 @@
+import { Actor } from 'apify';
+import { log } from 'crawlee';
+import { isCanonicalRecord, LEGACY_OUTPUT_FIELD_ALIASES, OUTPUT_FIELD_ALIASES } from './canonical_output.js';
+import { keepLastRecords } from './dedup.js';
+import type { ResolvedInput } from './input.js';
+
+/**
+ * Dataset export
+ * At the end of the crawl, projects the dataset records to the selected output fields, flattens nested
+ * structures into columns and writes flat files to the default key-value store next to the dataset
+ */
+
+export type ExportFormat = 'csv' | 'tsv' | 'jsonl' | 'columnar';
+
+/**
+ * How arrays of objects become columns: `join` keeps one row per record and joins the values of each
+ * sub-field, `explode` emits one row per element of the explode field
+ */
+export type ArrayStrategy = 'join' | 'explode';
+
+export interface ExportOptions {
+    fields: string[];
+    arrayStrategy: ArrayStrategy;
+    explodeField: string;
+    fieldMapping: Record<string, string>;
+}
+
+export const EXPORT_FILES: Record<ExportFormat, { key: string, contentType: string }> = {
+    csv: { key: 'products.csv', contentType: 'text/csv; charset=utf-8' },
+    tsv: { key: 'products.tsv', contentType: 'text/tab-separated-values; charset=utf-8' },
+    jsonl: { key: 'products.jsonl', contentType: 'application/x-ndjson; charset=utf-8' },
+    columnar: { key: 'products.columnar.json', contentType: 'application/json; charset=utf-8' },
+};
+
+// Separator of joined array values
+const JOIN_SEPARATOR = '|';
+
+/**
+ * Fields kept by every projection, they identify a record
+ */
+const IDENTITY_FIELDS = ['articleNo', 'productId', 'variantId', 'market', 'changeType'];
+
+export type FlatRow = Record<string, string | number | boolean | null>;
+
+/**
+ * Columnar layout, one array of values per column as in Parquet or Arrow
+ */
+export interface ColumnarExport {
+    columns: string[];
+    rowCount: number;
+    data: Record<string, (string | number | boolean | null)[]>;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+/**
+ * Record reduced to the selected output fields, all fields without a selection
+ */
+export const projectRecord = (record: Record<string, unknown>, fields: string[]): Record<string, unknown> => {
+    if (fields.length === 0) return record;
+
+    const aliases: Record<string, string[]> = isCanonicalRecord(record) ? OUTPUT_FIELD_ALIASES : LEGACY_OUTPUT_FIELD_ALIASES;
+    const selectedFields = new Set(IDENTITY_FIELDS);
+    for (const field of fields) {
+        (aliases[field] ?? [field]).forEach((selectedField) => selectedFields.add(selectedField));
+    }
+
+    return Object.fromEntries(Object.entries(record).filter(([key]) => selectedFields.has(key)));
+};
+
+const flattenInto = (row: FlatRow, prefix: string, value: unknown): void => {
+    if (value === undefined || value === null) {
+        row[prefix] = null;
+    } else if (Array.isArray(value)) {
+        if (value.every((item) => !isPlainObject(item))) {
+            row[prefix] = value.map((item) => (isPlainObject(item) || Array.isArray(item) ? JSON.stringify(item) : String(item))).join(JOIN_SEPARATOR);
+            return;
+        }
+
+        // Arrays of objects become one joined column per sub-field, e.g. availableSizes.name = "S|M|L"
+        const elements = value.map((item) => flattenRecord(isPlainObject(item) ? item : { value: item }));
+        const keys = [...new Set(elements.flatMap((element) => Object.keys(element)))];
+        for (const key of keys) {
+            row[`${prefix}.${key}`] = elements.map((element) => element[key] ?? '').join(JOIN_SEPARATOR);
+        }
+    } else if (isPlainObject(value)) {
+        for (const [key, nestedValue] of Object.entries(value)) {
+            flattenInto(row, `${prefix}.${key}`, nestedValue);
+        }
+    } else {
+        row[prefix] = value as string | number | boolean;
+    }
+};
+
+/**
+ * Record as a single flat row, nested objects become dotted columns and arrays are joined
+ */
+export const flattenRecord = (record: Record<string, unknown>): FlatRow => {
+    const row: FlatRow = {};
+    for (const [key, value] of Object.entries(record)) {
+        flattenInto(row, key, value);
+    }
+    return row;
+};
+
+/**
+ * Flat rows of a record, one per element of the explode field with the `explode` strategy
+ */
+export const toFlatRows = (record: Record<string, unknown>, arrayStrategy: ArrayStrategy, explodeField: string): FlatRow[] => {
+    const elements = record[explodeField];
+    if (arrayStrategy !== 'explode' || !Array.isArray(elements) || elements.length === 0) {
+        return [flattenRecord(record)];
+    }
+
+    const rest = { ...record };
+    delete rest[explodeField];
+    const base = flattenRecord(rest);
+    return elements.map((element) => {
+        const row: FlatRow = { ...base };
+        flattenInto(row, explodeField, element);
+        return row;
+    });
+};
+
+/**
+ * Rename columns, unmapped columns keep their name
+ */
+export const applyFieldMapping = (row: FlatRow, fieldMapping: Record<string, string>): FlatRow => {
+    return Object.fromEntries(Object.entries(row).map(([column, value]) => [fieldMapping[column] ?? column, value]));
+};
+
+/**
+ * Columns of all rows in order of first appearance
+ */
+const getColumns = (rows: FlatRow[]): string[] => [...new Set(rows.flatMap((row) => Object.keys(row)))];
+
+const escapeDelimited = (value: string | number | boolean | null | undefined, delimiter: string): string => {
+    if (value === null || value === undefined) return '';
+
+    const text = String(value);
+    return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * CSV (RFC 4180) or TSV with a header row
+ */
+export const toDelimited = (rows: FlatRow[], delimiter = ','): string => {
+    const columns = getColumns(rows);
+    const lines = [
+        columns.map((column) => escapeDelimited(column, delimiter)).join(delimiter),
+        ...rows.map((row) => columns.map((column) => escapeDelimited(row[column], delimiter)).join(delimiter)),
+    ];
+    return `${lines.join('\r\n')}\r\n`;
+};
+
+export const toJsonLines = (rows: FlatRow[]): string => rows.map((row) => `${JSON.stringify(row)}\n`).join('');
+
+export const toColumnar = (rows: FlatRow[]): ColumnarExport => {
+    const columns = getColumns(rows);
+    return {
+        columns,
+        rowCount: rows.length,
+        data: Object.fromEntries(columns.map((column) => [column, rows.map((row) => row[column] ?? null)])),
+    };
+};
+
+/**
+ * Flat rows of dataset records after projection, flattening and renaming
+ */
+export const buildExportRows = (records: Record<string, unknown>[], options: ExportOptions): FlatRow[] => {
+    return records
+        .map((record) => projectRecord(record, options.fields))
+        .flatMap((record) => toFlatRows(record, options.arrayStrategy, options.explodeField))
+        .map((row) => applyFieldMapping(row, options.fieldMapping));
+};
+
+export const renderExport = (rows: FlatRow[], format: ExportFormat): string => {
+    switch (format) {
+        case 'csv':
+            return toDelimited(rows, ',');
+        case 'tsv':
+            return toDelimited(rows, '\t');
+        case 'jsonl':
+            return toJsonLines(rows);
+        case 'columnar':
+            return JSON.stringify(toColumnar(rows));
+        default:
+            throw new Error(`Unknown export format "${format}"`);
+    }
+};
+
+/**
+ * Export the default dataset in every format of the input
+ */
+export const runExport = async (input: ResolvedInput): Promise<number> => {
+    const datasetRecords: Record<string, unknown>[] = [];
+    const dataset = await Actor.openDataset();
+    await dataset.forEach((record) => {
+        datasetRecords.push(record);
+    });
+    // A product written more than once, e.g. by a run without deduplication, counts with its last record
+    const records = keepLastRecords(datasetRecords);
+
+    const rows = buildExportRows(records, {
+        fields: input.outputFields,
+        arrayStrategy: input.exportArrayStrategy,
+        explodeField: input.exportExplodeField,
+        fieldMapping: input.exportFieldMapping,
+    });
+
+    for (const format of input.exportFormats) {
+        const { key, contentType } = EXPORT_FILES[format];
+        await Actor.setValue(key, renderExport(rows, format), { contentType });
+    }
+
+    log.info(`Export: ${records.length} records as ${rows.length} rows to ${input.exportFormats.map((format) => EXPORT_FILES[format].key).join(', ')}`);
+    return rows.length;
+};
@@ -0,0 +1,386 @@
+import { Actor } from 'apify';
+import { log } from 'crawlee';
+import type { PageType, SchemaExpectation } from './extraction_telemetry.js';
+import type { ResolvedInput } from './input.js';
+import { compileRegExp } from './regexp.js';
+
+/**
+ * Extraction rules
+ * Declares where the extractors find their data: __NEXT_DATA__ paths, field fallback chains, CSS selectors
+ * and markers of inline scripts. The defaults can be patched from a key-value store record or from input,
+ * so a changed page structure can be handled without a code release.
+ */
+
+export const EXTRACTION_RULES_KEY = 'EXTRACTION_RULES';
+
+/**
+ * Dot paths tried in order, the first truthy value wins
+ */
+export type FallbackChain = string[];
+
+/**
+ * Text between two markers of an inline script
+ */
+export interface InlineValueRule {
+    start: string;
+    end: string;
+}
+
+export type ListingField = 'articleCode' | 'title' | 'pdpUrl' | 'regularPrice' | 'redPrice' | 'category' | 'imageUrl';
+
+export interface VariantRule {
+    path: FallbackChain;
+    name: FallbackChain;
+    code: FallbackChain;
+}
+
+/**
+ * Product listing data, paths relative to the listing object and to each product
+ */
+export interface ListingRules {
+    products: FallbackChain;
+    totalProducts: FallbackChain;
+    filters: FallbackChain;
+    fields: Record<ListingField, FallbackChain>;
+    colors: VariantRule;
+    sizes: VariantRule;
+}
+
+export interface ExtractionRules {
+    version: string;
+    nextData: {
+        // Regex sources matched with the "s" flag, the first group holds the JSON
+        scriptPatterns: string[];
+        listingPaths: FallbackChain;
+        productPaths: FallbackChain;
+        currentPage: FallbackChain;
+        totalPages: FallbackChain;
+        nextPageUrl: FallbackChain;
+        schema: Partial<Record<PageType, SchemaExpectation[]>>;
+    };
+    listing: ListingRules;
+    search: ListingRules & {
+        pageSize: FallbackChain;
+        offset: FallbackChain;
+    };
+    windowObject: {
+        patterns: string[];
+    };
+    jsonLd: {
+        listTypes: string[];
+        items: FallbackChain;
+        fields: Record<ListingField, FallbackChain>;
+    };
+    dataAttributes: {
+        cardSelectors: string[];
+        articleCodeAttributes: string[];
+        categoryAttribute: string;
+        title: string;
+        link: string;
+        price: string;
+        salePrice: string;
+        image: string;
+    };
+    productPage: {
+        articleDetails: InlineValueRule;
+        inlineValues: Record<'listPrice' | 'salePrice' | 'articleNo' | 'description', InlineValueRule>;
+        breadcrumbs: string;
+        productName: string;
+        activeColorImage: string;
+        colorLinks: string;
+        description: string;
+        materials: string;
+        sustainable: string;
+    };
+    categoryPage: {
+        productLinks: string;
+        productCount: string;
+        categoryLinks: string;
+        subCategoryLinks: string;
+    };
+    navigation: {
+        categoryGroup: string;
+    };
+}
+
+export const DEFAULT_EXTRACTION_RULES: ExtractionRules = {
+    version: '2024.1',
+    nextData: {
+        scriptPatterns: [
+            '<script id="__NEXT_DATA__" type="application/json">(.+?)</script>',
+            '<script id="__NEXT_DATA__"[^>]*>(.+?)</script>',
+            '<script[^>]*type="application/json"[^>]*id="__NEXT_DATA__"[^>]*>(.+?)</script>',
+        ],
+        listingPaths: [
+            'props.pageProps.plpProps.productListingProps',
+            'props.pageProps.productListingProps',
+            'props.pageProps.products',
+            'pageProps.plpProps.productListingProps',
+        ],
+        productPaths: ['props.pageProps.productData', 'props.pageProps.product'],
+        currentPage: ['pagination.currentPage'],
+        totalPages: ['pagination.totalPages'],
+        nextPageUrl: ['nextPageUrl'],
+        schema: {
+            listing: [
+                { path: 'props.pageProps', type: 'object' },
+                { path: 'props.pageProps.plpProps.productListingProps', type: 'object' },
+                { path: 'props.pageProps.plpProps.productListingProps.hits', type: 'array' },
+                { path: 'props.pageProps.plpProps.productListingProps.totalHits', type: 'number' },
+            ],
+        },
+    },
+    listing: {
+        products: ['hits', 'products'],
+        totalProducts: ['totalHits', 'total'],
+        filters: ['facets', 'filters'],
+        fields: {
+            articleCode: ['articleCode', 'code', 'id', 'sku'],
+            title: ['title', 'name', 'productName'],
+            pdpUrl: ['pdpUrl', 'url', 'link'],
+            regularPrice: ['regularPrice', 'price', 'whitePrice'],
+            redPrice: ['redPrice', 'salePrice', 'discountedPrice'],
+            category: ['category', 'categoryName'],
+            imageUrl: ['imageProductSrc', 'imageUrl', 'image'],
+        },
+        colors: { path: ['swatches'], name: ['colorName'], code: ['hexColor'] },
+        sizes: { path: ['sizes'], name: ['name'], code: ['sizeCode'] },
+    },
+    search: {
+        products: ['products', 'results', 'hits'],
+        totalProducts: ['total', 'totalHits', 'totalNumberOfResults'],
+        filters: ['filters', 'facets'],
+        pageSize: ['pageSize'],
+        offset: ['offset'],
+        fields: {
+            articleCode: ['articleCode', 'code', 'id'],
+            title: ['title', 'name'],
+            pdpUrl: ['link', 'pdpUrl', 'url'],
+            regularPrice: ['price', 'regularPrice', 'whitePrice'],
+            redPrice: ['redPrice', 'salePrice'],
+            category: ['category', 'categoryName'],
+            imageUrl: ['image.0.src', 'image', 'imageUrl'],
+        },
+        colors: { path: ['swatches'], name: ['colorName'], code: ['colorCode', 'hexColor'] },
+        sizes: { path: ['sizes'], name: ['name'], code: ['sizeCode', 'code'] },
+    },
+    windowObject: {
+        patterns: [
+            'window\\.productList\\s*=\\s*(\\{[\\s\\S]*?\\});',
+            'window\\.__INITIAL_STATE__\\s*=\\s*(\\{[\\s\\S]*?\\});',
+            'window\\.HM_DATA\\s*=\\s*(\\{[\\s\\S]*?\\});',
+            'window\\.pageData\\s*=\\s*(\\{[\\s\\S]*?\\});',
+        ],
+    },
+    jsonLd: {
+        listTypes: ['ItemList', 'ProductList'],
+        items: ['itemListElement'],
+        fields: {
+            articleCode: ['sku', 'productID'],
+            title: ['name'],
+            pdpUrl: ['url'],
+            regularPrice: ['offers.price'],
+            redPrice: [],
+            category: ['category'],
+            imageUrl: ['image'],
+        },
+    },
+    dataAttributes: {
+        cardSelectors: [
+            '[data-product]',
+            '[data-article-code]',
+            '[data-product-id]',
+            '.product-item[data-article]',
+            'article[data-test="product-card"]',
+        ],
+        articleCodeAttributes: ['article-code', 'product-id', 'article'],
+        categoryAttribute: 'category',
+        title: '[data-test="product-title"], .product-title, h2, h3',
+        link: 'a',
+        price: '[data-test="product-price"], .price, .regular-price',
+        salePrice: '.sale-price, .red-price',
+        image: 'img',
+    },
+    productPage: {
+        articleDetails: { start: 'var productArticleDetails = ', end: '</script>' },
+        inlineValues: {
+            listPrice: { start: 'regularPrice:"', end: '"' },
+            salePrice: { start: 'redPrice:"', end: '"' },
+            articleNo: { start: '\'articleCode\':\'', end: '\'' },
+            description: { start: 'const description = \'', end: '\'' },
+        },
+        breadcrumbs: '.breadcrumbs-placeholder li',
+        productName: '.product-name-price h1',
+        activeColorImage: '.product-colors .active img',
+        colorLinks: '.product-colors a',
+        description: '.product-description',
+        materials: '.product-details-material',
+        sustainable: '.sustainable-style',
+    },
+    categoryPage: {
+        productLinks: '.product-item article .item-heading a',
+        productCount: '.filter-pagination',
+        categoryLinks: 'aside [data-tracking-label=\'shop-by-product\'] + ul a',
+        subCategoryLinks: 'aside .link.current + ul a',
+    },
+    navigation: {
+        categoryGroup: 'shop-by-product',
+    },
+};
+
+/**
+ * Value at a dot path, array items are addressed by index (e.g. "image.0.src")
+ */
+export const readPath = (data: unknown, path: string): any => {
+    return path.split('.').reduce<any>((current, key) => (current && typeof current === 'object' ? current[key] : undefined), data);
+};
+
+/**
+ * First truthy value of a fallback chain
+ */
+export const readFirst = (data: unknown, chain: FallbackChain): any => {
+    for (const path of chain) {
+        const value = readPath(data, path);
+        if (value) return value;
+    }
+    return undefined;
+};
+
+/**
+ * Text between the markers of an inline value, undefined when a marker is missing
+ */
+export const readInlineValue = (body: string, { start, end }: InlineValueRule): string | undefined => {
+    const startIndex = body.indexOf(start);
+    if (startIndex === -1) return undefined;
+
+    const valueStart = startIndex + start.length;
+    const endIndex = body.indexOf(end, valueStart);
+    return endIndex === -1 ? undefined : body.slice(valueStart, endIndex);
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+/**
+ * Deep merge of rule overrides, arrays replace the default lists
+ */
+export const mergeExtractionRules = (rules: ExtractionRules, overrides: unknown): ExtractionRules => {
+    const merge = (base: unknown, override: unknown): unknown => {
+        if (!isPlainObject(base) || !isPlainObject(override)) return override === undefined ? base : override;
+
+        const merged: Record<string, unknown> = { ...base };
+        for (const [key, value] of Object.entries(override)) {
+            merged[key] = merge(base[key], value);
+        }
+        return merged;
+    };
+
+    return merge(rules, overrides) as ExtractionRules;
+};
+
+/**
+ * Check rules against the structure of the default rules and compile their regex patterns
+ */
+export const validateExtractionRules = (rules: unknown): { isValid: boolean, errors: string[] } => {
+    const errors: string[] = [];
+
+    const validate = (value: unknown, expected: unknown, path: string) => {
+        if (Array.isArray(expected)) {
+            if (!Array.isArray(value)) {
+                errors.push(`${path}: must be an array`);
+                return;
+            }
+            value.forEach((item, index) => {
+                const itemType = expected.length > 0 && isPlainObject(expected[0]) ? 'object' : 'string';
+                if (itemType === 'string' ? typeof item !== 'string' || item.length === 0 : !isPlainObject(item)) {
+                    errors.push(`${path}.${index}: must be a non-empty ${itemType}`);
+                }
+            });
+            return;
+        }
+
+        if (isPlainObject(expected)) {
+            if (!isPlainObject(value)) {
+                errors.push(`${path}: must be an object`);
+                return;
+            }
+            for (const key of Object.keys(value)) {
+                // Schema expectations may name page types the defaults do not check
+                if (!(key in expected) && !path.endsWith('.schema')) errors.push(`${path}.${key}: unknown rule`);
+            }
+            for (const [key, expectedValue] of Object.entries(expected)) {
+                if (key in value) validate(value[key], expectedValue, `${path}.${key}`);
+            }
+            return;
+        }
+
+        if (typeof value !== typeof expected || value === '') {
+            errors.push(`${path}: must be a non-empty ${typeof expected}`);
+        }
+    };
+
+    validate(rules, DEFAULT_EXTRACTION_RULES, 'extractionRules');
+
+    if (errors.length === 0) {
+        const { nextData, windowObject } = rules as ExtractionRules;
+        for (const [name, patterns] of Object.entries({ 'nextData.scriptPatterns': nextData.scriptPatterns, 'windowObject.patterns': windowObject.patterns })) {
+            patterns.forEach((pattern, index) => {
+                const { error } = compileRegExp(pattern, 's');
+                if (error) {
+                    errors.push(`extractionRules.${name}.${index}: invalid regular expression (${error})`);
+                }
+            });
+        }
+    }
+
+    return {
+        isValid: errors.length === 0,
+        errors,
+    };
+};
+
+class ExtractionRulesManager {
+    private rules: ExtractionRules = DEFAULT_EXTRACTION_RULES;
+
+    get(): ExtractionRules {
+        return this.rules;
+    }
+
+    /**
+     * Apply overrides from the EXTRACTION_RULES record and from input, input wins.
+     * Throws when the resulting rules are invalid.
+     */
+    async load(input: Pick<ResolvedInput, 'extractionRules' | 'extractionRulesStore'>): Promise<ExtractionRules> {
+        const store = await Actor.openKeyValueStore(input.extractionRulesStore || undefined);
+        const storedRules = await store.getValue(EXTRACTION_RULES_KEY);
+
+        const rules = mergeExtractionRules(mergeExtractionRules(DEFAULT_EXTRACTION_RULES, storedRules ?? undefined), input.extractionRules);
+        this.use(rules);
+
+        const overridden = [storedRules && `${EXTRACTION_RULES_KEY} record`, Object.keys(input.extractionRules).length > 0 && 'input']
+            .filter(Boolean);
+        if (overridden.length > 0) {
+            log.info(`Extraction rules ${rules.version} (overrides from ${overridden.join(' and ')})`);
+        }
+
+        return rules;
+    }
+
+    /**
+     * Replace the rules in use, throws when they are invalid
+     */
+    use(rules: ExtractionRules) {
+        const validation = validateExtractionRules(rules);
+        if (!validation.isValid) {
+            throw new Error(`Invalid extraction rules:\n${validation.errors.map((error) => `  - ${error}`).join('\n')}`);
+        }
+        this.rules = rules;
+    }
+
+    reset() {
+        this.rules = DEFAULT_EXTRACTION_RULES;
+    }
+}
+
+export const extractionRules = new ExtractionRulesManager();
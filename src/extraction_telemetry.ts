@@ -0,0 +1,173 @@
+import { Actor } from 'apify';
+import { log } from 'crawlee';
+import { extractionRules, readPath } from './extraction_rules.js';
+
+/**
+ * Extraction telemetry
+ * Counts which SmartDataExtractor strategy succeeded per route and market and detects
+ * schema drift: expected __NEXT_DATA__ paths that disappear or change type
+ */
+
+export const EXTRACTION_REPORT_KEY = 'EXTRACTION_REPORT';
+
+export type ExtractionStrategy = 'nextJs' | 'windowObject' | 'jsonLd' | 'dataAttributes' | 'searchResponse' | 'none';
+
+export type PageType = 'listing' | 'product';
+
+export type ValueType = 'object' | 'array' | 'string' | 'number' | 'boolean' | 'null' | 'missing';
+
+/**
+ * Where an extraction happened, pages with a page type are checked for schema drift
+ */
+export interface ExtractionContext {
+    route: string;
+    market: string;
+    pageType?: PageType;
+    url?: string;
+}
+
+export interface SchemaExpectation {
+    path: string;
+    type: ValueType;
+}
+
+/**
+ * An expected path that was missing or had another type
+ */
+export interface SchemaMismatch {
+    path: string;
+    expectedType: ValueType;
+    actualType: ValueType;
+}
+
+export interface SchemaDrift extends SchemaMismatch {
+    pageType: PageType;
+    occurrences: number;
+    routes: string[];
+    markets: string[];
+    exampleUrl?: string;
+    firstSeenAt: string;
+}
+
+/**
+ * Successful extractions by route, market and strategy
+ */
+export type StrategyCounts = Record<string, Record<string, Partial<Record<ExtractionStrategy, number>>>>;
+
+export interface ExtractionReport {
+    generatedAt: string;
+    strategies: StrategyCounts;
+    pagesChecked: Partial<Record<PageType, number>>;
+    driftDetected: boolean;
+    drift: SchemaDrift[];
+}
+
+/**
+ * Type of a value parsed from JSON
+ */
+export const getValueType = (value: unknown): ValueType => {
+    if (value === undefined) return 'missing';
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value as ValueType;
+};
+
+/**
+ * Expected paths that are missing or changed type, a missing __NEXT_DATA__ script is reported as its own path
+ */
+export const detectSchemaDrift = (nextData: unknown, expectations: SchemaExpectation[]): SchemaMismatch[] => {
+    if (nextData === null || nextData === undefined) {
+        return [{ path: '__NEXT_DATA__', expectedType: 'object', actualType: 'missing' }];
+    }
+
+    return expectations
+        .map(({ path, type }) => ({ path, expectedType: type, actualType: getValueType(readPath(nextData, path)) }))
+        .filter(({ expectedType, actualType }) => expectedType !== actualType);
+};
+
+class ExtractionTelemetry {
+    private strategies: StrategyCounts = {};
+    private pagesChecked: Partial<Record<PageType, number>> = {};
+    private drift = new Map<string, SchemaDrift>();
+
+    recordStrategy(strategy: ExtractionStrategy, { route, market }: ExtractionContext) {
+        this.strategies[route] ??= {};
+        this.strategies[route][market] ??= {};
+
+        const counts = this.strategies[route][market];
+        counts[strategy] = (counts[strategy] ?? 0) + 1;
+    }
+
+    /**
+     * Check the __NEXT_DATA__ of a page against the schema of its page type in the extraction rules
+     */
+    checkNextData(nextData: unknown, context: ExtractionContext): SchemaMismatch[] {
+        const expectations = context.pageType && extractionRules.get().nextData.schema[context.pageType];
+        if (!context.pageType || !expectations) return [];
+
+        const { pageType } = context;
+        this.pagesChecked[pageType] = (this.pagesChecked[pageType] ?? 0) + 1;
+
+        const mismatches = detectSchemaDrift(nextData, expectations);
+        for (const mismatch of mismatches) {
+            this.recordDrift(pageType, mismatch, context);
+        }
+
+        return mismatches;
+    }
+
+    private recordDrift(pageType: PageType, mismatch: SchemaMismatch, { route, market, url }: ExtractionContext) {
+        const key = `${pageType}|${mismatch.path}|${mismatch.actualType}`;
+        let drift = this.drift.get(key);
+
+        if (!drift) {
+            log.warning(`Schema drift on ${pageType} pages: ${mismatch.path} expected ${mismatch.expectedType}, found ${mismatch.actualType}`, {
+                route,
+                market,
+                url,
+            });
+            drift = { pageType, ...mismatch, occurrences: 0, routes: [], markets: [], exampleUrl: url, firstSeenAt: new Date().toISOString() };
+            this.drift.set(key, drift);
+        }
+
+        drift.occurrences++;
+        if (!drift.routes.includes(route)) drift.routes.push(route);
+        if (!drift.markets.includes(market)) drift.markets.push(market);
+    }
+
+    getReport(): ExtractionReport {
+        const drift = [...this.drift.values()];
+
+        return {
+            generatedAt: new Date().toISOString(),
+            strategies: this.strategies,
+            pagesChecked: this.pagesChecked,
+            driftDetected: drift.length > 0,
+            drift,
+        };
+    }
+
+    /**
+     * Write the report to the default key-value store
+     */
+    async saveReport(): Promise<ExtractionReport> {
+        const report = this.getReport();
+        await Actor.setValue(EXTRACTION_REPORT_KEY, report);
+
+        if (report.driftDetected) {
+            log.warning(`Extraction report: schema drift on ${report.drift.length} path(s), see ${EXTRACTION_REPORT_KEY}`);
+        } else {
+            log.info('Extraction report saved, no schema drift detected', { strategies: report.strategies });
+        }
+
+        return report;
+    }
+
+    reset() {
+        this.strategies = {};
+        this.pagesChecked = {};
+        this.drift.clear();
+    }
+}
+
+export const extractionTelemetry = new ExtractionTelemetry();
@@ -1,80 +1,46 @@
 import { CheerioRoot, Request } from 'crawlee';
-import { BASE_URL, CountryInformation, Labels } from './constants.js';
-
-interface CategoryResponse {
-    trackingLabel: string,
-    path: string,
-    aliasPath: string,
-    title: string,
-    children: CategoryResponse[]
-}
-
-interface SiteNavigationResponse {
-    siteStructure: CategoryResponse[]
-}
-
-export const getCategoriesFromNavigation = (response: SiteNavigationResponse, country: CountryInformation): Request[] => {
-    const linksToKeep = ['ladies', 'men', 'baby', 'kids', 'home', 'beauty'];
-    return response
-        .siteStructure.filter((link) => linksToKeep.includes(link.trackingLabel))
-        .flatMap((division) => {
-            return handleDivisionNavigation(division, country);
-        });
-};
-
-const handleDivisionNavigation = (division: CategoryResponse, country: CountryInformation): Request[] => {
-    const divisionName = division.title;
-    const shopByProduct = division.children.filter((category) => category.trackingLabel === 'shop-by-product')[0];
-    if (!shopByProduct) return [];
-
-    const categoriesToSkip = ['view-all', 'last-chance', 'the-bestsellers'];
-    return shopByProduct.children
-        .filter((category) => !categoriesToSkip.includes(category.trackingLabel))
-        .flatMap((category) => handleCategoryNavigation(category, divisionName, country));
-};
-
-const handleCategoryNavigation = (category: CategoryResponse, divisionName: string, country: CountryInformation): Request[] => {
-    const categoryName = category.title;
-    const subcategoryRequests = category.children.map((subcategory) => {
-        const url = new URL(subcategory.aliasPath, BASE_URL);
-        return new Request({
-            url: url.toString(),
+import { Labels } from './constants.js';
+import { buildCategoryTree, categoryDiscovery, CategoryNode, SiteNavigationResponse } from './category_discovery.js';
+import { Market } from './markets.js';
+import { extractionRules, InlineValueRule, readInlineValue } from './extraction_rules.js';
+import { getSizeStock, SizeVariant } from './variants.js';
+
+/**
+ * Product count requests of the categories and subcategories in a category tree.
+ * The page of a partially selected category also lists the products of its other subcategories,
+ * it is only counted for discovery.
+ */
+export const getCategoryCountRequests = (divisions: CategoryNode[], country: Market, countPartialCategories = false): Request[] => {
+    return divisions.flatMap((division) => division.children.flatMap((category) => {
+        const nodes = category.partial && !countPartialCategories ? category.children : [...category.children, category];
+        return nodes.map((node) => new Request({
+            url: node.url,
             userData: {
                 label: Labels.SUB_CATEGORY_COUNT,
-                divisionName,
-                categoryName,
+                divisionName: division.title,
+                categoryName: category.title,
+                aliasPath: node.aliasPath,
                 country,
             },
-        });
-    });
-
-    const categoryUrl = new URL(category.aliasPath, BASE_URL);
-    const categoryRequest = new Request({
-        url: categoryUrl.toString(),
-        userData: {
-            label: Labels.SUB_CATEGORY_COUNT,
-            divisionName,
-            categoryName,
-            country,
-        },
-    });
+        }));
+    }));
+};
 
-    return [
-        ...subcategoryRequests,
-        categoryRequest,
-    ];
+export const getCategoriesFromNavigation = (response: SiteNavigationResponse, country: Market): Request[] => {
+    return getCategoryCountRequests(buildCategoryTree(response, categoryDiscovery.getFilter()), country);
 };
 
-export const getCategoryLinks = ($: CheerioRoot) => $('aside [data-tracking-label=\'shop-by-product\'] + ul a');
+export const getCategoryLinks = ($: CheerioRoot) => $(extractionRules.get().categoryPage.categoryLinks);
 
-export const getSubCategoryLinks = ($: CheerioRoot) => $('aside .link.current + ul a');
+export const getSubCategoryLinks = ($: CheerioRoot) => $(extractionRules.get().categoryPage.subCategoryLinks);
 
-export const getProductCount = ($: CheerioRoot) => $('.filter-pagination');
+export const getProductCount = ($: CheerioRoot) => $(extractionRules.get().categoryPage.productCount);
 
 export const getProductInfo = ($: CheerioRoot, body: string) => {
     // Correct breadcrumb has structure: HM.com/MainCategory/Category/SubCategory/Product
     // Some breadcrumbs are incomplete and only have product name
-    const breadcrumbParts = $('.breadcrumbs-placeholder li');
+    const rules = extractionRules.get().productPage;
+    const breadcrumbParts = $(rules.breadcrumbs);
     const correctBreadcrumb = breadcrumbParts.length >= 5;
 
     const division = correctBreadcrumb
@@ -87,14 +53,20 @@ export const getProductInfo = ($: CheerioRoot, body: string) => {
         ? breadcrumbParts.eq(breadcrumbParts.length - 2).text().trim()
         : null;
 
+    const getInlineValue = (rule: InlineValueRule) => {
+        const value = readInlineValue(body, rule);
+        if (value === undefined) throw new Error(`Could not find ${rule.start}`);
+        return value;
+    };
+
     try {
         return {
-            productName: $('.product-name-price h1').text().trim(),
-            listPrice: body.split('regularPrice:"')[1].split('"')[0],
-            salePrice: body.split('redPrice:"')[1].split('"')[0],
-            articleNo: body.split('\'articleCode\':\'')[1].split('\'')[0],
-            description: body.split('const description = \'')[1].split('\'')[0],
-            miniatureImage: $('.product-colors .active img').attr('src') as string,
+            productName: $(rules.productName).text().trim(),
+            listPrice: getInlineValue(rules.inlineValues.listPrice),
+            salePrice: getInlineValue(rules.inlineValues.salePrice),
+            articleNo: getInlineValue(rules.inlineValues.articleNo),
+            description: getInlineValue(rules.inlineValues.description),
+            miniatureImage: $(rules.activeColorImage).attr('src') as string,
             division,
             category,
             subCategory,
@@ -111,6 +83,9 @@ interface CombinationInfo {
     description: string,
     urlPath: string,
     imageUrl?: string,
+    colorName?: string,
+    sizes: string[],
+    sizeVariants: SizeVariant[],
 }
 
 export const getCombinationsInfoFromProductObject = (productObject: object): CombinationInfo[] => {
@@ -127,6 +102,11 @@ export const getCombinationsInfoFromProductObject = (productObject: object): Com
             description: product.description,
             urlPath: product.url,
             imageUrl: product.images[0]?.thumbnail,
+            colorName: product.name,
+            sizes: (product.sizes ?? []).map((size: any) => size.name).filter(Boolean),
+            sizeVariants: (product.sizes ?? [])
+                .filter((size: any) => size.sizeCode)
+                .map((size: any) => ({ code: size.sizeCode, name: size.name, stock: getSizeStock(size) })),
         });
     }
 
@@ -135,7 +115,7 @@ export const getCombinationsInfoFromProductObject = (productObject: object): Com
 
 export const getAllCombinationImages = ($: CheerioRoot) => {
     const images: Record<string, string> = {};
-    const combinationLinks = $('.product-colors a');
+    const combinationLinks = $(extractionRules.get().productPage.colorLinks);
     combinationLinks.each((_id, el) => {
         const element = $(el);
 
@@ -149,10 +129,11 @@ export const getAllCombinationImages = ($: CheerioRoot) => {
 };
 
 export const getProductInfoObject = (body: string) => {
-    const splitByStart = body.split('var productArticleDetails = ');
+    const { start, end } = extractionRules.get().productPage.articleDetails;
+    const splitByStart = body.split(start);
     if (splitByStart.length !== 2) throw new Error('Could not find the JS object with product data');
 
-    const splitByEnd = splitByStart[1].split('</script>');
+    const splitByEnd = splitByStart[1].split(end);
     if (splitByEnd.length < 2) throw new Error('Could not find the JS object with product data');
 
     const objectString = `${splitByEnd[0]}`;
@@ -0,0 +1,206 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { join } from 'path';
+import { CheerioCrawlerOptions, CheerioCrawlingContext, log } from 'crawlee';
+import type { ResolvedInput } from './input.js';
+
+/**
+ * Fixture recording and replay
+ * Record mode saves raw responses (navigation JSON, listing and product pages) to a fixtures directory.
+ * Replay mode serves them from a local HTTP server, so the routes run end to end without network access.
+ */
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+export const FIXTURE_MANIFEST = 'manifest.json';
+export const DEFAULT_FIXTURES_DIR = 'fixtures';
+
+export interface FixtureEntry {
+    url: string;
+    file: string;
+    contentType: string;
+    recordedAt: string;
+}
+
+/**
+ * Recorded fixtures by normalized URL
+ */
+export type FixtureManifest = Record<string, FixtureEntry>;
+
+/**
+ * URL without the anti-bot parameters (`_t`, `_r`, ...) and with sorted query parameters,
+ * so a response recorded once matches every later request for the same page
+ */
+export const normalizeFixtureUrl = (url: string): string => {
+    const parsed = new URL(url);
+    const params = [...parsed.searchParams.entries()]
+        .filter(([key]) => !key.startsWith('_'))
+        .sort(([a], [b]) => a.localeCompare(b));
+
+    parsed.search = new URLSearchParams(params).toString();
+    parsed.hash = '';
+    return parsed.toString();
+};
+
+/**
+ * Readable and unique file name, e.g. "en_gb-productpage.1023045002-3f2a9c1b.html"
+ */
+const getFixtureFileName = (normalizedUrl: string, contentType: string): string => {
+    const { pathname } = new URL(normalizedUrl);
+    const slug = pathname
+        .replace(/\.(html|json)$/, '')
+        .split('/')
+        .filter(Boolean)
+        .join('-')
+        .replace(/[^a-zA-Z0-9._-]/g, '_')
+        .slice(-80);
+    const hash = createHash('sha1').update(normalizedUrl).digest('hex').slice(0, 8);
+    const extension = contentType.includes('json') ? 'json' : 'html';
+
+    return `${slug || 'index'}-${hash}.${extension}`;
+};
+
+export const loadFixtureManifest = async (fixturesDir: string): Promise<FixtureManifest> => {
+    try {
+        return JSON.parse(await readFile(join(fixturesDir, FIXTURE_MANIFEST), 'utf8'));
+    } catch (error: any) {
+        if (error.code === 'ENOENT') return {};
+        throw new Error(`Could not read fixture manifest in ${fixturesDir}: ${error.message}`);
+    }
+};
+
+class FixtureManager {
+    private mode: FixtureMode = 'off';
+    private fixturesDir = DEFAULT_FIXTURES_DIR;
+    private manifest?: FixtureManifest;
+    private writeQueue = Promise.resolve();
+    private server?: Server;
+    private serverUrl = '';
+
+    configure(input: ResolvedInput) {
+        this.mode = input.fixtureMode;
+        this.fixturesDir = input.fixturesDir;
+
+        if (this.mode === 'record') {
+            log.info(`Fixture mode: recording responses to ${this.fixturesDir}`);
+        }
+    }
+
+    getMode(): FixtureMode {
+        return this.mode;
+    }
+
+    isReplaying(): boolean {
+        return this.mode === 'replay';
+    }
+
+    /**
+     * Save a response as fixture, an existing fixture of the same URL is overwritten
+     */
+    async record(url: string, contentType: string, body: Buffer | string): Promise<void> {
+        const normalizedUrl = normalizeFixtureUrl(url);
+
+        // Writes are chained, concurrent requests must not overwrite each other's manifest entries
+        this.writeQueue = this.writeQueue.then(async () => {
+            this.manifest ??= await loadFixtureManifest(this.fixturesDir);
+            await mkdir(this.fixturesDir, { recursive: true });
+
+            const file = this.manifest[normalizedUrl]?.file ?? getFixtureFileName(normalizedUrl, contentType);
+            await writeFile(join(this.fixturesDir, file), body);
+
+            this.manifest[normalizedUrl] = { url: normalizedUrl, file, contentType, recordedAt: new Date().toISOString() };
+            await writeFile(join(this.fixturesDir, FIXTURE_MANIFEST), JSON.stringify(this.manifest, null, 2));
+
+            log.debug(`Recorded fixture ${file} for ${normalizedUrl}`);
+        }).catch((error) => {
+            log.warning(`Could not record fixture for ${url}:`, error);
+        });
+
+        return this.writeQueue;
+    }
+
+    /**
+     * Router middleware saving every response that reaches a route handler
+     */
+    createRecordingMiddleware() {
+        return async ({ request, contentType, body }: CheerioCrawlingContext) => {
+            await this.record(request.url, contentType.type, body);
+        };
+    }
+
+    /**
+     * Start the fixture server in replay mode.
+     * The crawler keeps the original URLs, only the HTTP requests go to the server.
+     */
+    async start(): Promise<void> {
+        if (!this.isReplaying() || this.server) return;
+
+        const manifest = await loadFixtureManifest(this.fixturesDir);
+        if (Object.keys(manifest).length === 0) {
+            throw new Error(`No fixtures found in ${this.fixturesDir}, record them first with fixtureMode "record"`);
+        }
+
+        const server = createServer(async (req, res) => {
+            const originalUrl = new URL(req.url ?? '/', 'http://localhost').searchParams.get('url') ?? '';
+            const entry = originalUrl ? manifest[normalizeFixtureUrl(originalUrl)] : undefined;
+
+            if (!entry) {
+                log.warning(`No fixture recorded for ${originalUrl}`);
+                res.writeHead(404, { 'Content-Type': 'text/html' });
+                res.end(`<html><body>No fixture recorded for ${originalUrl}</body></html>`);
+                return;
+            }
+
+            try {
+                const body = await readFile(join(this.fixturesDir, entry.file));
+                res.writeHead(200, { 'Content-Type': entry.contentType });
+                res.end(body);
+            } catch (error: any) {
+                res.writeHead(500, { 'Content-Type': 'text/plain' });
+                res.end(`Could not read fixture ${entry.file}: ${error.message}`);
+            }
+        });
+
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        const { port } = server.address() as AddressInfo;
+        this.server = server;
+        this.serverUrl = `http://127.0.0.1:${port}`;
+
+        log.info(`Replaying ${Object.keys(manifest).length} fixtures from ${this.fixturesDir} on ${this.serverUrl}`);
+    }
+
+    async stop(): Promise<void> {
+        const { server } = this;
+        if (!server) return;
+
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+        this.server = undefined;
+    }
+
+    /**
+     * Navigation hooks sending crawler requests to the fixture server, empty unless replaying
+     */
+    getCrawlerHooks(): Partial<CheerioCrawlerOptions> {
+        if (!this.server) return {};
+
+        return {
+            preNavigationHooks: [
+                async ({ request }, gotOptions) => {
+                    gotOptions.url = `${this.serverUrl}/replay?url=${encodeURIComponent(request.url)}`;
+                },
+            ],
+            // Handlers build pagination and product URLs from the loaded URL, it must stay the original one
+            postNavigationHooks: [
+                async ({ request, response }) => {
+                    if (response) {
+                        Object.defineProperty(response, 'url', { value: request.url, configurable: true, writable: true });
+                    }
+                },
+            ],
+        };
+    }
+}
+
+export const fixtureManager = new FixtureManager();
@@ -0,0 +1,265 @@
+import { createHash } from 'crypto';
+import { Actor, KeyValueStore } from 'apify';
+import { log } from 'crawlee';
+import { dataSinks } from './data_sinks.js';
+import type { ResolvedInput } from './input.js';
+
+/**
+ * Incremental scraping
+ * Keeps a fingerprint per article and market in a named key-value store across runs,
+ * so a run only emits products that were added, changed or removed since the previous one
+ */
+
+export type ChangeType = 'added' | 'priceChanged' | 'stockChanged' | 'removed';
+
+export const DEFAULT_INCREMENTAL_STORE = 'hm-incremental-state';
+
+export interface ProductFingerprint {
+    listPrice: number | null;
+    salePrice: number | null;
+    inStock: boolean | null;
+    sizes: string[];
+    colors: string[];
+    productName?: string;
+    url?: string;
+    // Article of a variant fingerprint, the fingerprint itself is keyed by variant ID
+    articleNo?: string;
+    lastSeen: string;
+}
+
+/**
+ * Fingerprints of one market and crawl scope, keyed by article number or variant ID
+ */
+type FingerprintRecord = Record<string, ProductFingerprint>;
+
+const toNames = (values: unknown): string[] => {
+    if (!Array.isArray(values)) return [];
+    return values
+        .map((value) => (typeof value === 'string' ? value : value?.name ?? value?.code))
+        .filter((value): value is string => typeof value === 'string' && value.length > 0)
+        .sort();
+};
+
+const toNumber = (value: unknown): number | null => (typeof value === 'number' && Number.isFinite(value) ? value : null);
+
+/**
+ * Fingerprint of a legacy (ProductData) or canonical (CanonicalProduct) record
+ */
+export const createFingerprint = (record: Record<string, any>, lastSeen: string): ProductFingerprint => {
+    const sizes = record.availableSizes ?? record.sizes;
+    // Variant records tell the stock of their size only
+    const variantInStock = record.sizeStock ? record.sizeStock !== 'out' : null;
+    const inStockSizes = Array.isArray(record.availableSizes)
+        ? record.availableSizes.filter((size: any) => size.stock !== 'out')
+        : sizes;
+
+    return {
+        listPrice: toNumber(record.listPrice ?? record.originalPrice ?? record.price),
+        salePrice: toNumber(record.salePrice),
+        inStock: typeof record.inStock === 'boolean' ? record.inStock : variantInStock,
+        sizes: toNames(inStockSizes),
+        colors: toNames(record.colors ?? (record.color ? [record.color] : [])),
+        productName: record.productName ?? record.title,
+        url: record.url,
+        ...(record.variantId ? { articleNo: String(record.articleNo ?? record.productId) } : {}),
+        lastSeen,
+    };
+};
+
+/**
+ * Classify the difference between two fingerprints, null when nothing changed
+ */
+export const classifyChange = (previous: ProductFingerprint | undefined, current: ProductFingerprint): ChangeType | null => {
+    if (!previous) return 'added';
+
+    if (previous.listPrice !== current.listPrice || previous.salePrice !== current.salePrice) {
+        return 'priceChanged';
+    }
+
+    if (previous.inStock !== current.inStock
+        || previous.sizes.join('|') !== current.sizes.join('|')
+        || previous.colors.join('|') !== current.colors.join('|')) {
+        return 'stockChanged';
+    }
+
+    return null;
+};
+
+/**
+ * Key of a fingerprint, variant records are tracked per size
+ */
+const getRecordId = (record: Record<string, any>): string => String(record.variantId ?? record.articleNo ?? record.productId ?? '');
+
+/**
+ * Identifies what a run crawls, fingerprints of different scopes are kept apart
+ * so a category run never marks products of other categories as removed
+ */
+export const getCrawlScope = (input: Pick<ResolvedInput, 'startUrls' | 'searchQueries' | 'categories' | 'filters'>): string => {
+    const { startUrls, searchQueries, categories, filters } = input;
+    if (startUrls.length === 0 && searchQueries.length === 0 && categories.length === 0 && Object.keys(filters).length === 0) {
+        return 'catalog';
+    }
+
+    return createHash('sha1')
+        .update(JSON.stringify({ startUrls, searchQueries, categories, filters }))
+        .digest('hex')
+        .slice(0, 12);
+};
+
+class IncrementalTracker {
+    private enabled = false;
+    private storeName = DEFAULT_INCREMENTAL_STORE;
+    private scope = 'catalog';
+    private runStartedAt = new Date().toISOString();
+    private store?: KeyValueStore;
+    private markets = new Map<string, FingerprintRecord>();
+
+    configure(input: ResolvedInput) {
+        this.enabled = input.incremental;
+        this.storeName = input.incrementalStoreName;
+        this.scope = getCrawlScope(input);
+
+        // A migrated run keeps its start time, products seen before the migration are not removed
+        const { startedAt } = Actor.getEnv();
+        this.runStartedAt = (startedAt ?? new Date()).toISOString();
+
+        if (this.enabled) {
+            log.info(`Incremental mode: fingerprints in key-value store "${this.storeName}", scope ${this.scope}`);
+            Actor.on('persistState', async () => this.persist());
+        }
+    }
+
+    isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    private getRecordKey(market: string): string {
+        return `FINGERPRINTS_${market}_${this.scope}`;
+    }
+
+    private async getMarket(market: string): Promise<FingerprintRecord> {
+        let fingerprints = this.markets.get(market);
+        if (fingerprints) return fingerprints;
+
+        this.store ??= await Actor.openKeyValueStore(this.storeName);
+        fingerprints = (await this.store.getValue<FingerprintRecord>(this.getRecordKey(market))) ?? {};
+        this.markets.set(market, fingerprints);
+        return fingerprints;
+    }
+
+    /**
+     * Return only the records that changed since the previous run, tagged with their `changeType`.
+     * Seen products keep their fingerprint until `commit`, so a failed write emits them again next run.
+     */
+    async filterChanged<T extends Record<string, any>>(records: T[]): Promise<(T & { changeType: ChangeType })[]> {
+        const changed: (T & { changeType: ChangeType })[] = [];
+        const now = new Date().toISOString();
+
+        for (const record of records) {
+            const recordId = getRecordId(record);
+            const { market } = record;
+            if (!recordId || !market) {
+                log.debug('Incremental mode: record without article number or market, emitting it unchanged');
+                changed.push({ ...record, changeType: 'added' });
+                continue;
+            }
+
+            const fingerprints = await this.getMarket(market);
+            const previous = fingerprints[recordId];
+            const changeType = classifyChange(previous, createFingerprint(record, now));
+
+            // Seen in this run, so not removed
+            if (previous) previous.lastSeen = now;
+            if (changeType) changed.push({ ...record, changeType });
+        }
+
+        return changed;
+    }
+
+    /**
+     * Save the fingerprints of written records, they are compared with the next run
+     */
+    async commit(records: Record<string, any>[]): Promise<void> {
+        const now = new Date().toISOString();
+
+        for (const record of records) {
+            const recordId = getRecordId(record);
+            if (!recordId || !record.market) continue;
+
+            const fingerprints = await this.getMarket(record.market);
+            fingerprints[recordId] = createFingerprint(record, now);
+        }
+    }
+
+    /**
+     * Products of fully crawled markets that were not seen in this run
+     */
+    private collectRemoved(completedMarkets: string[]): Record<string, unknown>[] {
+        const removed: Record<string, unknown>[] = [];
+        const timestamp = new Date().toISOString();
+
+        for (const market of completedMarkets) {
+            const fingerprints = this.markets.get(market);
+            if (!fingerprints) continue;
+
+            for (const [recordId, fingerprint] of Object.entries(fingerprints)) {
+                if (fingerprint.lastSeen >= this.runStartedAt) continue;
+
+                removed.push({
+                    ...(fingerprint.articleNo ? { articleNo: fingerprint.articleNo, variantId: recordId } : { articleNo: recordId }),
+                    market,
+                    productName: fingerprint.productName,
+                    url: fingerprint.url,
+                    listPrice: fingerprint.listPrice,
+                    salePrice: fingerprint.salePrice,
+                    lastSeen: fingerprint.lastSeen,
+                    timestamp,
+                    changeType: 'removed',
+                });
+            }
+        }
+
+        return removed;
+    }
+
+    async persist(): Promise<void> {
+        if (!this.store) return;
+
+        for (const [market, fingerprints] of this.markets) {
+            await this.store.setValue(this.getRecordKey(market), fingerprints);
+        }
+    }
+
+    /**
+     * Emit removed products of the completed markets and save fingerprints for the next run.
+     * Only markets crawled completely (no failed or blocked request, no product limit) can tell a product was removed.
+     */
+    async finish(completedMarkets: string[]): Promise<number> {
+        if (!this.enabled) return 0;
+
+        for (const market of completedMarkets) {
+            await this.getMarket(market);
+        }
+
+        const removed = this.collectRemoved(completedMarkets);
+        if (removed.length > 0) {
+            try {
+                // The end of the run, removed products the primary sink still collects for its batch are written too
+                const written = new Set([...await dataSinks.write(removed), ...await dataSinks.flush()]);
+
+                // Removed products are forgotten once emitted, otherwise they are emitted by the next run
+                for (const record of removed.filter((removedRecord) => written.has(removedRecord))) {
+                    delete this.markets.get(record.market as string)?.[getRecordId(record)];
+                }
+            } catch (error: any) {
+                log.error(`Incremental mode: could not emit ${removed.length} removed products:`, error);
+            }
+        }
+
+        await this.persist();
+        log.info(`Incremental mode: ${removed.length} removed products emitted`, { completedMarkets });
+        return removed.length;
+    }
+}
+
+export const incrementalTracker = new IncrementalTracker();
@@ -0,0 +1,171 @@
+import { log } from 'crawlee';
+import { FilterOptions } from './url_builder.js';
+import { OutputFormat } from './canonical_output.js';
+import type { DataSinkConfig } from './data_sinks.js';
+import type { DedupIdentity, DedupMergePolicy } from './dedup.js';
+import type { ArrayStrategy, ExportFormat } from './export.js';
+import type { FixtureMode } from './fixtures.js';
+import type { ValidationProfileName } from './data_validation.js';
+import type { ValidationProfileOverrides } from './validation_profiles.js';
+import type { QualityGateAction } from './quality_gate.js';
+import type { WatchlistInput } from './watchlist.js';
+import { formatValidationReport, getInputDefaults, normalizeLegacyInput, validateInput } from './input_validation.js';
+
+/**
+ * Actor input
+ * Mirrors .actor/INPUT_SCHEMA.json, plus the legacy keys of the first version of the actor
+ */
+
+export interface ActorInput {
+    // URL-based options
+    startUrls?: (string | { url: string })[];
+    searchQueries?: string[];
+    categories?: string[];
+    categoryDiscovery?: boolean;
+    categoryDatasetName?: string;
+    includeDivisions?: string[];
+    excludeDivisions?: string[];
+    includeCategories?: string[];
+    excludeCategories?: string[];
+
+    // Market selection
+    country?: string;
+    countries?: string[];
+    regions?: string[];
+    currencies?: string[];
+
+    // Filters
+    filters?: FilterOptions;
+
+    // Scraping options
+    maxProducts?: number;
+    maxProductsPerMarket?: number;
+    maxPages?: number;
+    productsPerPage?: number;
+    sortBy?: 'stock' | 'newProduct' | 'ascPrice' | 'descPrice';
+    includeVariants?: boolean;
+    extractProductDetails?: boolean;
+    maxRunSeconds?: number;
+
+    // Output options
+    outputFormat?: OutputFormat;
+    outputFields?: string[];
+    includeRawData?: boolean;
+    includeTranslations?: boolean;
+    includeRelatedProducts?: boolean;
+    includeStoreAvailability?: boolean;
+
+    // Export options
+    exportFormats?: ExportFormat[];
+    exportArrayStrategy?: ArrayStrategy;
+    exportExplodeField?: string;
+    exportFieldMapping?: Record<string, string>;
+    sqliteOutput?: boolean;
+    sqliteRecordKey?: string;
+    outputSinks?: DataSinkConfig[];
+
+    // Incremental options
+    incremental?: boolean;
+    incrementalStoreName?: string;
+
+    // Price history options
+    trackPriceHistory?: boolean;
+    priceHistoryStoreName?: string;
+
+    // Markdown event options
+    detectMarkdowns?: boolean;
+    markdownDatasetName?: string;
+    markdownWebhookUrl?: string;
+
+    // Watchlist options
+    watchlist?: WatchlistInput[];
+    watchlistStoreName?: string;
+    watchlistDatasetName?: string;
+
+    // Price comparison options
+    comparePrices?: boolean;
+    referenceCurrency?: string;
+    exchangeRates?: Record<string, number>;
+    exchangeRatesStore?: string;
+
+    // Data quality options
+    enableProgressiveSaving?: boolean;
+    batchSize?: number;
+    minQualityScore?: number;
+    dedupIdentity?: DedupIdentity;
+    dedupMergePolicy?: DedupMergePolicy;
+    validationProfiles?: ValidationProfileOverrides;
+    routeValidationProfiles?: Record<string, ValidationProfileName>;
+    rejectedDatasetName?: string;
+
+    // Quality gate options
+    qualityGateAction?: QualityGateAction;
+    minValidProductRate?: number;
+    minAverageQualityScore?: number;
+    minProductCountRatio?: number;
+    maxFillRateDrops?: Record<string, number>;
+    qualityBaselineStoreName?: string;
+
+    // Technical options
+    proxyConfiguration?: any;
+    maxConcurrency?: number;
+    requestTimeout?: number;
+    retryAttempts?: number;
+    enableAntiBot?: boolean;
+    enableSmartExtraction?: boolean;
+    extractionRules?: Record<string, unknown>;
+    extractionRulesStore?: string;
+    enableMemoryOptimization?: boolean;
+    useMockRequests?: boolean;
+    fixtureMode?: FixtureMode;
+    fixturesDir?: string;
+    debug?: boolean;
+
+    // Legacy keys
+    inputCountry?: string;
+    maxItems?: number;
+}
+
+/**
+ * Input keys without a default value
+ */
+export const OPTIONAL_INPUT_KEYS = ['proxyConfiguration', 'maxRunSeconds', 'exchangeRatesStore', 'markdownWebhookUrl', 'extractionRulesStore'] as const;
+
+type OptionalInputKey = typeof OPTIONAL_INPUT_KEYS[number];
+
+export type ResolvedInput = Required<Omit<ActorInput, OptionalInputKey | 'inputCountry' | 'maxItems'>> & Pick<ActorInput, OptionalInputKey>;
+
+/**
+ * Defaults of the input schema, the single source of default values
+ */
+export const DEFAULT_INPUT = getInputDefaults() as unknown as ResolvedInput;
+
+/**
+ * Validate input, translate legacy keys and apply defaults.
+ * Throws a single error listing every problem found in the input.
+ */
+export const resolveInput = (rawInput: ActorInput | null | undefined): ResolvedInput => {
+    const normalized = normalizeLegacyInput(rawInput ?? {});
+    const validation = validateInput(normalized.input);
+
+    const result = {
+        isValid: validation.isValid && normalized.errors.length === 0,
+        errors: [...normalized.errors, ...validation.errors],
+        warnings: [...normalized.warnings, ...validation.warnings],
+    };
+
+    if (!result.isValid) {
+        throw new Error(formatValidationReport(result));
+    }
+
+    result.warnings.forEach((warning) => log.warning(`Input: ${warning}`));
+
+    const resolved: ResolvedInput = { ...DEFAULT_INPUT };
+    for (const [key, value] of Object.entries(normalized.input)) {
+        if (value !== undefined && value !== null) {
+            (resolved as any)[key] = value;
+        }
+    }
+
+    return resolved;
+};
@@ -0,0 +1,300 @@
+import { readFileSync } from 'fs';
+import Ajv, { ErrorObject } from 'ajv';
+import { findMarket, getAllCurrencies, HM_MARKETS } from './markets.js';
+import { FILL_RATE_FIELDS } from './quality_report.js';
+import { validateValidationProfiles } from './validation_profiles.js';
+import { parseWatchlistEntry } from './watchlist.js';
+import type { ActorInput } from './input.js';
+
+/**
+ * Input validation
+ * Checks actor input against .actor/INPUT_SCHEMA.json before the crawl starts
+ * and reports every problem at once
+ */
+
+export interface InputValidationResult {
+    isValid: boolean;
+    errors: string[];
+    warnings: string[];
+}
+
+/**
+ * Keys of the first version of the actor and their current equivalents
+ */
+export const LEGACY_INPUT_KEYS: Record<string, keyof ActorInput> = {
+    inputCountry: 'country',
+    maxItems: 'maxProducts',
+};
+
+const INPUT_SCHEMA_URL = new URL('../.actor/INPUT_SCHEMA.json', import.meta.url);
+
+let inputSchema: any;
+const getInputSchema = () => {
+    if (!inputSchema) {
+        inputSchema = JSON.parse(readFileSync(INPUT_SCHEMA_URL, 'utf8'));
+    }
+    return inputSchema;
+};
+
+/**
+ * Default value of every input field that declares one in the input schema
+ */
+export const getInputDefaults = (): Record<string, unknown> => {
+    const entries = Object.entries<any>(getInputSchema().properties)
+        .filter(([, property]) => 'default' in property)
+        .map(([key, property]) => [key, structuredClone(property.default)]);
+    return Object.fromEntries(entries);
+};
+
+let schemaValidator: ReturnType<Ajv['compile']> | undefined;
+const getSchemaValidator = () => {
+    if (!schemaValidator) {
+        // The Apify schema carries UI keywords (editor, prefill, enumTitles...) that are not JSON schema
+        const ajv = new Ajv({ allErrors: true, strict: false });
+        schemaValidator = ajv.compile(getInputSchema());
+    }
+    return schemaValidator;
+};
+
+/**
+ * Levenshtein distance, used to suggest the intended value for typos
+ */
+const editDistance = (a: string, b: string): number => {
+    const distances = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        let previousDiagonal = distances[0];
+        distances[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const previous = distances[j];
+            distances[j] = Math.min(
+                distances[j] + 1,
+                distances[j - 1] + 1,
+                previousDiagonal + (a[i - 1] === b[j - 1] ? 0 : 1),
+            );
+            previousDiagonal = previous;
+        }
+    }
+    return distances[b.length];
+};
+
+const suggestValue = (value: unknown, allowedValues: unknown[]): string => {
+    if (typeof value !== 'string') return '';
+
+    const closest = allowedValues
+        .filter((allowed): allowed is string => typeof allowed === 'string')
+        .map((allowed) => ({ allowed, distance: editDistance(value.toLowerCase(), allowed.toLowerCase()) }))
+        .sort((a, b) => a.distance - b.distance)[0];
+
+    return closest && closest.distance <= 2 ? ` Did you mean "${closest.allowed}"?` : '';
+};
+
+const getValueAtPath = (input: Record<string, unknown>, instancePath: string): unknown => {
+    return instancePath
+        .split('/')
+        .filter(Boolean)
+        .reduce<any>((value, key) => value?.[key], input);
+};
+
+/**
+ * Turn an ajv error into a message that names the field and the received value
+ */
+const formatSchemaError = (error: ErrorObject, input: Record<string, unknown>): string => {
+    const field = error.instancePath.split('/').filter(Boolean).join('.') || 'input';
+    const value = getValueAtPath(input, error.instancePath);
+    const received = `received ${JSON.stringify(value)}`;
+
+    switch (error.keyword) {
+        case 'enum': {
+            const allowedValues = error.params.allowedValues as unknown[];
+            const allowed = allowedValues.length <= 10
+                ? ` Allowed values: ${allowedValues.join(', ')}.`
+                : suggestValue(value, allowedValues);
+            return `${field}: ${received}, which is not a supported value.${allowed}`;
+        }
+        case 'type':
+            return `${field}: must be of type ${error.params.type}, ${received}`;
+        case 'minimum':
+        case 'maximum':
+            return `${field}: ${error.message}, ${received}`;
+        default:
+            return `${field}: ${error.message}`;
+    }
+};
+
+/**
+ * Translate legacy keys to their current equivalents.
+ * Legacy country names (e.g. "GERMANY") are converted to market codes.
+ */
+export const normalizeLegacyInput = (rawInput: Record<string, any>): { input: Record<string, any>; errors: string[]; warnings: string[] } => {
+    const input = { ...rawInput };
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    for (const [legacyKey, currentKey] of Object.entries(LEGACY_INPUT_KEYS)) {
+        if (!(legacyKey in input)) continue;
+
+        const legacyValue = input[legacyKey];
+        delete input[legacyKey];
+
+        if (input[currentKey] !== undefined) {
+            warnings.push(`${legacyKey}: ignored because "${currentKey}" is set as well`);
+            continue;
+        }
+
+        if (legacyKey === 'inputCountry' && typeof legacyValue === 'string') {
+            const legacyCountry = findMarket(legacyValue);
+            if (!legacyCountry) {
+                const countryNames = HM_MARKETS.map((m) => m.name);
+                errors.push(`inputCountry: received "${legacyValue}", which is not a supported country.${suggestValue(legacyValue, countryNames)} `
+                    + 'Use the "country" market code instead.');
+                continue;
+            }
+            input[currentKey] = legacyCountry.code;
+        } else {
+            input[currentKey] = legacyValue;
+        }
+
+        warnings.push(`${legacyKey}: deprecated, use "${currentKey}" instead`);
+    }
+
+    return { input, errors, warnings };
+};
+
+/**
+ * Checks that depend on more than one field
+ */
+const validateSemantics = (input: Record<string, any>): string[] => {
+    const errors: string[] = [];
+    const { filters } = input;
+
+    if (filters && typeof filters === 'object'
+        && typeof filters.minPrice === 'number' && typeof filters.maxPrice === 'number'
+        && filters.minPrice > filters.maxPrice) {
+        errors.push(`filters: minPrice (${filters.minPrice}) is greater than maxPrice (${filters.maxPrice})`);
+    }
+
+    const marketCodes = HM_MARKETS.map((m) => m.code);
+    for (const [index, country] of (Array.isArray(input.countries) ? input.countries : []).entries()) {
+        if (typeof country === 'string' && !findMarket(country)) {
+            errors.push(`countries.${index}: received "${country}", which is not a supported market.${suggestValue(country, marketCodes)}`);
+        }
+    }
+
+    const currencies = getAllCurrencies();
+    for (const [index, currency] of (Array.isArray(input.currencies) ? input.currencies : []).entries()) {
+        if (typeof currency === 'string' && !currencies.includes(currency.toUpperCase())) {
+            errors.push(`currencies.${index}: received "${currency}", no H&M market sells in this currency.${suggestValue(currency, currencies)}`);
+        }
+    }
+
+    if (typeof input.referenceCurrency === 'string' && !currencies.includes(input.referenceCurrency)) {
+        const suggestion = suggestValue(input.referenceCurrency, currencies);
+        errors.push(`referenceCurrency: received "${input.referenceCurrency}", no H&M market sells in this currency.${suggestion}`);
+    }
+
+    for (const [currency, rate] of Object.entries(input.exchangeRates && typeof input.exchangeRates === 'object' ? input.exchangeRates : {})) {
+        if (typeof rate !== 'number' || rate <= 0) {
+            errors.push(`exchangeRates.${currency}: must be a positive number, received ${JSON.stringify(rate)}`);
+        }
+    }
+
+    if (typeof input.markdownWebhookUrl === 'string' && !/^https?:\/\/.+/.test(input.markdownWebhookUrl)) {
+        errors.push(`markdownWebhookUrl: "${input.markdownWebhookUrl}" is not a valid HTTP(S) URL`);
+    }
+
+    for (const [index, startUrl] of (Array.isArray(input.startUrls) ? input.startUrls : []).entries()) {
+        const url = typeof startUrl === 'string' ? startUrl : startUrl?.url;
+        try {
+            const { hostname } = new URL(url);
+            if (!hostname.endsWith('hm.com')) {
+                errors.push(`startUrls.${index}: "${url}" is not an H&M URL`);
+            }
+        } catch {
+            errors.push(`startUrls.${index}: "${url}" is not a valid URL`);
+        }
+    }
+
+    for (const [index, sink] of (Array.isArray(input.outputSinks) ? input.outputSinks : []).entries()) {
+        if (sink?.type === 'jsonl' && (typeof sink.path !== 'string' || !sink.path)) {
+            errors.push(`outputSinks.${index}: the jsonl sink needs a file path`);
+        }
+        if (sink?.type === 'webhook' && !/^https?:\/\/.+/.test(sink.url ?? '')) {
+            errors.push(`outputSinks.${index}: the webhook sink needs an HTTP(S) url, received ${JSON.stringify(sink.url)}`);
+        }
+    }
+
+    for (const field of Object.keys(input.maxFillRateDrops && typeof input.maxFillRateDrops === 'object' ? input.maxFillRateDrops : {})) {
+        if (!(FILL_RATE_FIELDS as readonly string[]).includes(field)) {
+            errors.push(`maxFillRateDrops.${field}: no fill rate is reported for this field.${suggestValue(field, [...FILL_RATE_FIELDS])}`);
+        }
+    }
+
+    errors.push(...validateValidationProfiles(input.validationProfiles, input.routeValidationProfiles).errors);
+
+    for (const [index, entry] of (Array.isArray(input.watchlist) ? input.watchlist : []).entries()) {
+        if (!parseWatchlistEntry(entry)) {
+            errors.push(`watchlist.${index}: ${JSON.stringify(entry)} is neither a 10-digit article number nor an H&M product page URL`);
+            continue;
+        }
+        for (const market of (Array.isArray(entry?.markets) ? entry.markets : [])) {
+            if (!findMarket(market)) {
+                errors.push(`watchlist.${index}.markets: received "${market}", which is not a supported market.${suggestValue(market, marketCodes)}`);
+            }
+        }
+    }
+
+    return errors;
+};
+
+/**
+ * Validate input against the actor input schema
+ */
+export const validateInput = (input: Record<string, any>): InputValidationResult => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const validator = getSchemaValidator();
+    if (!validator(input)) {
+        errors.push(...(validator.errors ?? []).map((error) => formatSchemaError(error, input)));
+    }
+
+    errors.push(...validateSemantics(input));
+
+    // Unknown keys are most likely typos, they would be silently ignored
+    const { properties } = getInputSchema();
+    for (const key of Object.keys(input)) {
+        if (!(key in properties)) {
+            warnings.push(`${key}: unknown input field, it will be ignored.${suggestValue(key, Object.keys(properties))}`);
+        }
+    }
+
+    const filterProperties = properties.filters?.properties ?? {};
+    if (input.filters && typeof input.filters === 'object') {
+        for (const key of Object.keys(input.filters)) {
+            if (!(key in filterProperties)) {
+                warnings.push(`filters.${key}: not a documented filter.${suggestValue(key, Object.keys(filterProperties))}`);
+            }
+        }
+    }
+
+    return {
+        isValid: errors.length === 0,
+        errors,
+        warnings,
+    };
+};
+
+/**
+ * Human-readable report listing every problem
+ */
+export const formatValidationReport = (result: InputValidationResult): string => {
+    const lines = [`Invalid input, ${result.errors.length} problem(s) found:`];
+    lines.push(...result.errors.map((error) => `  - ${error}`));
+
+    if (result.warnings.length > 0) {
+        lines.push('Warnings:');
+        lines.push(...result.warnings.map((warning) => `  - ${warning}`));
+    }
+
+    return lines.join('\n');
+};
@@ -0,0 +1,177 @@
+import { Actor } from 'apify';
+import { log } from 'crawlee';
+import { retryWithBackoff } from './error_handling.js';
+import { getEffectivePrice, PriceObservation } from './price_history.js';
+import type { ResolvedInput } from './input.js';
+
+/**
+ * Markdown events
+ * Detects products that went on sale, or got a deeper discount, since they were last seen
+ * and reports them to their own dataset and an optional webhook
+ */
+
+export const DEFAULT_MARKDOWN_DATASET = 'markdown-events';
+
+// Events kept while the webhook fails, the oldest are dropped beyond this
+export const MAX_UNDELIVERED_EVENTS = 1000;
+
+export interface MarkdownEvent {
+    eventType: 'markdown';
+    articleNo: string;
+    market: string;
+    productName?: string;
+    url?: string;
+    categoryPath: string;
+    currency: string;
+    listPrice: number;
+    oldPrice: number;
+    newPrice: number;
+    markdownPercentage: number;
+    discountPercentage: number;
+    previousObservedAt: string;
+    detectedAt: string;
+}
+
+const roundPercentage = (value: number): number => Math.round(value * 10) / 10;
+
+/**
+ * Category path of a legacy (division/category/subCategory) or canonical (domain/category/subCategory) record
+ */
+const getCategoryPath = (record: Record<string, any>): string => {
+    return [record.division ?? record.domain, record.category, record.subCategory]
+        .filter((part, index, parts) => part && parts.indexOf(part) === index)
+        .join(' > ');
+};
+
+/**
+ * Markdown event of an observation, null when the price did not drop into a sale
+ */
+export const detectMarkdown = (observation: PriceObservation, detectedAt = new Date().toISOString()): MarkdownEvent | null => {
+    const { record, previous, current } = observation;
+    if (!previous || current.salePrice === null) return null;
+
+    // Prices in another currency are not comparable
+    if (previous.currency !== current.currency) return null;
+
+    const oldPrice = getEffectivePrice(previous);
+    const newPrice = getEffectivePrice(current);
+    if (newPrice >= oldPrice) return null;
+
+    return {
+        eventType: 'markdown',
+        articleNo: String(record.articleNo ?? record.productId),
+        market: record.market,
+        productName: record.productName ?? record.title,
+        url: record.url,
+        categoryPath: getCategoryPath(record),
+        currency: current.currency,
+        listPrice: current.listPrice,
+        oldPrice,
+        newPrice,
+        markdownPercentage: roundPercentage(((oldPrice - newPrice) / oldPrice) * 100),
+        discountPercentage: roundPercentage(((current.listPrice - newPrice) / current.listPrice) * 100),
+        previousObservedAt: previous.timestamp,
+        detectedAt,
+    };
+};
+
+class MarkdownEventReporter {
+    private enabled = false;
+    private datasetName = DEFAULT_MARKDOWN_DATASET;
+    private webhookUrl?: string;
+    private eventCount = 0;
+    // Events the webhook did not accept, sent again with the next report
+    private undelivered: MarkdownEvent[] = [];
+
+    configure(input: ResolvedInput) {
+        this.enabled = input.detectMarkdowns;
+        this.datasetName = input.markdownDatasetName;
+        this.webhookUrl = input.markdownWebhookUrl;
+
+        if (this.enabled) {
+            log.info(`Markdown events: dataset "${this.datasetName}"${this.webhookUrl ? ', webhook enabled' : ''}`);
+        }
+    }
+
+    isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    getEventCount(): number {
+        return this.eventCount;
+    }
+
+    getUndeliveredCount(): number {
+        return this.undelivered.length;
+    }
+
+    /**
+     * Detect markdowns among the observations, save them and notify the webhook.
+     * Throws when the events cannot be saved, events the webhook did not accept are sent with the next report.
+     */
+    async report(observations: PriceObservation[]): Promise<MarkdownEvent[]> {
+        const detectedAt = new Date().toISOString();
+        const events = observations
+            .map((observation) => detectMarkdown(observation, detectedAt))
+            .filter((event): event is MarkdownEvent => event !== null);
+
+        if (events.length > 0) {
+            const dataset = await Actor.openDataset(this.datasetName);
+            await dataset.pushData(events);
+            this.eventCount += events.length;
+            log.info(`Detected ${events.length} markdown events (total: ${this.eventCount})`);
+        }
+
+        if (this.webhookUrl) {
+            this.undelivered.push(...events);
+            await this.flush();
+        }
+
+        return events;
+    }
+
+    /**
+     * Send the events the webhook did not accept yet
+     */
+    async flush(): Promise<void> {
+        if (!this.webhookUrl || this.undelivered.length === 0) return;
+        await this.notifyWebhook(this.webhookUrl, this.undelivered);
+    }
+
+    /**
+     * POST the events as JSON, a failing webhook never fails the run: its events are kept for the next report
+     */
+    private async notifyWebhook(webhookUrl: string, events: MarkdownEvent[]): Promise<void> {
+        try {
+            await retryWithBackoff(
+                async () => {
+                    const response = await fetch(webhookUrl, {
+                        method: 'POST',
+                        headers: { 'Content-Type': 'application/json' },
+                        body: JSON.stringify({ eventType: 'markdown', count: events.length, events }),
+                    });
+                    if (!response.ok) {
+                        throw new Error(`Markdown webhook responded with status ${response.status}`);
+                    }
+                },
+                {
+                    maxRetries: 3,
+                    baseDelay: 1000,
+                    maxDelay: 10000,
+                    backoffMultiplier: 2,
+                    retryableErrors: ['ECONNRESET', 'ETIMEDOUT', 'ENOTFOUND'],
+                },
+                'markdown webhook',
+            );
+            this.undelivered = [];
+        } catch (error: any) {
+            log.warning(`Could not deliver ${events.length} markdown events to webhook, they are sent with the next report:`, error);
+            if (events.length > MAX_UNDELIVERED_EVENTS) {
+                log.warning(`Markdown webhook: dropping ${events.length - MAX_UNDELIVERED_EVENTS} undelivered events`);
+            }
+            this.undelivered = events.slice(-MAX_UNDELIVERED_EVENTS);
+        }
+    }
+}
+
+export const markdownEventReporter = new MarkdownEventReporter();
@@ -0,0 +1,103 @@
+import { randomUUID } from 'crypto';
+import { Actor } from 'apify';
+import { log, RequestQueue } from 'crawlee';
+import type { ResolvedInput } from './input.js';
+import { Market, requireMarket, selectMarkets } from './markets.js';
+
+/**
+ * Market runs
+ * Selects the markets of a run and crawls them one after another, each multi-market crawl in its own request queue
+ */
+
+export interface MarketLoopOptions {
+    // Checked before every market, a reached product limit skips the remaining markets
+    hasReachedLimit: () => boolean;
+    crawl: (market: Market) => Promise<void>;
+    // Save what a failed market scraped before moving on
+    recover: (market: Market, error: Error) => Promise<void>;
+}
+
+/**
+ * Markets of the run: `countries`, `regions` and `currencies` combined, or the single `country`
+ */
+export const getRunMarkets = (input: ResolvedInput): Market[] => {
+    const { countries, regions, currencies } = input;
+    if (countries.length === 0 && regions.length === 0 && currencies.length === 0) {
+        return [requireMarket(input.country)];
+    }
+
+    const markets = selectMarkets({ codes: countries, regions, currencies });
+    if (markets.length === 0) {
+        throw new Error(`No H&M market matches the selection (regions: ${regions.join(', ')}; currencies: ${currencies.join(', ')})`);
+    }
+    return markets;
+};
+
+// Local runs have no run ID, a random one keeps concurrent runs apart
+let localRunId: string | undefined;
+const getRunId = (): string => {
+    localRunId ??= randomUUID().slice(0, 8);
+    return (Actor.getEnv().actorRunId ?? localRunId).toLowerCase();
+};
+
+/**
+ * Named request queue of a market in a multi-market run, e.g. "market-de-de-<run id>".
+ * The run ID keeps concurrent runs apart and lets a migrated run resume its own queue.
+ */
+export const getMarketQueueName = (market: Market, runId = getRunId()): string => {
+    return `market-${market.code.replace(/_/g, '-')}-${runId}`;
+};
+
+/**
+ * Crawl a market in its own named request queue.
+ * Named queues outlive the run, the queue is dropped once the market finished or failed.
+ */
+export const withMarketQueue = async <T>(market: Market, crawl: (requestQueue: RequestQueue) => Promise<T>): Promise<T> => {
+    const requestQueue = await Actor.openRequestQueue(getMarketQueueName(market));
+    try {
+        return await crawl(requestQueue);
+    } finally {
+        // A queue left behind only costs storage, it must not hide the outcome of the market
+        await requestQueue.drop().catch((error) => log.warning(`Could not drop the request queue of market ${market.code}: ${error.message}`));
+    }
+};
+
+/**
+ * Crawl the markets one after another.
+ * A failing market does not stop the remaining ones, returns the codes of the failed markets.
+ */
+export const crawlEachMarket = async (markets: Market[], options: MarketLoopOptions): Promise<string[]> => {
+    const failedMarkets: string[] = [];
+
+    for (const market of markets) {
+        if (options.hasReachedLimit()) {
+            log.info(`Product limit reached, skipping remaining markets from ${market.code}`);
+            break;
+        }
+
+        try {
+            await options.crawl(market);
+        } catch (error: any) {
+            log.error(`Crawler failed for market ${market.code}:`, error);
+            failedMarkets.push(market.code);
+
+            try {
+                log.info('Attempting recovery...');
+                await options.recover(market, error);
+            } catch (recoveryError: any) {
+                log.error('Recovery failed:', recoveryError);
+            }
+        }
+    }
+
+    return failedMarkets;
+};
+
+/**
+ * The run fails once all markets are processed if any of them failed
+ */
+export const assertMarketsSucceeded = (failedMarkets: string[]): void => {
+    if (failedMarkets.length > 0) {
+        throw new Error(`Crawler failed for market(s): ${failedMarkets.join(', ')}`);
+    }
+};
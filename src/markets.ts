@@ -638,12 +638,48 @@ export const HM_MARKETS: Market[] = [
     }
 ];
 
+/**
+ * Country names accepted by the first version of the actor (`inputCountry`)
+ */
+const LEGACY_COUNTRY_NAMES: Record<string, string> = {
+    'UNITED KINGDOM': 'en_gb',
+    USA: 'en_us',
+    ITALY: 'it_it',
+    GERMANY: 'de_de',
+    FRANCE: 'fr_fr',
+    AUSTRALIA: 'en_au',
+    SPAIN: 'es_es',
+    CANADA: 'en_ca',
+    MEXICO: 'es_mx',
+};
+
 // Helper functions
 
 export function getMarketByCode(code: string): Market | undefined {
     return HM_MARKETS.find(m => m.code === code);
 }
 
+/**
+ * Find a market by code, name or legacy country name (case-insensitive)
+ */
+export function findMarket(value: string): Market | undefined {
+    const normalized = value.trim().toLowerCase();
+    const legacyCode = LEGACY_COUNTRY_NAMES[normalized.toUpperCase()];
+
+    return HM_MARKETS.find((m) => m.code === normalized || m.code === legacyCode || m.name.toLowerCase() === normalized);
+}
+
+/**
+ * Same as findMarket, but unknown markets are an error
+ */
+export function requireMarket(value: string): Market {
+    const market = findMarket(value);
+    if (!market) {
+        throw new Error(`Unknown H&M market "${value}". Supported markets: ${HM_MARKETS.map((m) => m.code).join(', ')}`);
+    }
+    return market;
+}
+
 export function getMarketsByRegion(region: string): Market[] {
     return HM_MARKETS.filter(m => m.region === region);
 }
@@ -652,6 +688,19 @@ export function getMarketsByCurrency(currency: string): Market[] {
     return HM_MARKETS.filter(m => m.currency === currency);
 }
 
+/**
+ * Markets selected by code, region or currency, without duplicates
+ */
+export function selectMarkets(selection: { codes?: string[], regions?: string[], currencies?: string[] }): Market[] {
+    const markets = [
+        ...(selection.codes ?? []).map((code) => requireMarket(code)),
+        ...(selection.regions ?? []).flatMap((region) => getMarketsByRegion(region)),
+        ...(selection.currencies ?? []).flatMap((currency) => getMarketsByCurrency(currency.toUpperCase())),
+    ];
+
+    return [...new Map(markets.map((m) => [m.code, m])).values()];
+}
+
 export function getAllRegions(): string[] {
     return [...new Set(HM_MARKETS.map(m => m.region))];
 }
@@ -660,8 +709,80 @@ export function getAllCurrencies(): string[] {
     return [...new Set(HM_MARKETS.map(m => m.currency))];
 }
 
+export function getMarketCurrency(code: string): string {
+    return requireMarket(code).currency;
+}
+
+/**
+ * ISO country code of a market, e.g. "de_at" -> "AT"
+ */
+export function getMarketCountryCode(code: string): string {
+    return requireMarket(code).code.split('_')[1].toUpperCase();
+}
+
+/**
+ * Rough units of each market currency per euro, only used to scale price sanity bounds
+ */
+const CURRENCY_UNITS_PER_EUR: Record<string, number> = {
+    AED: 4,
+    AUD: 1.65,
+    BGN: 1.96,
+    BHD: 0.41,
+    CAD: 1.48,
+    CHF: 0.95,
+    CLP: 1000,
+    CNY: 7.8,
+    COP: 4400,
+    CZK: 25,
+    DKK: 7.46,
+    EGP: 52,
+    EUR: 1,
+    GBP: 0.85,
+    HKD: 8.4,
+    HUF: 395,
+    ILS: 4,
+    INR: 90,
+    JOD: 0.77,
+    JPY: 165,
+    KRW: 1480,
+    KWD: 0.33,
+    LBP: 97000,
+    MAD: 10.8,
+    MXN: 20,
+    MYR: 5,
+    NOK: 11.7,
+    NZD: 1.8,
+    OMR: 0.42,
+    PEN: 4.1,
+    PHP: 62,
+    PLN: 4.3,
+    QAR: 3.95,
+    RON: 4.97,
+    RUB: 100,
+    SAR: 4.05,
+    SEK: 11.4,
+    SGD: 1.45,
+    THB: 38,
+    TRY: 36,
+    TWD: 35,
+    USD: 1.08,
+    UYU: 43,
+    VND: 27000,
+    ZAR: 20,
+};
+
+// Highest plausible H&M price in euros, higher prices are parsing errors
+const MAX_PRICE_EUR = 10000;
+
+/**
+ * Plausible price range in a currency, unknown currencies get the euro range
+ */
+export function getPriceBounds(currency: string): { min: number, max: number } {
+    const unitsPerEur = CURRENCY_UNITS_PER_EUR[currency?.toUpperCase()] ?? 1;
+    return { min: 0.01, max: MAX_PRICE_EUR * unitsPerEur };
+}
+
 export function getMarketUrl(code: string, path?: string): string {
-    const market = getMarketByCode(code);
-    if (!market) return '';
+    const market = requireMarket(code);
     return path ? `${market.url}${path}` : market.url;
-}
\ No newline at end of file
+}
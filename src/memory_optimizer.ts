@@ -0,0 +1,41 @@
+import { log } from 'crawlee';
+import { progressiveDataSaver } from './progressive_saving.js';
+
+/**
+ * Memory optimization for large datasets
+ */
+export class MemoryOptimizer {
+    private static readonly MAX_MEMORY_USAGE = 100 * 1024 * 1024; // 100MB
+
+    /**
+     * Check memory usage and trigger cleanup if needed
+     */
+    static checkMemoryUsage(): void {
+        const usage = process.memoryUsage();
+        const { heapUsed } = usage;
+
+        if (heapUsed > this.MAX_MEMORY_USAGE) {
+            log.warning(`High memory usage detected: ${Math.round(heapUsed / 1024 / 1024)}MB`);
+
+            // Force garbage collection if available
+            if (global.gc) {
+                global.gc();
+                log.info('Garbage collection triggered');
+            }
+
+            // Force save any buffered data
+            progressiveDataSaver.forceSave().catch((error) => {
+                log.error('Error during memory cleanup save:', error);
+            });
+        }
+    }
+
+    /**
+     * Start memory monitoring
+     */
+    static startMonitoring(): void {
+        setInterval(() => {
+            this.checkMemoryUsage();
+        }, 30000); // Check every 30 seconds
+    }
+}
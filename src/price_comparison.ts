@@ -0,0 +1,222 @@
+import { Actor } from 'apify';
+import { log } from 'crawlee';
+import { keepLastRecords } from './dedup.js';
+import { getBaseProductId } from './tools.js';
+import type { ResolvedInput } from './input.js';
+
+/**
+ * Cross-market price comparison
+ * Groups the records of a run by base article and compares their prices across markets
+ */
+
+export const EXCHANGE_RATES_KEY = 'EXCHANGE_RATES';
+export const PRICE_COMPARISON_DATASET = 'price-comparison';
+
+/**
+ * Exchange rate table: how many units of each currency one unit of `base` buys
+ */
+export interface ExchangeRates {
+    base: string;
+    rates: Record<string, number>;
+}
+
+export interface MarketPrice {
+    market: string;
+    country: string;
+    articleNo: string;
+    currency: string;
+    listPrice: number;
+    salePrice: number | null;
+    price: number;
+    convertedPrice?: number;
+    onSale: boolean;
+    url: string;
+}
+
+export interface PriceComparison {
+    baseProductId: string;
+    productName: string;
+    referenceCurrency: string;
+    marketCount: number;
+    markets: MarketPrice[];
+    cheapestMarket?: string;
+    cheapestPrice?: number;
+    mostExpensiveMarket?: string;
+    mostExpensivePrice?: number;
+    priceSpreadPercentage?: number;
+    missingExchangeRates: string[];
+    comparedAt: string;
+}
+
+/**
+ * Base article of a record, the article number without its 3-digit color suffix
+ */
+const getRecordBaseProductId = (record: Record<string, any>): string | undefined => {
+    if (typeof record.url === 'string' && record.url.includes('productpage.')) {
+        return getBaseProductId(record.url);
+    }
+
+    const articleNo = String(record.articleNo ?? record.productId ?? '');
+    return articleNo.length > 3 ? articleNo.slice(0, -3) : undefined;
+};
+
+/**
+ * Read the market price of a legacy (ProductData) or canonical (CanonicalProduct) record
+ */
+const toMarketPrice = (record: Record<string, any>): MarketPrice | null => {
+    const listPrice = record.listPrice ?? record.originalPrice ?? record.price;
+    if (!record.market || !record.currency || typeof listPrice !== 'number') return null;
+
+    const salePrice = typeof record.salePrice === 'number' && record.salePrice < listPrice ? record.salePrice : null;
+
+    return {
+        market: record.market,
+        country: record.country ?? record.marketName ?? '',
+        articleNo: String(record.articleNo ?? record.productId),
+        currency: record.currency,
+        listPrice,
+        salePrice,
+        price: salePrice ?? listPrice,
+        onSale: salePrice !== null,
+        url: record.url ?? '',
+    };
+};
+
+/**
+ * Rebase an exchange rate table on the reference currency
+ */
+const rebaseRates = (exchangeRates: ExchangeRates, referenceCurrency: string): Record<string, number> => {
+    const rates: Record<string, number> = { ...exchangeRates.rates, [exchangeRates.base]: 1 };
+    const referenceRate = rates[referenceCurrency];
+    if (!referenceRate) return { [referenceCurrency]: 1 };
+
+    return Object.fromEntries(Object.entries(rates).map(([currency, rate]) => [currency, rate / referenceRate]));
+};
+
+const roundPrice = (price: number): number => Math.round(price * 100) / 100;
+
+/**
+ * Build one comparison per base article that was scraped in at least two markets
+ */
+export const buildPriceComparisons = (
+    records: Record<string, any>[],
+    exchangeRates: ExchangeRates,
+    referenceCurrency: string,
+): PriceComparison[] => {
+    const rates = rebaseRates(exchangeRates, referenceCurrency);
+    const comparedAt = new Date().toISOString();
+
+    // baseProductId -> market -> cheapest color article in that market
+    const groups = new Map<string, { productName: string, markets: Map<string, MarketPrice> }>();
+    for (const record of records) {
+        const baseProductId = getRecordBaseProductId(record);
+        const marketPrice = toMarketPrice(record);
+        if (!baseProductId || !marketPrice) continue;
+
+        if (!groups.has(baseProductId)) {
+            groups.set(baseProductId, { productName: record.productName ?? record.title ?? '', markets: new Map() });
+        }
+
+        const { markets } = groups.get(baseProductId)!;
+        const current = markets.get(marketPrice.market);
+        if (!current || marketPrice.price < current.price) {
+            markets.set(marketPrice.market, marketPrice);
+        }
+    }
+
+    const comparisons: PriceComparison[] = [];
+    for (const [baseProductId, group] of groups) {
+        if (group.markets.size < 2) continue;
+
+        const missingExchangeRates = new Set<string>();
+        const marketPrices = [...group.markets.values()].map((marketPrice) => {
+            const rate = rates[marketPrice.currency];
+            if (!rate) {
+                missingExchangeRates.add(marketPrice.currency);
+                return marketPrice;
+            }
+            return { ...marketPrice, convertedPrice: roundPrice(marketPrice.price / rate) };
+        });
+
+        const converted = marketPrices
+            .filter((marketPrice) => typeof marketPrice.convertedPrice === 'number')
+            .sort((a, b) => a.convertedPrice! - b.convertedPrice!);
+        const cheapest = converted[0];
+        const mostExpensive = converted[converted.length - 1];
+
+        comparisons.push({
+            baseProductId,
+            productName: group.productName,
+            referenceCurrency,
+            marketCount: marketPrices.length,
+            markets: marketPrices,
+            cheapestMarket: cheapest?.market,
+            cheapestPrice: cheapest?.convertedPrice,
+            mostExpensiveMarket: mostExpensive?.market,
+            mostExpensivePrice: mostExpensive?.convertedPrice,
+            priceSpreadPercentage: cheapest && converted.length > 1
+                ? roundPrice(((mostExpensive.convertedPrice! - cheapest.convertedPrice!) / cheapest.convertedPrice!) * 100)
+                : undefined,
+            missingExchangeRates: [...missingExchangeRates],
+            comparedAt,
+        });
+    }
+
+    return comparisons;
+};
+
+/**
+ * Exchange rates from the key-value store, overridden by rates from input
+ */
+export const loadExchangeRates = async (input: ResolvedInput): Promise<ExchangeRates> => {
+    const store = await Actor.openKeyValueStore(input.exchangeRatesStore || undefined);
+    const storedRates = await store.getValue<ExchangeRates>(EXCHANGE_RATES_KEY);
+
+    if (storedRates && !storedRates.rates) {
+        log.warning(`${EXCHANGE_RATES_KEY} record must look like { "base": "EUR", "rates": { "USD": 1.08 } }, ignoring it`);
+    }
+
+    const base = storedRates?.rates ? storedRates.base : input.referenceCurrency;
+    const rates = storedRates?.rates ? { ...storedRates.rates } : {};
+
+    // Input rates are relative to the reference currency
+    const storedReferenceRate = base === input.referenceCurrency ? 1 : rates[input.referenceCurrency];
+    for (const [currency, rate] of Object.entries(input.exchangeRates)) {
+        if (storedReferenceRate) {
+            rates[currency] = rate * storedReferenceRate;
+        } else {
+            log.warning(`Exchange rate ${currency} from input ignored, ${EXCHANGE_RATES_KEY} has no rate for ${input.referenceCurrency}`);
+        }
+    }
+
+    return { base, rates };
+};
+
+/**
+ * Compare prices of the records saved in this run and push the comparisons to their own dataset
+ */
+export const runPriceComparison = async (input: ResolvedInput): Promise<number> => {
+    const datasetRecords: Record<string, any>[] = [];
+    const dataset = await Actor.openDataset();
+    await dataset.forEach((record) => {
+        datasetRecords.push(record);
+    });
+    // A product written more than once, e.g. by a run without deduplication, counts with its last record
+    const records = keepLastRecords(datasetRecords);
+
+    const exchangeRates = await loadExchangeRates(input);
+    const comparisons = buildPriceComparisons(records, exchangeRates, input.referenceCurrency);
+
+    const missingRates = new Set(comparisons.flatMap((comparison) => comparison.missingExchangeRates));
+    if (missingRates.size > 0) {
+        log.warning(`Price comparison: no exchange rate to ${input.referenceCurrency} for ${[...missingRates].join(', ')}`);
+    }
+
+    if (comparisons.length > 0) {
+        const comparisonDataset = await Actor.openDataset(PRICE_COMPARISON_DATASET);
+        await comparisonDataset.pushData(comparisons);
+    }
+
+    log.info(`Price comparison: ${comparisons.length} articles found in more than one market (${records.length} records)`);
+    return comparisons.length;
+};
@@ -0,0 +1,195 @@
+import { Actor, KeyValueStore } from 'apify';
+import { log } from 'crawlee';
+import type { ResolvedInput } from './input.js';
+
+/**
+ * Price history
+ * Appends every observed price of an article to its time series in a named key-value store,
+ * one record per article and market, with a summary for markdown analytics
+ */
+
+export const DEFAULT_PRICE_HISTORY_STORE = 'hm-price-history';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PricePoint {
+    listPrice: number;
+    salePrice: number | null;
+    currency: string;
+    timestamp: string;
+}
+
+export interface PriceHistorySummary {
+    firstSeen: string;
+    lastSeen: string;
+    lowestPrice: number;
+    currentPrice: number;
+    markdownCount: number;
+    daysOnSale: number;
+}
+
+/**
+ * A record's price together with the last price observed before it
+ */
+export interface PriceObservation {
+    record: Record<string, any>;
+    previous: PricePoint | null;
+    current: PricePoint;
+}
+
+export interface PriceHistory {
+    articleNo: string;
+    market: string;
+    productName?: string;
+    url?: string;
+    points: PricePoint[];
+    summary: PriceHistorySummary;
+}
+
+/**
+ * Price the customer pays at a price point
+ */
+export const getEffectivePrice = (point: PricePoint): number => point.salePrice ?? point.listPrice;
+
+/**
+ * Summary of a time series ordered by timestamp.
+ * A markdown is any observation cheaper than the one before it, a new sale or a deeper discount.
+ */
+export const summarizePriceHistory = (points: PricePoint[]): PriceHistorySummary => {
+    let markdownCount = 0;
+    let msOnSale = 0;
+
+    for (let i = 1; i < points.length; i++) {
+        const previous = points[i - 1];
+        const current = points[i];
+
+        if (getEffectivePrice(current) < getEffectivePrice(previous)) markdownCount++;
+        if (previous.salePrice !== null) {
+            msOnSale += Date.parse(current.timestamp) - Date.parse(previous.timestamp);
+        }
+    }
+
+    return {
+        firstSeen: points[0].timestamp,
+        lastSeen: points[points.length - 1].timestamp,
+        lowestPrice: Math.min(...points.map(getEffectivePrice)),
+        currentPrice: getEffectivePrice(points[points.length - 1]),
+        markdownCount,
+        daysOnSale: Math.round((msOnSale / DAY_MS) * 10) / 10,
+    };
+};
+
+/**
+ * Price point of a legacy (ProductData) or canonical (CanonicalProduct) record
+ */
+const toPricePoint = (record: Record<string, any>): PricePoint | null => {
+    const listPrice = record.listPrice ?? record.originalPrice ?? record.price;
+    if (typeof listPrice !== 'number' || !record.currency) return null;
+
+    return {
+        listPrice,
+        salePrice: typeof record.salePrice === 'number' ? record.salePrice : null,
+        currency: record.currency,
+        timestamp: record.timestamp ?? record.scrapedAt ?? new Date().toISOString(),
+    };
+};
+
+class PriceHistoryTracker {
+    private enabled = false;
+    private storeName = DEFAULT_PRICE_HISTORY_STORE;
+    private store?: KeyValueStore;
+    // Histories updated by `record`, stored by `commit`
+    private pending = new Map<string, PriceHistory>();
+
+    configure(input: ResolvedInput) {
+        // Markdown detection needs the last price of the previous run
+        this.enabled = input.trackPriceHistory || input.detectMarkdowns;
+        this.storeName = input.priceHistoryStoreName;
+
+        if (this.enabled) {
+            log.info(`Price history: time series in key-value store "${this.storeName}"`);
+        }
+    }
+
+    isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    private getRecordKey(market: string, articleNo: string): string {
+        return `${market}_${articleNo}`;
+    }
+
+    async getHistory(market: string, articleNo: string): Promise<PriceHistory | null> {
+        const key = this.getRecordKey(market, articleNo);
+        const pending = this.pending.get(key);
+        if (pending) return pending;
+
+        this.store ??= await Actor.openKeyValueStore(this.storeName);
+        return this.store.getValue<PriceHistory>(key);
+    }
+
+    /**
+     * Append the price of each record to its article history and refresh the summary, `commit` stores the histories.
+     * Returns the observations with the previously recorded price of each article.
+     */
+    async record(records: Record<string, any>[]): Promise<PriceObservation[]> {
+        const observations: PriceObservation[] = [];
+
+        for (const record of records) {
+            const articleNo = String(record.articleNo ?? record.productId ?? '');
+            const point = toPricePoint(record);
+            if (!articleNo || !record.market || !point) continue;
+
+            try {
+                const history = await this.getHistory(record.market, articleNo);
+                // Variant records of an article share its price, the first one is recorded
+                if (history?.points.some((existing) => existing.timestamp === point.timestamp)) continue;
+
+                const points = [...(history?.points ?? []), point]
+                    .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+
+                const updatedHistory: PriceHistory = {
+                    articleNo,
+                    market: record.market,
+                    productName: record.productName ?? record.title ?? history?.productName,
+                    url: record.url ?? history?.url,
+                    points,
+                    summary: summarizePriceHistory(points),
+                };
+                this.pending.set(this.getRecordKey(record.market, articleNo), updatedHistory);
+
+                const previous = history?.points[history.points.length - 1] ?? null;
+                observations.push({ record, previous, current: point });
+            } catch (error: any) {
+                log.warning(`Could not update price history of ${articleNo} (${record.market}):`, error);
+            }
+        }
+
+        return observations;
+    }
+
+    /**
+     * Store the histories updated by `record`, once the markdowns found in them are reported
+     */
+    async commit(): Promise<void> {
+        this.store ??= await Actor.openKeyValueStore(this.storeName);
+
+        for (const [key, history] of this.pending) {
+            try {
+                await this.store.setValue(key, history);
+            } catch (error: any) {
+                log.warning(`Could not update price history ${key}:`, error);
+            }
+        }
+        this.pending.clear();
+    }
+
+    /**
+     * Forget the histories updated by `record`, the next `record` of the same prices observes them again
+     */
+    discard(): void {
+        this.pending.clear();
+    }
+}
+
+export const priceHistoryTracker = new PriceHistoryTracker();
@@ -1,6 +1,17 @@
 import { Actor } from 'apify';
 import { log } from 'crawlee';
-import { ProductData, cleanAndValidateProduct, deduplicateProducts, filterByQuality } from './data_validation.js';
+import { calculateProductQualityScore, ProductData } from './data_validation.js';
+import { CanonicalProduct } from './canonical_schema.js';
+import { DataQualityMonitor } from './data_quality_monitor.js';
+import { incrementalTracker } from './incremental.js';
+import { priceHistoryTracker } from './price_history.js';
+import { markdownEventReporter } from './markdown_events.js';
+import { dataSinks } from './data_sinks.js';
+import { validationProfiles } from './validation_profiles.js';
+import { ProductSource, quarantine, toQualityQuarantineRecord } from './quarantine.js';
+import { retryPrimaryWrite, SaveBuffer } from './save_buffer.js';
+import { SizeVariant, variantExpander } from './variants.js';
+import { Labels } from './constants.js';
 
 /**
  * Progressive data saving system
@@ -29,9 +40,10 @@ export const DEFAULT_SAVE_CONFIG: SaveConfig = {
  * Progressive data saver class
  */
 export class ProgressiveDataSaver {
-    private buffer: ProductData[] = [];
+    private buffer = new SaveBuffer();
     private lastSaveTime = Date.now();
-    private saveInProgress = false;
+    // Save in progress, it took the records it saves out of the buffer
+    private saveInProgress?: Promise<void>;
     private totalSaved = 0;
     public config: SaveConfig;
     private saveTimer?: NodeJS.Timeout;
@@ -42,27 +54,45 @@ export class ProgressiveDataSaver {
     }
 
     /**
-     * Add product to buffer
+     * Clean the raw product, validate it with the validation profile of the route that found it and buffer it,
+     * as one record per size in variant mode. Rejected products and products below the minimum quality score
+     * are quarantined with their raw payload.
+     * Returns true for new products, false for rejected products and duplicates.
      */
-    async addProduct(rawProduct: any): Promise<boolean> {
+    async addProduct(
+        rawProduct: any,
+        source: ProductSource = { route: Labels.PRODUCT, url: rawProduct?.url ?? '' },
+        sizes?: SizeVariant[],
+    ): Promise<boolean> {
         try {
             // Clean and validate product
-            const cleanedProduct = cleanAndValidateProduct(rawProduct);
+            const cleanedProduct = validationProfiles.cleanAndValidate(rawProduct, source);
             if (!cleanedProduct) {
                 log.warning('Product validation failed, skipping:', rawProduct);
+                DataQualityMonitor.recordProduct(rawProduct, false, 0);
                 return false;
             }
 
-            // Add to buffer
-            this.buffer.push(cleanedProduct);
-            log.debug(`Added product to buffer: ${cleanedProduct.productName} (${cleanedProduct.articleNo})`);
+            const qualityScore = calculateProductQualityScore(cleanedProduct);
+            DataQualityMonitor.recordProduct(cleanedProduct, true, qualityScore);
+
+            if (this.config.minQualityScore > 0 && qualityScore < this.config.minQualityScore) {
+                quarantine.add(toQualityQuarantineRecord(rawProduct, cleanedProduct, this.config.minQualityScore, source));
+                return false;
+            }
+
+            let added = false;
+            for (const record of variantExpander.expand(cleanedProduct, cleanedProduct.articleNo, sizes, cleanedProduct.market)) {
+                added = this.buffer.addProduct(record, this.config.enableDeduplication) || added;
+            }
+            log.debug(`Added product to buffer: ${cleanedProduct.productName} (${cleanedProduct.articleNo}) - Quality: ${qualityScore}`);
 
             // Check if we should save immediately
-            if (this.buffer.length >= this.config.batchSize) {
+            if (this.buffer.getSize() >= this.config.batchSize) {
                 await this.saveBuffer();
             }
 
-            return true;
+            return added;
         } catch (error: any) {
             log.error('Error adding product to buffer:', error);
             return false;
@@ -70,78 +100,138 @@ export class ProgressiveDataSaver {
     }
 
     /**
-     * Save buffer to dataset
+     * Buffer a CanonicalProduct, as one record per size in variant mode. Canonical records skip the legacy
+     * cleaning and quality filtering, they are already shaped by the extractor. They are formatted according
+     * to the output configuration by the output sinks.
+     * Returns true for new products, false for products without productId and duplicates.
      */
-    private async saveBuffer(): Promise<void> {
-        if (this.saveInProgress || this.buffer.length === 0) {
-            return;
+    async addCanonicalProduct(product: CanonicalProduct): Promise<boolean> {
+        try {
+            if (!product.productId) {
+                log.warning('Canonical product without productId, skipping:', { url: product.url });
+                DataQualityMonitor.recordCanonicalProduct(product, false);
+                return false;
+            }
+            DataQualityMonitor.recordCanonicalProduct(product, true);
+
+            let added = false;
+            for (const record of variantExpander.expand(product, product.productId, product.availableSizes, product.market)) {
+                // Canonical records carry the size system as sizeType
+                delete record.sizeSystem;
+                added = this.buffer.addCanonicalProduct(record, this.config.enableDeduplication) || added;
+            }
+            log.debug(`Added canonical product to buffer: ${product.title} (${product.productId})`);
+
+            if (this.buffer.getSize() >= this.config.batchSize) {
+                await this.saveBuffer();
+            }
+
+            return added;
+        } catch (error: any) {
+            log.error('Error adding canonical product to buffer:', error);
+            return false;
         }
+    }
 
-        this.saveInProgress = true;
+    /**
+     * Save buffer to dataset, with `final` also the held records
+     */
+    private async saveBuffer(final = false): Promise<void> {
+        if (this.saveInProgress || !this.buffer.hasRecords(final)) {
+            return;
+        }
 
-        try {
-            let productsToSave = [...this.buffer];
+        this.saveInProgress = this.writeBuffer(final);
+        await this.saveInProgress;
+    }
 
-            // Apply quality filtering
-            if (this.config.minQualityScore > 0) {
-                productsToSave = filterByQuality(productsToSave, this.config.minQualityScore);
-            }
+    private async writeBuffer(final: boolean): Promise<void> {
+        // Products are quality filtered and deduplicated as they are buffered.
+        // They are taken out before the first await, products added meanwhile wait for the next save.
+        const buffered = this.buffer.take(final);
 
-            // Apply deduplication
-            if (this.config.enableDeduplication) {
-                productsToSave = deduplicateProducts(productsToSave);
+        try {
+            let recordsToSave: Record<string, any>[];
+            try {
+                recordsToSave = await this.prepareRecords([...buffered.products, ...buffered.canonicalProducts, ...buffered.held]);
+            } catch (error: any) {
+                log.error('Error preparing buffered products for saving, they stay buffered:', error);
+                this.buffer.restore(buffered);
+                return;
             }
 
-            if (productsToSave.length === 0) {
+            if (recordsToSave.length === 0) {
                 log.info('No products to save after filtering');
-                this.buffer = [];
                 return;
             }
 
-            // Save to Apify dataset
-            await Actor.pushData(productsToSave);
-
-            this.totalSaved += productsToSave.length;
-            this.buffer = [];
-            this.lastSaveTime = Date.now();
-
-            log.info(`Saved ${productsToSave.length} products to dataset (total: ${this.totalSaved})`);
-        } catch (error: any) {
-            log.error('Error saving buffer to dataset:', error);
-
-            // Retry with exponential backoff
-            await this.retrySave();
+            // From here on the output sinks keep the records, also when their write fails
+            await this.commitWritten(await this.writeToSinks(recordsToSave));
         } finally {
-            this.saveInProgress = false;
+            this.saveInProgress = undefined;
         }
     }
 
     /**
-     * Retry save with exponential backoff
+     * Record the prices of buffered records and keep the ones to save
      */
-    private async retrySave(): Promise<void> {
-        for (let attempt = 1; attempt <= this.config.maxRetries; attempt++) {
+    private async prepareRecords(records: Record<string, any>[]): Promise<Record<string, any>[]> {
+        // Every observed price goes to the history, also prices incremental mode does not emit
+        if (priceHistoryTracker.isEnabled()) {
+            const observations = await priceHistoryTracker.record(records);
+
             try {
-                const delay = 2 ** attempt * 1000; // Exponential backoff
-                log.info(`Retrying save in ${delay}ms (attempt ${attempt}/${this.config.maxRetries})`);
+                if (markdownEventReporter.isEnabled()) {
+                    await markdownEventReporter.report(observations);
+                }
+            } catch (error) {
+                // The histories keep their last price, the buffered records report the markdowns on the next save
+                priceHistoryTracker.discard();
+                throw error;
+            }
+            await priceHistoryTracker.commit();
+        }
 
-                await new Promise((resolve) => setTimeout(resolve, delay));
-                await Actor.pushData(this.buffer);
+        await quarantine.flush();
 
-                this.totalSaved += this.buffer.length;
-                this.buffer = [];
-                this.lastSaveTime = Date.now();
+        // Incremental mode emits only products that changed since the previous run
+        return incrementalTracker.isEnabled() ? incrementalTracker.filterChanged(records) : records;
+    }
 
-                log.info(`Retry save successful: ${this.buffer.length} products saved`);
-                return;
-            } catch (error: any) {
-                log.error(`Retry attempt ${attempt} failed:`, error);
+    /**
+     * Count the records the primary sink wrote as saved.
+     * Fingerprints of records that were not written stay, so the next run emits them again.
+     */
+    private async commitWritten(written: Record<string, any>[]): Promise<void> {
+        if (written.length === 0) return;
 
-                if (attempt === this.config.maxRetries) {
-                    log.error('All retry attempts failed, data may be lost');
-                    // Could implement fallback to local storage here
-                }
+        this.totalSaved += written.length;
+        this.lastSaveTime = Date.now();
+
+        if (incrementalTracker.isEnabled()) {
+            await incrementalTracker.commit(written);
+        }
+    }
+
+    /**
+     * Write records to the output sinks, the Apify dataset by default.
+     * A failed write of the primary sink is retried with exponential backoff.
+     * Returns the records the primary sink wrote, none when it could not write them.
+     */
+    private async writeToSinks(recordsToSave: Record<string, any>[]): Promise<Record<string, any>[]> {
+        try {
+            const written = await dataSinks.write(recordsToSave);
+
+            if (written.length > 0) {
+                log.info(`Saved ${written.length} products (total: ${this.totalSaved + written.length})`);
+            } else {
+                log.info(`${recordsToSave.length} products wait for the batch of the primary output sink`);
             }
+            return written;
+        } catch (error: any) {
+            log.error('Error saving buffer to dataset:', error);
+
+            return retryPrimaryWrite(this.config.maxRetries);
         }
     }
 
@@ -152,7 +242,7 @@ export class ProgressiveDataSaver {
         this.saveTimer = setInterval(async () => {
             const timeSinceLastSave = Date.now() - this.lastSaveTime;
 
-            if (timeSinceLastSave >= this.config.saveInterval && this.buffer.length > 0) {
+            if (timeSinceLastSave >= this.config.saveInterval && this.buffer.getSize() > 0) {
                 log.info('Periodic save triggered');
                 await this.saveBuffer();
             }
@@ -160,19 +250,22 @@ export class ProgressiveDataSaver {
     }
 
     /**
-     * Force save all buffered data
+     * Force save all buffered data, with `final` also the held records: at the end of the run or before a migration
      */
-    async forceSave(): Promise<void> {
+    async forceSave(final = false): Promise<void> {
         log.info('Force saving all buffered data');
-        await this.saveBuffer();
+        // Products added while a save is in progress are saved after it
+        await this.saveInProgress;
+        await this.saveBuffer(final);
     }
 
     /**
      * Get statistics
      */
-    getStats(): { bufferSize: number; totalSaved: number; lastSaveTime: number } {
+    getStats(): { bufferSize: number; heldRecords: number; totalSaved: number; lastSaveTime: number } {
         return {
-            bufferSize: this.buffer.length,
+            bufferSize: this.buffer.getSize(),
+            heldRecords: this.buffer.getHeldCount(),
             totalSaved: this.totalSaved,
             lastSaveTime: this.lastSaveTime,
         };
@@ -187,10 +280,19 @@ export class ProgressiveDataSaver {
         }
 
         // Save any remaining data
-        if (this.buffer.length > 0) {
+        if (this.buffer.hasRecords(true)) {
             log.info('Cleaning up: saving remaining buffered data');
-            await this.forceSave();
+            await this.forceSave(true);
         }
+
+        await this.flushSinks();
+    }
+
+    /**
+     * Write the records the output sinks still collect for their batch
+     */
+    async flushSinks(): Promise<void> {
+        await this.commitWritten(await dataSinks.flush());
     }
 }
 
@@ -231,141 +333,3 @@ export const saveProductsOptimized = async (products: ProductData[]): Promise<vo
         throw error;
     }
 };
-
-/**
- * Data persistence and recovery
- */
-export class DataPersistence {
-    private static readonly PERSISTENCE_KEY = 'SCRAPER_PERSISTENCE';
-
-    /**
-     * Save current state for recovery
-     */
-    static async saveState(state: any): Promise<void> {
-        try {
-            await Actor.setValue(this.PERSISTENCE_KEY, {
-                ...state,
-                timestamp: new Date().toISOString(),
-            });
-        } catch (error: any) {
-            log.warning('Could not save persistence state:', error);
-        }
-    }
-
-    /**
-     * Load saved state for recovery
-     */
-    static async loadState(): Promise<any | null> {
-        try {
-            const state = await Actor.getValue(this.PERSISTENCE_KEY);
-            return state;
-        } catch (error: any) {
-            log.warning('Could not load persistence state:', error);
-            return null;
-        }
-    }
-
-    /**
-     * Clear saved state
-     */
-    static async clearState(): Promise<void> {
-        try {
-            await Actor.setValue(this.PERSISTENCE_KEY, null);
-        } catch (error: any) {
-            log.warning('Could not clear persistence state:', error);
-        }
-    }
-}
-
-/**
- * Memory optimization for large datasets
- */
-export class MemoryOptimizer {
-    private static readonly MAX_MEMORY_USAGE = 100 * 1024 * 1024; // 100MB
-
-    /**
-     * Check memory usage and trigger cleanup if needed
-     */
-    static checkMemoryUsage(): void {
-        const usage = process.memoryUsage();
-        const { heapUsed } = usage;
-
-        if (heapUsed > this.MAX_MEMORY_USAGE) {
-            log.warning(`High memory usage detected: ${Math.round(heapUsed / 1024 / 1024)}MB`);
-
-            // Force garbage collection if available
-            if (global.gc) {
-                global.gc();
-                log.info('Garbage collection triggered');
-            }
-
-            // Force save any buffered data
-            progressiveDataSaver.forceSave().catch((error) => {
-                log.error('Error during memory cleanup save:', error);
-            });
-        }
-    }
-
-    /**
-     * Start memory monitoring
-     */
-    static startMonitoring(): void {
-        setInterval(() => {
-            this.checkMemoryUsage();
-        }, 30000); // Check every 30 seconds
-    }
-}
-
-/**
- * Data quality monitoring
- */
-export class DataQualityMonitor {
-    private static qualityMetrics = {
-        totalProcessed: 0,
-        validProducts: 0,
-        invalidProducts: 0,
-        averageQualityScore: 0,
-        qualityScores: [] as number[],
-    };
-
-    /**
-     * Record product quality
-     */
-    static recordProduct(_product: ProductData, isValid: boolean, qualityScore: number): void {
-        this.qualityMetrics.totalProcessed++;
-
-        if (isValid) {
-            this.qualityMetrics.validProducts++;
-            this.qualityMetrics.qualityScores.push(qualityScore);
-
-            // Update average quality score
-            const totalScore = this.qualityMetrics.qualityScores.reduce((sum, score) => sum + score, 0);
-            this.qualityMetrics.averageQualityScore = totalScore / this.qualityMetrics.qualityScores.length;
-        } else {
-            this.qualityMetrics.invalidProducts++;
-        }
-    }
-
-    /**
-     * Get quality metrics
-     */
-    static getMetrics() {
-        return { ...this.qualityMetrics };
-    }
-
-    /**
-     * Log quality report
-     */
-    static logQualityReport(): void {
-        const metrics = this.getMetrics();
-        const successRate = metrics.totalProcessed > 0 ? (metrics.validProducts / metrics.totalProcessed) * 100 : 0;
-
-        log.info('Data Quality Report:', {
-            totalProcessed: metrics.totalProcessed,
-            validProducts: metrics.validProducts,
-            invalidProducts: metrics.invalidProducts,
-            successRate: `${successRate.toFixed(2)}%`,
-            averageQualityScore: metrics.averageQualityScore.toFixed(2),
-        });
-    }
-}
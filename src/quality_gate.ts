@@ -0,0 +1,201 @@
+import { createHash } from 'crypto';
+import { Actor, KeyValueStore } from 'apify';
+import { log } from 'crawlee';
+import { getCrawlScope } from './incremental.js';
+import type { DataQualityReport } from './quality_report.js';
+import type { ResolvedInput } from './input.js';
+import type { Market } from './markets.js';
+
+/**
+ * Quality gate
+ * Checks the data quality report of a run against thresholds and against the report of the last
+ * successful run, so a silent markup change cannot produce a "successful" run with half-empty records.
+ * Failed checks flag the run or fail it, depending on the configured action.
+ */
+
+export const QUALITY_GATE_KEY = 'QUALITY_GATE';
+
+export const DEFAULT_QUALITY_BASELINE_STORE = 'hm-quality-baseline';
+
+export type QualityGateAction = 'off' | 'flag' | 'fail';
+
+export type QualityGateCheck = 'validRate' | 'averageQualityScore' | 'productCount' | 'fillRateDrop';
+
+/**
+ * Thresholds of the quality gate, 0 (or no field) disables a check
+ */
+export interface QualityGateThresholds {
+    // Minimum share of valid products, 0-1
+    minValidProductRate: number;
+    minAverageQualityScore: number;
+    // Minimum valid products relative to the last successful run, 0-1
+    minProductCountRatio: number;
+    // Maximum fill rate drop per field since the last successful run, 0-1
+    maxFillRateDrops: Record<string, number>;
+}
+
+export interface QualityGateViolation {
+    check: QualityGateCheck;
+    field?: string;
+    actual: number;
+    threshold: number;
+    message: string;
+}
+
+export interface QualityGateResult {
+    action: QualityGateAction;
+    passed: boolean;
+    checkedAt: string;
+    violations: QualityGateViolation[];
+    baseline: { generatedAt: string; valid: number } | null;
+}
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+/**
+ * Check a data quality report against the thresholds, comparisons are skipped without a baseline
+ */
+export const evaluateQualityGate = (
+    report: DataQualityReport,
+    baseline: DataQualityReport | null,
+    thresholds: QualityGateThresholds,
+): QualityGateViolation[] => {
+    const violations: QualityGateViolation[] = [];
+
+    if (thresholds.minValidProductRate > 0 && report.validRate < thresholds.minValidProductRate) {
+        violations.push({
+            check: 'validRate',
+            actual: report.validRate,
+            threshold: thresholds.minValidProductRate,
+            message: `Valid product rate ${report.validRate} is below ${thresholds.minValidProductRate}`,
+        });
+    }
+
+    if (thresholds.minAverageQualityScore > 0 && report.averageQualityScore < thresholds.minAverageQualityScore) {
+        violations.push({
+            check: 'averageQualityScore',
+            actual: report.averageQualityScore,
+            threshold: thresholds.minAverageQualityScore,
+            message: `Average quality score ${report.averageQualityScore} is below ${thresholds.minAverageQualityScore}`,
+        });
+    }
+
+    if (!baseline) return violations;
+
+    if (thresholds.minProductCountRatio > 0 && baseline.valid > 0) {
+        const ratio = round(report.valid / baseline.valid);
+        if (ratio < thresholds.minProductCountRatio) {
+            violations.push({
+                check: 'productCount',
+                actual: ratio,
+                threshold: thresholds.minProductCountRatio,
+                message: `${report.valid} valid products are ${ratio} of the ${baseline.valid} of the last successful run, `
+                    + `below ${thresholds.minProductCountRatio}`,
+            });
+        }
+    }
+
+    for (const [field, maxDrop] of Object.entries(thresholds.maxFillRateDrops)) {
+        const previous = baseline.fieldFillRates[field as keyof DataQualityReport['fieldFillRates']];
+        const current = report.fieldFillRates[field as keyof DataQualityReport['fieldFillRates']];
+        if (previous === undefined || current === undefined) continue;
+
+        const drop = round(previous - current);
+        if (drop > maxDrop) {
+            violations.push({
+                check: 'fillRateDrop',
+                field,
+                actual: drop,
+                threshold: maxDrop,
+                message: `Fill rate of ${field} dropped from ${previous} to ${current}, more than ${maxDrop}`,
+            });
+        }
+    }
+
+    return violations;
+};
+
+/**
+ * Identifies the runs compared by the gate: same crawl scope, markets and product limits
+ */
+export const getBaselineScope = (input: ResolvedInput, markets: Market[]): string => {
+    const { maxProducts, maxProductsPerMarket } = input;
+    const marketCodes = markets.map(({ code }) => code).sort();
+    const runHash = createHash('sha1')
+        .update(JSON.stringify({ marketCodes, maxProducts, maxProductsPerMarket }))
+        .digest('hex')
+        .slice(0, 12);
+
+    return `${getCrawlScope(input)}_${runHash}`;
+};
+
+class QualityGate {
+    private action: QualityGateAction = 'off';
+    private thresholds: QualityGateThresholds = { minValidProductRate: 0, minAverageQualityScore: 0, minProductCountRatio: 0, maxFillRateDrops: {} };
+    private storeName = DEFAULT_QUALITY_BASELINE_STORE;
+    private scope = 'catalog';
+    private store?: KeyValueStore;
+
+    configure(input: ResolvedInput, markets: Market[]) {
+        this.action = input.qualityGateAction;
+        this.thresholds = {
+            minValidProductRate: input.minValidProductRate,
+            minAverageQualityScore: input.minAverageQualityScore,
+            minProductCountRatio: input.minProductCountRatio,
+            maxFillRateDrops: input.maxFillRateDrops,
+        };
+        this.storeName = input.qualityBaselineStoreName;
+        this.scope = getBaselineScope(input, markets);
+
+        if (this.isEnabled()) {
+            log.info(`Quality gate (${this.action}): baseline in key-value store "${this.storeName}", scope ${this.scope}`);
+        }
+    }
+
+    isEnabled(): boolean {
+        return this.action !== 'off';
+    }
+
+    private getBaselineKey(): string {
+        return `BASELINE_${this.scope}`;
+    }
+
+    /**
+     * Check the report of this run and save the result as QUALITY_GATE.
+     * A passing report of a run without failed markets becomes the baseline of the next run.
+     */
+    async check(report: DataQualityReport, runSucceeded: boolean): Promise<QualityGateResult | null> {
+        if (!this.isEnabled()) return null;
+
+        this.store ??= await Actor.openKeyValueStore(this.storeName);
+        const baseline = await this.store.getValue<DataQualityReport>(this.getBaselineKey());
+        const violations = evaluateQualityGate(report, baseline, this.thresholds);
+
+        const result: QualityGateResult = {
+            action: this.action,
+            passed: violations.length === 0,
+            checkedAt: new Date().toISOString(),
+            violations,
+            baseline: baseline ? { generatedAt: baseline.generatedAt, valid: baseline.valid } : null,
+        };
+        await Actor.setValue(QUALITY_GATE_KEY, result);
+
+        if (result.passed) {
+            log.info(`Quality gate passed${baseline ? '' : ', no baseline to compare with yet'}`);
+            if (runSucceeded) await this.store.setValue(this.getBaselineKey(), report);
+            return result;
+        }
+
+        for (const violation of violations) {
+            log.warning(`Quality gate: ${violation.message}`);
+        }
+
+        if (this.action === 'flag' && Actor.isAtHome()) {
+            await Actor.setStatusMessage(`Data quality flagged: ${violations.length} quality gate check(s) failed, see ${QUALITY_GATE_KEY}`);
+        }
+
+        return result;
+    }
+}
+
+export const qualityGate = new QualityGate();
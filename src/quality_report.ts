@@ -0,0 +1,239 @@
+import { Actor } from 'apify';
+import { log } from 'crawlee';
+import { calculateQualityBreakdown, ProductData, QualityDimension, QUALITY_DIMENSION_POINTS } from './data_validation.js';
+import type { CanonicalProduct } from './canonical_schema.js';
+
+/**
+ * Data quality report
+ * Collects field fill rates, quality scores per dimension, score histograms, per-market and per-category
+ * breakdowns and failure reasons of every processed product, saved as DATA_QUALITY_REPORT at the end of
+ * the run so quality can be compared across runs
+ */
+
+export const DATA_QUALITY_REPORT_KEY = 'DATA_QUALITY_REPORT';
+
+/**
+ * Fields whose fill rate is reported
+ */
+export const FILL_RATE_FIELDS = [
+    'productName',
+    'articleNo',
+    'listPrice',
+    'salePrice',
+    'currency',
+    'description',
+    'url',
+    'imageUrl',
+    'division',
+    'category',
+    'subCategory',
+    'colors',
+    'sizes',
+] as const;
+
+export type FillRateField = typeof FILL_RATE_FIELDS[number];
+
+export interface QualityGroupStats {
+    processed: number;
+    valid: number;
+    invalid: number;
+    // Share of valid products, 0-1
+    validRate: number;
+    averageQualityScore: number;
+}
+
+export interface DimensionStats {
+    averagePoints: number;
+    maxPoints: number;
+}
+
+export interface DataQualityReport extends QualityGroupStats {
+    generatedAt: string;
+    dimensions: Record<QualityDimension, DimensionStats>;
+    // Share of processed products with a value per field, 0-1
+    fieldFillRates: Record<FillRateField, number>;
+    // Valid products per quality score bucket ("0-9" ... "90-100")
+    scoreHistogram: Record<string, number>;
+    byMarket: Record<string, QualityGroupStats>;
+    byCategory: Record<string, QualityGroupStats>;
+    topFailureReasons: { reason: string; count: number }[];
+}
+
+interface GroupCounts {
+    processed: number;
+    valid: number;
+    scoreSum: number;
+}
+
+// Failure reasons listed in the report
+const TOP_FAILURE_REASONS = 10;
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+/**
+ * Whether a product field holds a value, zero prices and empty lists do not count
+ */
+export const isFieldFilled = (value: unknown): boolean => {
+    if (value === null || value === undefined || value === '' || value === 0) return false;
+    if (Array.isArray(value)) return value.length > 0;
+    return true;
+};
+
+/**
+ * Histogram bucket of a quality score, 100 falls into the highest bucket
+ */
+export const getScoreBucket = (score: number): string => {
+    const lower = Math.min(Math.floor(score / 10) * 10, 90);
+    return lower === 90 ? '90-100' : `${lower}-${lower + 9}`;
+};
+
+/**
+ * Legacy fields of a canonical product, so canonical runs are scored and reported like legacy ones
+ */
+export const fromCanonicalProduct = (product: Partial<CanonicalProduct>): ProductData => ({
+    company: product.brand ?? '',
+    country: product.marketName ?? '',
+    market: product.market ?? '',
+    productName: product.title ?? '',
+    articleNo: parseInt(product.productId ?? '0', 10),
+    division: product.gender ?? '',
+    category: product.category ?? '',
+    subCategory: product.subCategory ?? '',
+    listPrice: product.originalPrice ?? product.price ?? 0,
+    salePrice: product.salePrice ?? null,
+    currency: product.currency ?? '',
+    description: product.description ?? '',
+    url: product.url ?? '',
+    imageUrl: product.thumbnail ?? product.images?.[0]?.url ?? '',
+    timestamp: product.scrapedAt ?? '',
+    colors: product.color ? [product.color] : [],
+    sizes: (product.availableSizes ?? []).map(({ name }) => name),
+});
+
+const emptyHistogram = (): Record<string, number> => {
+    return Object.fromEntries([...Array(10).keys()].map((index) => [getScoreBucket(index * 10), 0]));
+};
+
+const emptyDimensionSums = (): Record<QualityDimension, number> => ({ name: 0, description: 0, price: 0, image: 0, url: 0, article: 0 });
+
+const emptyFieldCounts = () => Object.fromEntries(FILL_RATE_FIELDS.map((field) => [field, 0])) as Record<FillRateField, number>;
+
+/**
+ * Key of the per-category breakdown, e.g. "Men / Suits & Blazers"
+ */
+const getCategoryKey = (product: Partial<ProductData>): string => [product.division, product.category].filter(Boolean).join(' / ') || 'unknown';
+
+const toGroupStats = ({ processed, valid, scoreSum }: GroupCounts): QualityGroupStats => ({
+    processed,
+    valid,
+    invalid: processed - valid,
+    validRate: processed > 0 ? round(valid / processed) : 0,
+    averageQualityScore: valid > 0 ? round(scoreSum / valid) : 0,
+});
+
+class QualityReporter {
+    private totals: GroupCounts = { processed: 0, valid: 0, scoreSum: 0 };
+    private dimensionSums = emptyDimensionSums();
+    private fieldCounts = emptyFieldCounts();
+    private histogram = emptyHistogram();
+    private markets: Record<string, GroupCounts> = {};
+    private categories: Record<string, GroupCounts> = {};
+    private failureReasons: Record<string, number> = {};
+
+    /**
+     * Record a processed product, invalid products count toward fill rates and valid rates only
+     */
+    recordProduct(product: Partial<ProductData>, isValid: boolean): void {
+        const market = product.market || 'unknown';
+        const category = getCategoryKey(product);
+        this.markets[market] ??= { processed: 0, valid: 0, scoreSum: 0 };
+        this.categories[category] ??= { processed: 0, valid: 0, scoreSum: 0 };
+        const groups = [this.totals, this.markets[market], this.categories[category]];
+
+        for (const field of FILL_RATE_FIELDS) {
+            if (isFieldFilled(product[field])) this.fieldCounts[field]++;
+        }
+
+        let score = 0;
+        if (isValid) {
+            const breakdown = calculateQualityBreakdown(product as ProductData);
+            for (const dimension of Object.keys(breakdown) as QualityDimension[]) {
+                this.dimensionSums[dimension] += breakdown[dimension];
+                score += breakdown[dimension];
+            }
+            this.histogram[getScoreBucket(score)]++;
+        }
+
+        for (const group of groups) {
+            group.processed++;
+            if (isValid) {
+                group.valid++;
+                group.scoreSum += score;
+            }
+        }
+    }
+
+    /**
+     * Record the reason codes of a quarantined product
+     */
+    recordFailure(reasons: string[]): void {
+        for (const reason of reasons) {
+            this.failureReasons[reason] = (this.failureReasons[reason] ?? 0) + 1;
+        }
+    }
+
+    getReport(): DataQualityReport {
+        const { processed, valid } = this.totals;
+        const mapGroups = (groups: Record<string, GroupCounts>) => {
+            return Object.fromEntries(Object.entries(groups).map(([key, counts]) => [key, toGroupStats(counts)]));
+        };
+
+        return {
+            generatedAt: new Date().toISOString(),
+            ...toGroupStats(this.totals),
+            dimensions: Object.fromEntries((Object.keys(QUALITY_DIMENSION_POINTS) as QualityDimension[]).map((dimension) => [dimension, {
+                averagePoints: valid > 0 ? round(this.dimensionSums[dimension] / valid) : 0,
+                maxPoints: QUALITY_DIMENSION_POINTS[dimension],
+            }])) as Record<QualityDimension, DimensionStats>,
+            fieldFillRates: Object.fromEntries(FILL_RATE_FIELDS.map((field) => [
+                field,
+                processed > 0 ? round(this.fieldCounts[field] / processed) : 0,
+            ])) as Record<FillRateField, number>,
+            scoreHistogram: { ...this.histogram },
+            byMarket: mapGroups(this.markets),
+            byCategory: mapGroups(this.categories),
+            topFailureReasons: Object.entries(this.failureReasons)
+                .map(([reason, count]) => ({ reason, count }))
+                .sort((a, b) => b.count - a.count || a.reason.localeCompare(b.reason))
+                .slice(0, TOP_FAILURE_REASONS),
+        };
+    }
+
+    /**
+     * Write the report to the default key-value store
+     */
+    async saveReport(): Promise<DataQualityReport> {
+        const report = this.getReport();
+        await Actor.setValue(DATA_QUALITY_REPORT_KEY, report);
+
+        log.info(`Data quality report saved to ${DATA_QUALITY_REPORT_KEY}`, {
+            processed: report.processed,
+            validRate: report.validRate,
+            averageQualityScore: report.averageQualityScore,
+        });
+
+        return report;
+    }
+
+    reset() {
+        this.totals = { processed: 0, valid: 0, scoreSum: 0 };
+        this.dimensionSums = emptyDimensionSums();
+        this.fieldCounts = emptyFieldCounts();
+        this.histogram = emptyHistogram();
+        this.markets = {};
+        this.categories = {};
+        this.failureReasons = {};
+    }
+}
+
+export const qualityReport = new QualityReporter();
@@ -0,0 +1,164 @@
+import { Actor } from 'apify';
+import { log } from 'crawlee';
+import {
+    calculateQualityBreakdown,
+    calculateProductQualityScore,
+    ProductData,
+    QualityBreakdown,
+    ValidationIssue,
+    ValidationProfileName,
+} from './data_validation.js';
+import { qualityReport } from './quality_report.js';
+import type { ResolvedInput } from './input.js';
+
+/**
+ * Quarantine
+ * Products dropped by validation or by the quality filter are saved to a named dataset with their raw
+ * payload, the cleaned product, the failing rules and the quality breakdown, so missing products can be
+ * audited and thresholds tuned with evidence.
+ */
+
+export const DEFAULT_QUARANTINE_DATASET = 'rejected-records';
+
+export type QuarantineStage = 'validation' | 'quality';
+
+/**
+ * Where a product was found: the route label and the URL of the page
+ */
+export interface ProductSource {
+    route: string;
+    url: string;
+}
+
+/**
+ * Product dropped before saving, as saved to the quarantine dataset
+ */
+export interface QuarantineRecord {
+    stage: QuarantineStage;
+    // Machine-readable reasons, e.g. `description.required` or `qualityScore.belowMinimum`
+    reasons: string[];
+    issues: ValidationIssue[];
+    profile: ValidationProfileName | null;
+    qualityScore: number | null;
+    qualityBreakdown: QualityBreakdown | null;
+    minQualityScore: number | null;
+    route: string;
+    sourceUrl: string;
+    market: string | null;
+    articleNo: number | string | null;
+    productName: string | null;
+    rawProduct: Record<string, any>;
+    product: ProductData | null;
+    quarantinedAt: string;
+}
+
+// Quarantined records are written in batches of this size
+const QUARANTINE_BATCH_SIZE = 100;
+
+// Records kept while the quarantine dataset cannot be written, the oldest are dropped beyond this
+export const MAX_PENDING_QUARANTINE_RECORDS = 10000;
+
+/**
+ * Quarantine record of a product failing the rules of its validation profile.
+ * `product` is null when the raw product could not even be cleaned.
+ */
+export const toValidationQuarantineRecord = (
+    rawProduct: Record<string, any>,
+    product: ProductData | null,
+    issues: ValidationIssue[],
+    profile: ValidationProfileName,
+    source: ProductSource,
+    quarantinedAt = new Date().toISOString(),
+): QuarantineRecord => ({
+    stage: 'validation',
+    reasons: issues.map(({ code }) => code),
+    issues,
+    profile,
+    qualityScore: product ? calculateProductQualityScore(product) : null,
+    qualityBreakdown: product ? calculateQualityBreakdown(product) : null,
+    minQualityScore: null,
+    route: source.route,
+    sourceUrl: source.url,
+    market: product?.market ?? rawProduct?.market ?? null,
+    articleNo: product?.articleNo ?? rawProduct?.articleNo ?? null,
+    productName: product?.productName ?? rawProduct?.productName ?? null,
+    rawProduct,
+    product,
+    quarantinedAt,
+});
+
+/**
+ * Quarantine record of a valid product scoring below the minimum quality score
+ */
+export const toQualityQuarantineRecord = (
+    rawProduct: Record<string, any>,
+    product: ProductData,
+    minQualityScore: number,
+    source: ProductSource,
+    quarantinedAt = new Date().toISOString(),
+): QuarantineRecord => ({
+    stage: 'quality',
+    reasons: ['qualityScore.belowMinimum'],
+    issues: [],
+    profile: null,
+    qualityScore: calculateProductQualityScore(product),
+    qualityBreakdown: calculateQualityBreakdown(product),
+    minQualityScore,
+    route: source.route,
+    sourceUrl: source.url,
+    market: product.market,
+    articleNo: product.articleNo,
+    productName: product.productName,
+    rawProduct,
+    product,
+    quarantinedAt,
+});
+
+class Quarantine {
+    private datasetName = DEFAULT_QUARANTINE_DATASET;
+    private pending: QuarantineRecord[] = [];
+    private counts: Record<QuarantineStage, number> = { validation: 0, quality: 0 };
+
+    configure(input: ResolvedInput) {
+        this.datasetName = input.rejectedDatasetName;
+    }
+
+    add(record: QuarantineRecord): void {
+        this.pending.push(record);
+        this.counts[record.stage]++;
+        qualityReport.recordFailure(record.reasons);
+    }
+
+    /**
+     * Quarantined products per stage
+     */
+    getCounts(): Record<QuarantineStage, number> {
+        return { ...this.counts };
+    }
+
+    /**
+     * Write quarantined products to their dataset once a batch is full, all of them with `force`
+     */
+    async flush(force = false): Promise<void> {
+        if (this.pending.length === 0 || (!force && this.pending.length < QUARANTINE_BATCH_SIZE)) return;
+
+        const records = this.pending;
+        this.pending = [];
+
+        try {
+            const dataset = await Actor.openDataset(this.datasetName);
+            await dataset.pushData(records);
+            log.info(`Quarantined ${records.length} products in dataset "${this.datasetName}" (validation: ${this.counts.validation}, `
+                + `quality: ${this.counts.quality})`);
+        } catch (error: any) {
+            log.warning(`Could not save ${records.length} quarantined products:`, error);
+            this.pending = [...records, ...this.pending];
+            if (this.pending.length > MAX_PENDING_QUARANTINE_RECORDS) {
+                log.warning(`Quarantine: dropping ${this.pending.length - MAX_PENDING_QUARANTINE_RECORDS} pending records`);
+                this.pending = this.pending.slice(-MAX_PENDING_QUARANTINE_RECORDS);
+            }
+        }
+    }
+}
+
+export const quarantine = new Quarantine();
@@ -0,0 +1,15 @@
+/**
+ * Regular expressions from input
+ * Rule overrides and validation profiles carry their patterns as strings
+ */
+
+/**
+ * Compile a regular expression from rule input, with the reason when it is invalid
+ */
+export const compileRegExp = (pattern: string, flags?: string): { regExp?: RegExp, error?: string } => {
+    try {
+        return { regExp: new RegExp(pattern, flags) };
+    } catch (error: any) {
+        return { error: error.message };
+    }
+};
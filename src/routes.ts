@@ -1,12 +1,10 @@
-import { createCheerioRouter, Request } from 'crawlee';
-import { Actor } from 'apify';
+import { CheerioRoot, createCheerioRouter, Log, Request } from 'crawlee';
 import {
     BASE_URL,
     COMPANY,
     DEFAULT_NUMBER_OF_PRODUCTS,
     Labels,
     MAX_PRODUCTS_PER_PAGE,
-    SCRAPED_PRODUCTS_KEY,
 } from './constants.js';
 import {
     getAllCombinationImages,
@@ -15,33 +13,164 @@ import {
     getProductInfo,
     getProductInfoObject,
     getCategoriesFromNavigation,
+    getCategoryCountRequests,
 } from './extractors.js';
 import { getBaseProductId, getMainImageFromMiniature } from './tools.js';
 import actorStatistics from './actor_statistics.js';
-import { progressiveDataSaver, DataQualityMonitor } from './progressive_saving.js';
-import { cleanAndValidateProduct, calculateProductQualityScore } from './data_validation.js';
+import { progressiveDataSaver } from './progressive_saving.js';
 import { retryWithBackoff, classifyError } from './error_handling.js';
 import { smartScheduler, detectAndHandleBlocking } from './anti_bot.js';
-import { SmartDataExtractor } from './smart_extractor.js';
+import { SmartDataExtractor, ProductData as ExtractedProduct } from './smart_extractor.js';
+import { extractionTelemetry } from './extraction_telemetry.js';
+import { extractionRules, readFirst } from './extraction_rules.js';
 import { HMUrlBuilder } from './url_builder.js';
 import { DataSanitizer } from './data_sanitizer.js';
+import { ComprehensiveExtractor } from './comprehensive_extractor.js';
+import { outputFormatter } from './canonical_output.js';
+import { Market, getMarketCurrency } from './markets.js';
+import { createMissingSnapshot, parseWatchSnapshot, watchlistMonitor } from './watchlist.js';
+import { buildCategoryTree, categoryDiscovery } from './category_discovery.js';
+import { ProductSource } from './quarantine.js';
+import { productDedup } from './dedup.js';
+import { searchQueryTracker } from './search_queries.js';
 
 export const router = createCheerioRouter();
 
-const defaultStore = await Actor.openKeyValueStore();
-const scrapedProducts = await defaultStore.getAutoSavedValue<Record<string, boolean>>(
-    SCRAPED_PRODUCTS_KEY,
-    {},
-);
+interface ListingContext {
+    source: ProductSource,
+    divisionName?: string,
+    categoryName?: string,
+    country: Market,
+    searchQuery?: string,
+}
+
+/**
+ * Cleans, validates and progressively saves products found on a listing page or in search results.
+ * Returns the number of saved products.
+ */
+const saveListingProducts = async (products: ExtractedProduct[], context: ListingContext, log: Log): Promise<number> => {
+    const { source, divisionName, categoryName, country, searchQuery } = context;
+
+    let savedCount = 0;
+    for (const product of products) {
+        // Check limit
+        if (actorStatistics.hasReachedLimit(country.code)) {
+            log.info('Product limit reached. Stopping extraction.');
+            break;
+        }
+
+        // Every query that matched the product is kept, it is saved with the first one only
+        if (searchQuery) {
+            searchQueryTracker.record(searchQuery, { articleNo: DataSanitizer.sanitizeProductId(product.articleCode), market: country.code });
+        }
+
+        // Skip if already scraped
+        if (!productDedup.markHandled(source.route, { articleNo: product.articleCode, market: country.code })) continue;
+
+        const timestamp = new Date().toISOString();
+
+        const rawProduct = {
+            company: COMPANY,
+            country: country.name,
+            market: country.code,
+            productName: DataSanitizer.sanitizeString(product.title),
+            articleNo: DataSanitizer.sanitizeProductId(product.articleCode),
+            division: DataSanitizer.sanitizeString(divisionName),
+            category: DataSanitizer.sanitizeString(categoryName ?? product.category),
+            subCategory: DataSanitizer.sanitizeString(product.category),
+            listPrice: DataSanitizer.sanitizeNumber(product.regularPrice),
+            salePrice: product.redPrice ? DataSanitizer.sanitizeNumber(product.redPrice) : null,
+            currency: DataSanitizer.sanitizeCurrency(getMarketCurrency(country.code)),
+            description: '',
+            url: DataSanitizer.sanitizeUrl(product.pdpUrl),
+            imageUrl: DataSanitizer.sanitizeUrl(product.imageUrl),
+            timestamp,
+            colors: product.colors,
+            sizes: product.sizes,
+            searchQuery,
+        };
+
+        // Clean, validate and save product progressively
+        const saved = await progressiveDataSaver.addProduct(rawProduct, source, product.sizes);
+        if (saved) {
+            savedCount++;
+            actorStatistics.incrementCounter(1, country.code);
+            log.debug(`Saved product: ${rawProduct.productName} (${rawProduct.articleNo})`);
+        }
+    }
+
+    return savedCount;
+};
+
+/**
+ * Extracts the full CanonicalProduct from a product page and progressively saves it
+ * formatted according to the output configuration of the run.
+ * Returns true when the product was saved.
+ */
+const saveCanonicalProduct = async ($: CheerioRoot, body: string, url: string, country: Market, log: Log): Promise<boolean> => {
+    if (actorStatistics.hasReachedLimit(country.code)) {
+        log.info('Product limit reached. Skipping canonical extraction.');
+        return false;
+    }
+
+    const product = await ComprehensiveExtractor.extractProductDetails($, body, url, country.code, country.name);
+    if (!product) {
+        log.warning(`Could not extract canonical product data - ${url}`);
+        return false;
+    }
+
+    if (!productDedup.markHandled('canonical', { productId: product.productId, market: country.code })) return false;
+
+    const saved = await progressiveDataSaver.addCanonicalProduct(product);
+    if (saved) {
+        actorStatistics.incrementCounter(1, country.code);
+        log.debug(`Saved canonical product: ${product.title} (${product.productId})`);
+    }
+
+    return saved;
+};
+
+/**
+ * Number of products of a listing page from Next.js data or the product count element, null when neither has it
+ */
+const getListingProductCount = ($: CheerioRoot, body: string, log: Log): number | null => {
+    try {
+        const jsonData = SmartDataExtractor.parseNextData(body);
+        const listing = jsonData && SmartDataExtractor.findListing(jsonData);
+        const totalHits = listing && readFirst(listing, extractionRules.get().listing.totalProducts);
+
+        if (totalHits && typeof totalHits === 'number') {
+            log.info(`Found ${totalHits} total products from Next.js data`);
+            return totalHits;
+        }
+
+        // Fallback to HTML selector
+        const productCountText = getProductCount($);
+        const productCountString = $(productCountText).text().trim().match(/\d+/g)
+            ?.join('');
+
+        return productCountString ? parseInt(productCountString, 10) : null;
+    } catch (error: any) {
+        log.error('Error extracting product count:', error);
+        return null;
+    }
+};
 
 /**
  * First route for each country.
- * Enqueues category requests
+ * Enqueues category requests, or the product counts of the category tree in discovery mode
  */
 router.addHandler(Labels.NAVIGATION, async ({ request, json, log, crawler }) => {
     const { label, country } = request.userData;
     log.info(`${label}: Enqueueing divisions, country: ${country.name} - ${request.loadedUrl}`);
 
+    if (categoryDiscovery.isEnabled()) {
+        const divisions = buildCategoryTree(json, categoryDiscovery.getFilter());
+        categoryDiscovery.addTree(country, divisions);
+        await crawler.addRequests(getCategoryCountRequests(divisions, country, true));
+        return;
+    }
+
     const requests = getCategoriesFromNavigation(json, country);
     await crawler.addRequests(requests);
 });
@@ -50,52 +179,23 @@ router.addHandler(Labels.NAVIGATION, async ({ request, json, log, crawler }) =>
  * Subcategory page.
  * Route parses number of products in category and enqueues category requests with paginationK
  * It is also run for the category page as some products do not have assigned category on all levels.
+ * In discovery mode the number of products goes to the category tree instead.
  */
 router.addHandler(Labels.SUB_CATEGORY_COUNT, async ({ log, request, $, body, crawler }) => {
-    const { divisionName, categoryName, country, label } = request.userData;
+    const { divisionName, categoryName, country, label, aliasPath } = request.userData;
     log.info(`${label}: country: ${country.name} - ${request.loadedUrl}`);
 
-    let productCount = DEFAULT_NUMBER_OF_PRODUCTS;
-    
-    // Try to extract product count from Next.js data first
-    try {
-        const scriptMatch = (body as string).match(/<script id="__NEXT_DATA__" type="application\/json">(.+?)<\/script>/s);
-        
-        if (scriptMatch) {
-            const jsonData = JSON.parse(scriptMatch[1]);
-            const totalHits = jsonData?.props?.pageProps?.plpProps?.productListingProps?.totalHits;
-            
-            if (totalHits && typeof totalHits === 'number') {
-                productCount = totalHits;
-                log.info(`Found ${productCount} total products from Next.js data`);
-            } else {
-                // Fallback to HTML selector
-                const productCountText = getProductCount($);
-                const productCountString = $(productCountText).text().trim().match(/\d+/g)
-                    ?.join('');
-
-                if (productCountString) {
-                    productCount = parseInt(productCountString, 10);
-                } else {
-                    log.info('Number of products not found. Using default value.');
-                }
-            }
-        } else {
-            // Fallback to HTML selector
-            const productCountText = getProductCount($);
-            const productCountString = $(productCountText).text().trim().match(/\d+/g)
-                ?.join('');
+    const listingProductCount = getListingProductCount($, body as string, log);
 
-            if (productCountString) {
-                productCount = parseInt(productCountString, 10);
-            } else {
-                log.info('Number of products not found. Using default value.');
-            }
-        }
-    } catch (error: any) {
-        log.error('Error extracting product count:', error);
-        // Use default value
+    if (categoryDiscovery.isEnabled()) {
+        categoryDiscovery.recordProductCount(country.code, aliasPath, listingProductCount);
+        return;
+    }
+
+    if (listingProductCount === null) {
+        log.info('Number of products not found. Using default value.');
     }
+    const productCount = listingProductCount ?? DEFAULT_NUMBER_OF_PRODUCTS;
 
     // Enqueue subcategory requests with pagination
     const requests = [];
@@ -131,7 +231,12 @@ router.addHandler(Labels.SUB_CATEGORY, async ({ log, request, $, body, crawler,
     
     try {
         // Use smart extractor
-        const extractedData = SmartDataExtractor.extract(body as string, $);
+        const extractedData = SmartDataExtractor.extract(body as string, $, {
+            route: label,
+            market: country.code,
+            pageType: 'listing',
+            url: request.loadedUrl,
+        });
         
         if (extractedData && extractedData.products.length > 0) {
             log.info(`Smart extractor found ${extractedData.products.length} products (total: ${extractedData.totalProducts})`);
@@ -168,62 +273,13 @@ router.addHandler(Labels.SUB_CATEGORY, async ({ log, request, $, body, crawler,
                 log.info(`Enqueued ${requests.length} product URLs for detailed extraction`);
             } else {
                 // Save products directly without visiting product pages
-                let savedCount = 0;
-                for (const product of extractedData.products) {
-                    // Check limit
-                    if (actorStatistics.hasReachedLimit()) {
-                        log.info('Product limit reached. Stopping extraction.');
-                        break;
-                    }
-                    
-                    const uniqueProductKey = `${product.articleCode}_${country.code}`;
-                    
-                    // Skip if already scraped
-                    if (scrapedProducts[uniqueProductKey]) continue;
-                    scrapedProducts[uniqueProductKey] = true;
-                    
-                    const timestamp = new Date().toISOString();
-                    
-                    const rawProduct = {
-                        company: COMPANY,
-                        country: country.name,
-                        productName: DataSanitizer.sanitizeString(product.title),
-                        articleNo: DataSanitizer.sanitizeProductId(product.articleCode),
-                        division: DataSanitizer.sanitizeString(divisionName),
-                        category: DataSanitizer.sanitizeString(categoryName),
-                        subCategory: DataSanitizer.sanitizeString(product.category),
-                        listPrice: DataSanitizer.sanitizeNumber(product.regularPrice),
-                        salePrice: product.redPrice ? DataSanitizer.sanitizeNumber(product.redPrice) : null,
-                        currency: DataSanitizer.sanitizeCurrency(country.currency),
-                        description: '',
-                        url: DataSanitizer.sanitizeUrl(product.pdpUrl),
-                        imageUrl: DataSanitizer.sanitizeUrl(product.imageUrl),
-                        timestamp,
-                        colors: product.colors,
-                        sizes: product.sizes,
-                    };
-                    
-                    // Clean and validate product
-                    const cleanedProduct = cleanAndValidateProduct(rawProduct);
-                    if (!cleanedProduct) {
-                        log.warning('Product validation failed, skipping:', rawProduct);
-                        DataQualityMonitor.recordProduct(rawProduct as any, false, 0);
-                        continue;
-                    }
-                    
-                    // Calculate quality score
-                    const qualityScore = calculateProductQualityScore(cleanedProduct);
-                    DataQualityMonitor.recordProduct(cleanedProduct, true, qualityScore);
-                    
-                    // Save product progressively
-                    const saved = await progressiveDataSaver.addProduct(cleanedProduct);
-                    if (saved) {
-                        savedCount++;
-                        actorStatistics.incrementCounter(1);
-                        log.debug(`Saved product: ${cleanedProduct.productName} (${cleanedProduct.articleNo}) - Quality: ${qualityScore}`);
-                    }
-                }
-                
+                const savedCount = await saveListingProducts(extractedData.products, {
+                    source: { route: label, url: request.loadedUrl ?? request.url },
+                    divisionName,
+                    categoryName,
+                    country,
+                }, log);
+
                 log.info(`Saved ${savedCount} products directly from listing page`);
             }
             
@@ -254,7 +310,7 @@ router.addHandler(Labels.SUB_CATEGORY, async ({ log, request, $, body, crawler,
                 
                 // Fallback to traditional selector-based approach
                 await enqueueLinks({
-                    selector: '.product-item article .item-heading a',
+                    selector: extractionRules.get().categoryPage.productLinks,
                     userData: {
                         label: Labels.PRODUCT,
                         divisionName,
@@ -273,7 +329,7 @@ router.addHandler(Labels.SUB_CATEGORY, async ({ log, request, $, body, crawler,
         
         // Fallback to traditional selector-based approach
         await enqueueLinks({
-            selector: '.product-item article .item-heading a',
+            selector: extractionRules.get().categoryPage.productLinks,
             userData: {
                 label: Labels.PRODUCT,
                 divisionName,
@@ -289,6 +345,60 @@ router.addHandler(Labels.SUB_CATEGORY, async ({ log, request, $, body, crawler,
     }
 });
 
+/**
+ * Search results.
+ * Parses the search JSON response, saves the found products and enqueues the next result page.
+ * Saved products carry the first search query that surfaced them, every matching query is kept by the searchQueryTracker.
+ */
+router.addHandler(Labels.SEARCH_RESULTS, async ({ log, request, json, body, crawler }) => {
+    const { query, country, label, maxProducts, maxPages, pageNumber = 1 } = request.userData;
+    log.info(`${label}: query "${query}", page ${pageNumber}, country: ${country.name} - ${request.loadedUrl}`);
+
+    const extractedData = SmartDataExtractor.extractFromSearchResponse(json ?? body.toString());
+    if (!extractedData || extractedData.products.length === 0) {
+        extractionTelemetry.recordStrategy('none', { route: label, market: country.code });
+        log.warning(`No search results for query "${query}" - ${request.loadedUrl}`);
+        return;
+    }
+    extractionTelemetry.recordStrategy('searchResponse', { route: label, market: country.code });
+
+    const savedCount = await saveListingProducts(extractedData.products, {
+        source: { route: label, url: request.loadedUrl ?? request.url },
+        country,
+        searchQuery: query,
+    }, log);
+    log.info(`Saved ${savedCount} products for query "${query}" (total results: ${extractedData.totalProducts})`);
+
+    if (actorStatistics.hasReachedLimit(country.code)) return;
+
+    if (maxPages && pageNumber >= maxPages) {
+        log.info(`Reached maxPages (${maxPages}) for query "${query}"`);
+        return;
+    }
+
+    // Handle pagination
+    const currentUrl = new URL(request.loadedUrl as string);
+    const currentOffset = parseInt(currentUrl.searchParams.get('offset') || '0', 10);
+    const pageSize = parseInt(currentUrl.searchParams.get('page-size') || `${extractedData.products.length}`, 10);
+    const maxOffset = Math.min(extractedData.totalProducts, maxProducts || extractedData.totalProducts);
+
+    if (currentOffset + pageSize < maxOffset) {
+        const nextPageUrl = new HMUrlBuilder(request.loadedUrl as string)
+            .applyPagination({ offset: currentOffset + pageSize, pageSize })
+            .build();
+
+        await crawler.addRequests([{
+            url: nextPageUrl,
+            userData: {
+                ...request.userData,
+                pageNumber: pageNumber + 1,
+            },
+        }]);
+
+        log.info(`Enqueued next search page for query "${query}": offset ${currentOffset + pageSize}`);
+    }
+});
+
 /**
  * Handle direct product URLs - extract product data directly without navigation
  */
@@ -301,11 +411,18 @@ router.addHandler('PRODUCT_URL', async ({ log, request, $, body }) => {
         const isBlocked = await detectAndHandleBlocking({ $, response: request });
         if (isBlocked) {
             log.warning('Blocking detected on product page');
+            actorStatistics.recordBlocked(country.code);
+            return;
+        }
+
+        if (outputFormatter.isCanonical()) {
+            const saved = await saveCanonicalProduct($, body as string, request.loadedUrl as string, country, log);
+            if (saved) log.info(`Saved canonical product from direct URL - ${request.loadedUrl}`);
             return;
         }
         
         // Use smart extractor to get product data
-        const extractedData = SmartDataExtractor.extract(body as string, $);
+        const extractedData = SmartDataExtractor.extract(body as string, $, { route: label, market: country.code });
         
         if (extractedData && extractedData.products.length > 0) {
             const product = extractedData.products[0];
@@ -329,6 +446,7 @@ router.addHandler('PRODUCT_URL', async ({ log, request, $, body }) => {
             const rawProduct = {
                 company: COMPANY,
                 country: country.name,
+                market: country.code,
                 productName: DataSanitizer.sanitizeString(product.title),
                 articleNo: DataSanitizer.sanitizeProductId(product.articleCode),
                 division: DataSanitizer.sanitizeString(product.category),
@@ -336,34 +454,24 @@ router.addHandler('PRODUCT_URL', async ({ log, request, $, body }) => {
                 subCategory: DataSanitizer.sanitizeString(product.category),
                 listPrice: DataSanitizer.sanitizeNumber(product.regularPrice),
                 salePrice: product.redPrice ? DataSanitizer.sanitizeNumber(product.redPrice) : null,
-                currency: DataSanitizer.sanitizeCurrency(country.currency),
-                description: DataSanitizer.sanitizeString($('.product-description').text() || ''),
+                currency: DataSanitizer.sanitizeCurrency(getMarketCurrency(country.code)),
+                description: DataSanitizer.sanitizeString($(extractionRules.get().productPage.description).text() || ''),
                 url: DataSanitizer.sanitizeUrl(request.loadedUrl as string),
                 imageUrl: DataSanitizer.sanitizeUrl(product.imageUrl),
                 timestamp,
                 colors: product.colors,
                 sizes: product.sizes,
-                materials: DataSanitizer.sanitizeStringArray($('.product-details-material').text().split(',')),
+                materials: DataSanitizer.sanitizeStringArray($(extractionRules.get().productPage.materials).text().split(',')),
                 inStock: DataSanitizer.sanitizeBoolean(true), // Assume in stock if product is displayed
-                sustainable: DataSanitizer.sanitizeBoolean($('.sustainable-style').length > 0),
+                sustainable: DataSanitizer.sanitizeBoolean($(extractionRules.get().productPage.sustainable).length > 0),
             };
             
-            // Sanitize the entire product
-            const sanitizedProduct = DataSanitizer.sanitizeProduct(rawProduct);
-            
             // Validate and save
-            const cleanedProduct = cleanAndValidateProduct(sanitizedProduct);
-            if (cleanedProduct) {
-                const qualityScore = calculateProductQualityScore(cleanedProduct);
-                DataQualityMonitor.recordProduct(cleanedProduct, true, qualityScore);
-                
-                const saved = await progressiveDataSaver.addProduct(cleanedProduct);
-                if (saved) {
-                    actorStatistics.incrementCounter(1);
-                    log.info(`Saved product from direct URL: ${cleanedProduct.productName} (${cleanedProduct.articleNo})`);
-                }
-            } else {
-                log.warning('Product validation failed for direct URL');
+            const source = { route: label, url: request.loadedUrl ?? request.url };
+            const saved = await progressiveDataSaver.addProduct(rawProduct, source, product.sizes);
+            if (saved) {
+                actorStatistics.incrementCounter(1, country.code);
+                log.info(`Saved product from direct URL: ${rawProduct.productName} (${rawProduct.articleNo})`);
             }
         } else {
             log.warning('Could not extract product data from URL');
@@ -373,6 +481,34 @@ router.addHandler('PRODUCT_URL', async ({ log, request, $, body }) => {
     }
 });
 
+/**
+ * Product page of a watched article.
+ * Records price and per-size availability and compares them with the previous check.
+ */
+router.addHandler(Labels.WATCHLIST, async ({ log, request, response, $, body }) => {
+    const { articleNo, country, label } = request.userData;
+    const url = request.loadedUrl ?? request.url;
+    log.info(`${label}: article ${articleNo}, country: ${country.name} - ${url}`);
+
+    if (response.statusCode === 404) {
+        await watchlistMonitor.recordCheck(createMissingSnapshot(articleNo, country, url));
+        return;
+    }
+
+    const isBlocked = await detectAndHandleBlocking({ $, response: request });
+    if (isBlocked) {
+        throw new Error(`Blocking detected on watched product page ${url}`);
+    }
+
+    try {
+        const changes = await watchlistMonitor.recordCheck(parseWatchSnapshot($, body as string, articleNo, country, url));
+        log.debug(`Article ${articleNo} (${country.code}): ${changes.map(({ type }) => type).join(', ') || 'unchanged'}`);
+    } catch (error: any) {
+        // The previous snapshot stays, a page that cannot be parsed says nothing about stock
+        log.warning(`Could not check watched article ${articleNo} (${country.code}): ${error.message}`);
+    }
+});
+
 /**
  * Product detail page.
  * Saves product details to dataset with progressive saving and quality monitoring.
@@ -387,12 +523,25 @@ router.addHandler(Labels.PRODUCT, async ({ log, request, $, body, crawler }) =>
         const isBlocked = await detectAndHandleBlocking({ $, response: request });
         if (isBlocked) {
             log.warning('Blocking detected, skipping product page');
+            actorStatistics.recordBlocked(country.code);
             return;
         }
 
         // Schedule request with smart rate limiting
         await smartScheduler.scheduleRequest();
 
+        // Canonical output mode emits one full CanonicalProduct record per product page
+        if (outputFormatter.isCanonical()) {
+            await saveCanonicalProduct($, body as string, request.loadedUrl as string, country, log);
+            smartScheduler.recordSuccess();
+
+            if (actorStatistics.hasReachedLimit(country.code)) {
+                log.info('Product limit reached. Aborting crawl.');
+                await crawler.autoscaledPool?.abort();
+            }
+            return;
+        }
+
         const timestamp = new Date().toISOString();
 
         // Enhanced product info extraction with error handling
@@ -439,12 +588,12 @@ router.addHandler(Labels.PRODUCT, async ({ log, request, $, body, crawler }) =>
         const combinationImages = getAllCombinationImages($);
 
         // Check if we've already reached the limit before processing this product
-        if (actorStatistics.hasReachedLimit()) {
+        if (actorStatistics.hasReachedLimit(country.code)) {
             log.info('Product limit reached. Skipping remaining products.');
             return;
         }
 
-        const remaining = actorStatistics.remainingToLimit();
+        const remaining = actorStatistics.remainingToLimit(country.code);
         const sliceTo = remaining === null ? combinationInfo.length : remaining;
 
         // Process products with enhanced quality monitoring
@@ -457,14 +606,15 @@ router.addHandler(Labels.PRODUCT, async ({ log, request, $, body, crawler }) =>
                 description,
                 urlPath,
                 imageUrl: combinationImageUrl,
+                colorName,
+                sizes,
+                sizeVariants,
             } = combination;
 
             const url = new URL(urlPath, BASE_URL);
-            const uniqueProductKey = `${articleNo}_${country.code}`;
 
             // Some products have duplicates, everything should be scraped only once
-            if (scrapedProducts[uniqueProductKey]) continue;
-            scrapedProducts[uniqueProductKey] = true;
+            if (!productDedup.markHandled(label, { articleNo, market: country.code })) continue;
 
             // Try to get image from miniature if possible
             const imageUrl = combinationImages[articleNo] ? getMainImageFromMiniature(combinationImages[articleNo]) : combinationImageUrl;
@@ -472,6 +622,7 @@ router.addHandler(Labels.PRODUCT, async ({ log, request, $, body, crawler }) =>
             const rawProduct = {
                 company: COMPANY,
                 country: country.name,
+                market: country.code,
                 productName,
                 articleNo: parseInt(combination.articleNo, 10),
                 division,
@@ -479,36 +630,27 @@ router.addHandler(Labels.PRODUCT, async ({ log, request, $, body, crawler }) =>
                 subCategory,
                 listPrice,
                 salePrice,
-                currency: country.currency,
+                currency: getMarketCurrency(country.code),
                 description,
                 url: url.toString(),
                 imageUrl,
                 timestamp,
+                colors: colorName ? [colorName] : [],
+                sizes,
             };
 
-            // Clean and validate product
-            const cleanedProduct = cleanAndValidateProduct(rawProduct);
-            if (!cleanedProduct) {
-                log.warning('Product validation failed, skipping:', rawProduct);
-                DataQualityMonitor.recordProduct(rawProduct as any, false, 0);
-                continue;
-            }
-
-            // Calculate quality score
-            const qualityScore = calculateProductQualityScore(cleanedProduct);
-            DataQualityMonitor.recordProduct(cleanedProduct, true, qualityScore);
-
-            // Save product progressively
-            const saved = await progressiveDataSaver.addProduct(cleanedProduct);
+            // Clean, validate and save product progressively
+            const source = { route: label, url: request.loadedUrl ?? request.url };
+            const saved = await progressiveDataSaver.addProduct(rawProduct, source, sizeVariants);
             if (saved) {
                 savedCount++;
-                actorStatistics.incrementCounter(1);
+                actorStatistics.incrementCounter(1, country.code);
 
-                log.debug(`Saved product: ${cleanedProduct.productName} (${cleanedProduct.articleNo}) - Quality: ${qualityScore}`);
+                log.debug(`Saved product: ${productName} (${articleNo})`);
             }
 
             // Check limit after each product
-            if (actorStatistics.hasReachedLimit()) {
+            if (actorStatistics.hasReachedLimit(country.code)) {
                 log.info('Product limit reached during processing.');
                 break;
             }
@@ -519,7 +661,7 @@ router.addHandler(Labels.PRODUCT, async ({ log, request, $, body, crawler }) =>
         // Record success in scheduler for adaptive behavior
         smartScheduler.recordSuccess();
 
-        if (actorStatistics.hasReachedLimit()) {
+        if (actorStatistics.hasReachedLimit(country.code)) {
             log.info('Product limit reached. Aborting crawl.');
             await crawler.autoscaledPool?.abort();
         }
@@ -0,0 +1,131 @@
+import { log } from 'crawlee';
+import { CanonicalProduct } from './canonical_schema.js';
+import { dataSinks } from './data_sinks.js';
+import { ProductData } from './data_validation.js';
+import { productDedup } from './dedup.js';
+
+/**
+ * Save buffer
+ * Records the progressive saver collects between saves, deduplicated as they are buffered,
+ * and the retry of a failed write of the primary output sink
+ */
+
+/**
+ * Records taken out of the buffer for a save
+ */
+export interface BufferedRecords {
+    products: ProductData[];
+    canonicalProducts: Partial<CanonicalProduct>[];
+    held: Record<string, any>[];
+}
+
+export class SaveBuffer {
+    private products: ProductData[] = [];
+    private canonicalProducts: Partial<CanonicalProduct>[] = [];
+    // Records of merge policies that update saved records, held by dedup key until the end of the run
+    // so their updates replace them before they are written
+    private held = new Map<string, Record<string, any>>();
+
+    addProduct(record: ProductData, deduplicate: boolean): boolean {
+        return this.add(this.products, record, deduplicate);
+    }
+
+    addCanonicalProduct(record: Partial<CanonicalProduct>, deduplicate: boolean): boolean {
+        return this.add(this.canonicalProducts, record, deduplicate);
+    }
+
+    /**
+     * Buffer a record unless it is a duplicate. With a merge policy that updates saved records, records are held
+     * until the end of the run and an update replaces the held record, so every product is written once.
+     * Returns true for new records.
+     */
+    private add<T extends Record<string, any>>(buffer: T[], record: T, deduplicate: boolean): boolean {
+        if (!deduplicate) {
+            buffer.push(record);
+            return true;
+        }
+
+        const { status, key, record: accepted } = productDedup.accept(record);
+        if (status === 'duplicate') return false;
+
+        if (!productDedup.canUpdate()) {
+            buffer.push(accepted);
+        } else if (status === 'new' || this.held.has(key)) {
+            this.held.set(key, accepted);
+        } else {
+            // Held records are written before a migration, the version written then stays
+            log.debug(`Update of ${key} dropped, the record was written before a migration`);
+        }
+        return status === 'new';
+    }
+
+    /**
+     * Number of buffered records, without the held ones
+     */
+    getSize(): number {
+        return this.products.length + this.canonicalProducts.length;
+    }
+
+    getHeldCount(): number {
+        return this.held.size;
+    }
+
+    /**
+     * Whether a save has records to write, with `final` also the held records
+     */
+    hasRecords(final: boolean): boolean {
+        return this.getSize() > 0 || (final && this.held.size > 0);
+    }
+
+    /**
+     * Take the buffered records out, with `final` also the held records
+     */
+    take(final: boolean): BufferedRecords {
+        const held = final ? [...this.held.values()] : [];
+        if (final) this.held.clear();
+
+        return {
+            products: this.products.splice(0),
+            canonicalProducts: this.canonicalProducts.splice(0),
+            held,
+        };
+    }
+
+    /**
+     * Put records of a failed save back, ahead of the records buffered meanwhile
+     */
+    restore({ products, canonicalProducts, held }: BufferedRecords): void {
+        this.products.unshift(...products);
+        this.canonicalProducts.unshift(...canonicalProducts);
+        for (const record of held) {
+            this.held.set(productDedup.getKey(record), record);
+        }
+    }
+}
+
+/**
+ * Retry the failed write of the primary output sink with exponential backoff, its records are pending in the sink.
+ * Returns the records it wrote, none when every attempt failed.
+ */
+export const retryPrimaryWrite = async (maxRetries: number): Promise<Record<string, any>[]> => {
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+        try {
+            const delay = 2 ** attempt * 1000; // Exponential backoff
+            log.info(`Retrying save in ${delay}ms (attempt ${attempt}/${maxRetries})`);
+
+            await new Promise((resolve) => setTimeout(resolve, delay));
+            const written = await dataSinks.retryPrimary();
+
+            log.info(`Retry save successful: ${written.length} products saved`);
+            return written;
+        } catch (error: any) {
+            log.error(`Retry attempt ${attempt} failed:`, error);
+
+            if (attempt === maxRetries) {
+                log.error('All retry attempts failed, the products stay pending until the next write of the output sinks');
+            }
+        }
+    }
+
+    return [];
+};
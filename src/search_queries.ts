@@ -0,0 +1,59 @@
+import { Actor } from 'apify';
+import { log } from 'crawlee';
+
+/**
+ * Search query matches
+ * A product is saved once, with the first search query that surfaced it. Every query that matched a product
+ * is kept here and saved as one query → products mapping at the end of the run.
+ */
+
+export const SEARCH_QUERY_MATCHES_KEY = 'SEARCH_QUERY_MATCHES';
+
+export interface SearchQueryProduct {
+    articleNo: string;
+    market: string;
+}
+
+export interface SearchQueryMatches {
+    generatedAt: string;
+    // Products matched by each query, in the order they were found
+    queries: Record<string, SearchQueryProduct[]>;
+}
+
+class SearchQueryTracker {
+    private matches = new Map<string, Map<string, SearchQueryProduct>>();
+
+    /**
+     * Record that a query matched a product, also when the product was saved for an earlier query
+     */
+    record(query: string, product: SearchQueryProduct): void {
+        const products = this.matches.get(query) ?? new Map<string, SearchQueryProduct>();
+        products.set(`${product.articleNo}_${product.market}`, product);
+        this.matches.set(query, products);
+    }
+
+    getMatches(): SearchQueryMatches {
+        const queries: Record<string, SearchQueryProduct[]> = {};
+        for (const [query, products] of this.matches) {
+            queries[query] = [...products.values()];
+        }
+
+        return { generatedAt: new Date().toISOString(), queries };
+    }
+
+    /**
+     * Save the mapping to the default key-value store, runs without search queries save nothing
+     */
+    async persist(): Promise<void> {
+        if (this.matches.size === 0) return;
+
+        await Actor.setValue(SEARCH_QUERY_MATCHES_KEY, this.getMatches());
+        log.info(`Search query matches of ${this.matches.size} queries saved to ${SEARCH_QUERY_MATCHES_KEY}`);
+    }
+
+    reset() {
+        this.matches.clear();
+    }
+}
+
+export const searchQueryTracker = new SearchQueryTracker();
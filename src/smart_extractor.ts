@@ -1,4 +1,7 @@
 import { log } from 'crawlee';
+import { ExtractionContext, ExtractionStrategy, extractionTelemetry } from './extraction_telemetry.js';
+import { extractionRules, ListingField, ListingRules, readFirst, VariantRule } from './extraction_rules.js';
+import { getSizeStock, SizeStock } from './variants.js';
 
 export interface ProductData {
     articleCode: string;
@@ -9,7 +12,7 @@ export interface ProductData {
     category: string;
     imageUrl: string;
     colors?: Array<{ name: string; code: string }>;
-    sizes?: Array<{ code: string; name: string }>;
+    sizes?: Array<{ code: string; name: string; stock: SizeStock }>;
 }
 
 export interface ExtractedPageData {
@@ -26,78 +29,50 @@ export interface ExtractedPageData {
  */
 export class SmartDataExtractor {
     /**
-     * Primary extraction method using Next.js __NEXT_DATA__
+     * Parsed __NEXT_DATA__ of a page, null when the page has none
      */
-    static extractFromNextJs(html: string): ExtractedPageData | null {
-        try {
-            // Try multiple regex patterns for Next.js data
-            const patterns = [
-                /<script id="__NEXT_DATA__" type="application\/json">(.+?)<\/script>/s,
-                /<script id="__NEXT_DATA__"[^>]*>(.+?)<\/script>/s,
-                /<script[^>]*type="application\/json"[^>]*id="__NEXT_DATA__"[^>]*>(.+?)<\/script>/s,
-            ];
-
-            let jsonData: any = null;
-            for (const pattern of patterns) {
-                const match = html.match(pattern);
-                if (match && match[1]) {
-                    try {
-                        jsonData = JSON.parse(match[1]);
-                        break;
-                    } catch (e) {
-                        log.debug(`Failed to parse JSON with pattern: ${pattern}`);
-                    }
+    static parseNextData(html: string): any | null {
+        // Try multiple regex patterns for Next.js data
+        for (const pattern of extractionRules.get().nextData.scriptPatterns) {
+            const match = html.match(new RegExp(pattern, 's'));
+            if (match && match[1]) {
+                try {
+                    return JSON.parse(match[1]);
+                } catch (e) {
+                    log.debug(`Failed to parse JSON with pattern: ${pattern}`);
                 }
             }
+        }
 
-            if (!jsonData) return null;
-
-            // Navigate through possible data structures
-            const pathsToTry = [
-                ['props', 'pageProps', 'plpProps', 'productListingProps'],
-                ['props', 'pageProps', 'productListingProps'],
-                ['props', 'pageProps', 'products'],
-                ['pageProps', 'plpProps', 'productListingProps'],
-            ];
-
-            let productData: any = null;
-            for (const path of pathsToTry) {
-                let current = jsonData;
-                for (const key of path) {
-                    if (current && current[key]) {
-                        current = current[key];
-                    } else {
-                        current = null;
-                        break;
-                    }
-                }
-                if (current && (current.hits || current.products)) {
-                    productData = current;
-                    break;
-                }
-            }
+        return null;
+    }
+
+    /**
+     * Primary extraction method using Next.js __NEXT_DATA__
+     */
+    static extractFromNextJs(html: string): ExtractedPageData | null {
+        const jsonData = this.parseNextData(html);
+        return jsonData ? this.extractFromNextData(jsonData) : null;
+    }
 
+    /**
+     * Extract products from parsed __NEXT_DATA__
+     */
+    static extractFromNextData(jsonData: any): ExtractedPageData | null {
+        try {
+            const { nextData, listing } = extractionRules.get();
+            const productData = this.findListing(jsonData);
             if (!productData) return null;
 
-            const products = (productData.hits || productData.products || []).map((p: any) => ({
-                articleCode: p.articleCode || p.code || p.id,
-                title: p.title || p.name || p.productName,
-                pdpUrl: p.pdpUrl || p.url || p.link,
-                regularPrice: p.regularPrice || p.price || p.whitePrice,
-                redPrice: p.redPrice || p.salePrice || p.discountedPrice,
-                category: p.category || p.categoryName,
-                imageUrl: p.imageProductSrc || p.imageUrl || p.image,
-                colors: p.swatches?.map((s: any) => ({ name: s.colorName, code: s.hexColor })),
-                sizes: p.sizes?.map((s: any) => ({ code: s.sizeCode, name: s.name })),
-            }));
+            const products = this.mapProducts(readFirst(productData, listing.products) || [], listing);
 
             return {
                 products,
-                totalProducts: productData.totalHits || productData.total || products.length,
-                currentPage: productData.pagination?.currentPage || 1,
-                totalPages: productData.pagination?.totalPages || 1,
-                filters: productData.facets || productData.filters || {},
-                nextPageUrl: productData.nextPageUrl,
+                totalProducts: readFirst(productData, listing.totalProducts) || products.length,
+                currentPage: readFirst(productData, nextData.currentPage) || 1,
+                totalPages: readFirst(productData, nextData.totalPages) || 1,
+                filters: readFirst(productData, listing.filters) || {},
+                nextPageUrl: readFirst(productData, nextData.nextPageUrl),
             };
         } catch (error) {
             log.debug('NextJS extraction failed:', error as any);
@@ -105,21 +80,28 @@ export class SmartDataExtractor {
         }
     }
 
+    /**
+     * Product listing object of parsed __NEXT_DATA__, the first listing path holding products
+     */
+    static findListing(jsonData: any): any | null {
+        const { nextData, listing } = extractionRules.get();
+
+        for (const path of nextData.listingPaths) {
+            const current = readFirst(jsonData, [path]);
+            if (current && readFirst(current, listing.products)) return current;
+        }
+
+        return null;
+    }
+
     /**
      * Fallback: Extract from window object assignments
      */
     static extractFromWindowObject(html: string): ExtractedPageData | null {
         try {
             // Look for window.* assignments
-            const patterns = [
-                /window\.productList\s*=\s*(\{[\s\S]*?\});/,
-                /window\.__INITIAL_STATE__\s*=\s*(\{[\s\S]*?\});/,
-                /window\.HM_DATA\s*=\s*(\{[\s\S]*?\});/,
-                /window\.pageData\s*=\s*(\{[\s\S]*?\});/,
-            ];
-
-            for (const pattern of patterns) {
-                const match = html.match(pattern);
+            for (const pattern of extractionRules.get().windowObject.patterns) {
+                const match = html.match(new RegExp(pattern));
                 if (match && match[1]) {
                     try {
                         // Clean and parse JSON
@@ -127,7 +109,7 @@ export class SmartDataExtractor {
                             .replace(/undefined/g, 'null')
                             .replace(/'/g, '"')
                             .replace(/(\w+):/g, '"$1":');
-                        
+
                         const data = JSON.parse(cleanJson);
                         // Process similar to NextJS extraction
                         return this.processRawData(data);
@@ -150,20 +132,14 @@ export class SmartDataExtractor {
         try {
             const pattern = /<script type="application\/ld\+json">(.+?)<\/script>/gs;
             const matches = html.matchAll(pattern);
-            
+
             for (const match of matches) {
                 try {
                     const data = JSON.parse(match[1]);
-                    if (data['@type'] === 'ItemList' || data['@type'] === 'ProductList') {
-                        const products = (data.itemListElement || []).map((item: any) => ({
-                            articleCode: item.sku || item.productID,
-                            title: item.name,
-                            pdpUrl: item.url,
-                            regularPrice: item.offers?.price,
-                            category: item.category,
-                            imageUrl: item.image,
-                        }));
-                        
+                    const { jsonLd } = extractionRules.get();
+                    if (jsonLd.listTypes.includes(data['@type'])) {
+                        const products = (readFirst(data, jsonLd.items) || []).map((item: any) => this.mapFields(item, jsonLd.fields));
+
                         return {
                             products,
                             totalProducts: products.length,
@@ -189,36 +165,29 @@ export class SmartDataExtractor {
     static extractFromDataAttributes($: any): ExtractedPageData | null {
         try {
             const products: ProductData[] = [];
-            
+            const rules = extractionRules.get().dataAttributes;
+
             // Try various product container selectors
-            const selectors = [
-                '[data-product]',
-                '[data-article-code]',
-                '[data-product-id]',
-                '.product-item[data-article]',
-                'article[data-test="product-card"]',
-            ];
-
-            for (const selector of selectors) {
+            for (const selector of rules.cardSelectors) {
                 const items = $(selector);
                 if (items.length > 0) {
                     items.each((i: number, elem: any) => {
                         const $elem = $(elem);
                         const product: ProductData = {
-                            articleCode: $elem.data('article-code') || $elem.data('product-id') || $elem.data('article'),
-                            title: $elem.find('[data-test="product-title"], .product-title, h2, h3').first().text().trim(),
-                            pdpUrl: $elem.find('a').first().attr('href') || '',
-                            regularPrice: $elem.find('[data-test="product-price"], .price, .regular-price').first().text().trim(),
-                            redPrice: $elem.find('.sale-price, .red-price').text().trim() || undefined,
-                            category: $elem.data('category') || '',
-                            imageUrl: $elem.find('img').first().attr('src') || $elem.find('img').first().data('src') || '',
+                            articleCode: rules.articleCodeAttributes.map((attribute) => $elem.data(attribute)).find(Boolean),
+                            title: $elem.find(rules.title).first().text().trim(),
+                            pdpUrl: $elem.find(rules.link).first().attr('href') || '',
+                            regularPrice: $elem.find(rules.price).first().text().trim(),
+                            redPrice: $elem.find(rules.salePrice).text().trim() || undefined,
+                            category: $elem.data(rules.categoryAttribute) || '',
+                            imageUrl: $elem.find(rules.image).first().attr('src') || $elem.find(rules.image).first().data('src') || '',
                         };
-                        
+
                         if (product.articleCode && product.title) {
                             products.push(product);
                         }
                     });
-                    
+
                     if (products.length > 0) break;
                 }
             }
@@ -238,13 +207,43 @@ export class SmartDataExtractor {
         }
     }
 
+    /**
+     * Extract products from the JSON response of the search endpoint (search.display.json)
+     */
+    static extractFromSearchResponse(response: any): ExtractedPageData | null {
+        try {
+            const data = typeof response === 'string' ? JSON.parse(response) : response;
+            if (!data || typeof data !== 'object') return null;
+
+            const { search } = extractionRules.get();
+            const rawProducts = readFirst(data, search.products);
+            if (!Array.isArray(rawProducts)) return null;
+
+            const products = this.mapProducts(rawProducts, search);
+
+            const totalProducts = readFirst(data, search.totalProducts) || products.length;
+            const pageSize = readFirst(data, search.pageSize) || products.length || 1;
+
+            return {
+                products,
+                totalProducts,
+                currentPage: Math.floor((readFirst(data, search.offset) || 0) / pageSize) + 1,
+                totalPages: Math.ceil(totalProducts / pageSize),
+                filters: readFirst(data, search.filters) || {},
+            };
+        } catch (error) {
+            log.debug('Search response extraction failed:', error as any);
+            return null;
+        }
+    }
+
     /**
      * Process raw data into standard format
      */
     private static processRawData(data: any): ExtractedPageData {
         // Generic processor for various data structures
         const products: ProductData[] = [];
-        
+
         // Find products array in data
         const findProducts = (obj: any): any[] => {
             if (Array.isArray(obj)) return obj;
@@ -261,18 +260,11 @@ export class SmartDataExtractor {
         };
 
         const rawProducts = findProducts(data);
-        
+        const { fields } = extractionRules.get().listing;
+
         for (const p of rawProducts) {
             if (p && typeof p === 'object') {
-                products.push({
-                    articleCode: p.articleCode || p.code || p.id || p.sku,
-                    title: p.title || p.name || p.productName,
-                    pdpUrl: p.pdpUrl || p.url || p.link,
-                    regularPrice: p.regularPrice || p.price || p.whitePrice,
-                    redPrice: p.redPrice || p.salePrice,
-                    category: p.category || p.categoryName,
-                    imageUrl: p.imageProductSrc || p.imageUrl || p.image,
-                });
+                products.push(this.mapFields(p, fields));
             }
         }
 
@@ -286,32 +278,64 @@ export class SmartDataExtractor {
     }
 
     /**
-     * Main extraction method with all fallbacks
+     * Product fields by their fallback chains, fields with an empty chain are left out
      */
-    static extract(html: string, $?: any): ExtractedPageData | null {
+    private static mapFields(item: any, fields: Record<ListingField, string[]>): ProductData {
+        const product: Record<string, unknown> = {};
+        for (const [field, chain] of Object.entries(fields)) {
+            if (chain.length > 0) product[field] = readFirst(item, chain);
+        }
+        return product as unknown as ProductData;
+    }
+
+    private static mapVariants(item: any, rule: VariantRule): Array<{ name: string; code: string; variant: any }> | undefined {
+        const variants = readFirst(item, rule.path);
+        return Array.isArray(variants)
+            ? variants.map((variant: any) => ({ name: readFirst(variant, rule.name), code: readFirst(variant, rule.code), variant }))
+            : undefined;
+    }
+
+    private static mapProducts(rawProducts: any[], rules: ListingRules): ProductData[] {
+        return rawProducts.map((p: any) => ({
+            ...this.mapFields(p, rules.fields),
+            colors: this.mapVariants(p, rules.colors)?.map(({ name, code }) => ({ name, code })),
+            sizes: this.mapVariants(p, rules.sizes)?.map(({ name, code, variant }) => ({ code, name, stock: getSizeStock(variant) })),
+        }));
+    }
+
+    /**
+     * Main extraction method with all fallbacks.
+     * With a context, the successful strategy is counted and __NEXT_DATA__ is checked for schema drift.
+     */
+    static extract(html: string, $?: any, context?: ExtractionContext): ExtractedPageData | null {
         log.debug('Starting smart extraction...');
-        
+
+        const nextData = this.parseNextData(html);
+        if (context) extractionTelemetry.checkNextData(nextData, context);
+
         // Try each extraction method in order
-        const methods = [
-            () => this.extractFromNextJs(html),
-            () => this.extractFromWindowObject(html),
-            () => this.extractFromJsonLd(html),
-            () => $ ? this.extractFromDataAttributes($) : null,
+        const methods: [ExtractionStrategy, () => ExtractedPageData | null][] = [
+            ['nextJs', () => (nextData ? this.extractFromNextData(nextData) : null)],
+            ['windowObject', () => this.extractFromWindowObject(html)],
+            ['jsonLd', () => this.extractFromJsonLd(html)],
+            ['dataAttributes', () => ($ ? this.extractFromDataAttributes($) : null)],
         ];
 
-        for (const [index, method] of methods.entries()) {
+        for (const [strategy, method] of methods) {
             try {
                 const result = method();
                 if (result && result.products.length > 0) {
-                    log.debug(`Extraction successful with method ${index + 1}`);
+                    log.debug(`Extraction successful with strategy ${strategy}`);
+                    if (context) extractionTelemetry.recordStrategy(strategy, context);
                     return result;
                 }
             } catch (error) {
-                log.debug(`Extraction method ${index + 1} failed:`, error as any);
+                log.debug(`Extraction strategy ${strategy} failed:`, error as any);
             }
         }
 
         log.warning('All extraction methods failed');
+        if (context) extractionTelemetry.recordStrategy('none', context);
         return null;
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,314 @@
+import { Actor } from 'apify';
+import { log } from 'crawlee';
+import initSqlJs, { Database, SqlValue } from 'sql.js';
+import { getVariantId } from './variants.js';
+import type { ResolvedInput } from './input.js';
+
+/**
+ * SQLite output sink
+ * Upserts saved products into a local SQLite database with normalized tables (products, variants,
+ * prices, images, categories), stored as a key-value store record when the run ends
+ */
+
+export const DEFAULT_SQLITE_RECORD_KEY = 'products.sqlite';
+
+const SQLITE_CONTENT_TYPE = 'application/vnd.sqlite3';
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS categories (
+    id INTEGER PRIMARY KEY,
+    division TEXT NOT NULL,
+    category TEXT NOT NULL,
+    sub_category TEXT NOT NULL,
+    UNIQUE (division, category, sub_category)
+);
+CREATE TABLE IF NOT EXISTS products (
+    article_no TEXT NOT NULL,
+    market TEXT NOT NULL,
+    name TEXT,
+    description TEXT,
+    url TEXT,
+    category_id INTEGER REFERENCES categories (id),
+    currency TEXT,
+    list_price REAL,
+    sale_price REAL,
+    in_stock INTEGER,
+    change_type TEXT,
+    first_seen_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (article_no, market)
+);
+CREATE TABLE IF NOT EXISTS variants (
+    article_no TEXT NOT NULL,
+    market TEXT NOT NULL,
+    size TEXT NOT NULL,
+    variant_id TEXT,
+    sku TEXT,
+    size_system TEXT,
+    stock TEXT,
+    PRIMARY KEY (article_no, market, size)
+);
+CREATE TABLE IF NOT EXISTS prices (
+    article_no TEXT NOT NULL,
+    market TEXT NOT NULL,
+    observed_at TEXT NOT NULL,
+    list_price REAL,
+    sale_price REAL,
+    currency TEXT,
+    PRIMARY KEY (article_no, market, observed_at)
+);
+CREATE TABLE IF NOT EXISTS images (
+    article_no TEXT NOT NULL,
+    market TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    url TEXT NOT NULL,
+    type TEXT,
+    PRIMARY KEY (article_no, market, position)
+);
+`;
+
+/**
+ * Rows of one saved record, legacy, variant and canonical records alike
+ */
+export interface SqliteRecordRows {
+    product: {
+        articleNo: string;
+        market: string;
+        name: string | null;
+        description: string | null;
+        url: string | null;
+        currency: string | null;
+        listPrice: number | null;
+        salePrice: number | null;
+        inStock: boolean | null;
+        changeType: string | null;
+        observedAt: string;
+    };
+    category: { division: string, category: string, subCategory: string } | null;
+    // Variant records carry a single size, their other sizes are saved by their own records
+    isVariantRecord: boolean;
+    variants: { size: string, variantId: string | null, sku: string | null, sizeSystem: string | null, stock: string | null }[];
+    images: { url: string, type: string | null }[];
+}
+
+const toText = (value: unknown): string | null => (value === undefined || value === null || value === '' ? null : String(value));
+
+const toNumber = (value: unknown): number | null => (typeof value === 'number' && Number.isFinite(value) ? value : null);
+
+/**
+ * Split a saved record into the rows of the normalized tables, null for records without article and market
+ */
+export const toSqliteRows = (record: Record<string, any>): SqliteRecordRows | null => {
+    const articleNo = toText(record.articleNo ?? record.productId);
+    const market = toText(record.market);
+    if (!articleNo || !market) return null;
+
+    const isCanonical = !('articleNo' in record);
+    const isVariantRecord = !isCanonical && Boolean(record.variantId);
+    const division = toText(isCanonical ? record.domain : record.division);
+    const category = toText(record.category);
+    const subCategory = toText(record.subCategory);
+
+    let variants: SqliteRecordRows['variants'] = [];
+    if (isVariantRecord) {
+        // A variant record without a size still updates its product, it has no size row
+        const size = toText(record.size);
+        variants = size ? [{
+            size,
+            variantId: record.variantId,
+            sku: toText(record.sku),
+            sizeSystem: toText(record.sizeSystem),
+            stock: toText(record.sizeStock),
+        }] : [];
+    } else if (isCanonical) {
+        variants = (record.availableSizes ?? []).flatMap((size: any) => {
+            const name = toText(size?.name || size?.code);
+            return name ? [{
+                size: name,
+                variantId: size.code ? getVariantId(articleNo, size.code) : null,
+                sku: null,
+                sizeSystem: toText(record.sizeType),
+                stock: toText(size.stock),
+            }] : [];
+        });
+    } else {
+        variants = (record.sizes ?? []).map((size: string) => ({ size, variantId: null, sku: null, sizeSystem: null, stock: null }));
+    }
+
+    const images = isCanonical
+        ? (record.images ?? []).map((image: any) => ({ url: image.url, type: toText(image.type) }))
+        : [record.imageUrl].filter(Boolean).map((url: string) => ({ url, type: null }));
+
+    return {
+        product: {
+            articleNo,
+            market,
+            name: toText(record.productName ?? record.title),
+            description: toText(record.description),
+            url: toText(record.url),
+            currency: toText(record.currency),
+            listPrice: toNumber(isCanonical ? record.originalPrice ?? record.price : record.listPrice),
+            salePrice: toNumber(record.salePrice),
+            inStock: typeof record.inStock === 'boolean' ? record.inStock : null,
+            changeType: toText(record.changeType),
+            observedAt: toText(record.timestamp ?? record.scrapedAt) ?? new Date().toISOString(),
+        },
+        category: division || category || subCategory
+            ? { division: division ?? '', category: category ?? '', subCategory: subCategory ?? '' }
+            : null,
+        isVariantRecord,
+        variants: variants.filter(({ size }) => size),
+        images: images.filter(({ url }: { url?: string }) => url),
+    };
+};
+
+const getCategoryId = (db: Database, category: SqliteRecordRows['category']): number | null => {
+    if (!category) return null;
+
+    const params = [category.division, category.category, category.subCategory];
+    db.run('INSERT INTO categories (division, category, sub_category) VALUES (?, ?, ?) ON CONFLICT DO NOTHING', params);
+    const [result] = db.exec('SELECT id FROM categories WHERE division = ? AND category = ? AND sub_category = ?', params);
+    return result.values[0][0] as number;
+};
+
+const upsertRows = (db: Database, { product, category, isVariantRecord, variants, images }: SqliteRecordRows): void => {
+    const key = [product.articleNo, product.market];
+    const inStock = product.inStock === null ? null : Number(product.inStock);
+
+    db.run(`
+        INSERT INTO products (
+            article_no, market, name, description, url, category_id, currency, list_price, sale_price, in_stock, change_type, first_seen_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (article_no, market) DO UPDATE SET
+            name = COALESCE(excluded.name, name),
+            description = COALESCE(excluded.description, description),
+            url = COALESCE(excluded.url, url),
+            category_id = COALESCE(excluded.category_id, category_id),
+            currency = excluded.currency,
+            list_price = excluded.list_price,
+            sale_price = excluded.sale_price,
+            in_stock = excluded.in_stock,
+            change_type = excluded.change_type,
+            updated_at = excluded.updated_at
+    `, [
+        ...key, product.name, product.description, product.url, getCategoryId(db, category), product.currency,
+        product.listPrice, product.salePrice, inStock, product.changeType, product.observedAt, product.observedAt,
+    ]);
+
+    if (product.listPrice !== null || product.salePrice !== null) {
+        db.run(`
+            INSERT INTO prices (article_no, market, observed_at, list_price, sale_price, currency) VALUES (?, ?, ?, ?, ?, ?)
+            ON CONFLICT DO NOTHING
+        `, [...key, product.observedAt, product.listPrice, product.salePrice, product.currency]);
+    }
+
+    // Product records list all their sizes and images, sizes and images they no longer list are gone
+    if (!isVariantRecord) {
+        db.run('DELETE FROM variants WHERE article_no = ? AND market = ?', key);
+    }
+    for (const variant of variants) {
+        db.run(`
+            INSERT INTO variants (article_no, market, size, variant_id, sku, size_system, stock) VALUES (?, ?, ?, ?, ?, ?, ?)
+            ON CONFLICT (article_no, market, size) DO UPDATE SET
+                variant_id = excluded.variant_id, sku = excluded.sku, size_system = excluded.size_system, stock = excluded.stock
+        `, [...key, variant.size, variant.variantId, variant.sku, variant.sizeSystem, variant.stock]);
+    }
+
+    if (images.length > 0) {
+        db.run('DELETE FROM images WHERE article_no = ? AND market = ?', key);
+        images.forEach((image, position) => {
+            db.run('INSERT INTO images (article_no, market, position, url, type) VALUES (?, ?, ?, ?, ?)', [...key, position, image.url, image.type]);
+        });
+    }
+};
+
+/**
+ * Database with the product tables, from the bytes of a saved database or empty
+ */
+export const createProductDatabase = async (data?: Uint8Array | null): Promise<Database> => {
+    const SQL = await initSqlJs();
+    const db = new SQL.Database(data ?? undefined);
+    db.exec(SCHEMA);
+    return db;
+};
+
+/**
+ * Upsert saved records in one transaction, returns the number of records written
+ */
+export const upsertRecords = (db: Database, records: Record<string, any>[]): number => {
+    const rows = records.map(toSqliteRows).filter((row): row is SqliteRecordRows => row !== null);
+
+    db.run('BEGIN');
+    try {
+        rows.forEach((row) => upsertRows(db, row));
+        db.run('COMMIT');
+    } catch (error) {
+        db.run('ROLLBACK');
+        throw error;
+    }
+
+    return rows.length;
+};
+
+/**
+ * Rows of a query as objects
+ */
+export const queryRows = (db: Database, sql: string, params: SqlValue[] = []): Record<string, SqlValue>[] => {
+    const [result] = db.exec(sql, params);
+    if (!result) return [];
+    return result.values.map((values) => Object.fromEntries(result.columns.map((column, index) => [column, values[index]])));
+};
+
+class SqliteSink {
+    private enabled = false;
+    private recordKey = DEFAULT_SQLITE_RECORD_KEY;
+    private db?: Database;
+    private writtenCount = 0;
+
+    configure(input: ResolvedInput) {
+        this.enabled = input.sqliteOutput;
+        this.recordKey = input.sqliteRecordKey;
+
+        if (this.enabled) {
+            log.info(`SQLite output: products are upserted into key-value store record "${this.recordKey}"`);
+            // The database lives in memory until it is persisted, a migration or crash must not lose it
+            Actor.on('persistState', async () => this.persist());
+            Actor.on('migrating', async () => this.persist());
+        }
+    }
+
+    isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    /**
+     * The database of a migrated or resumed run is loaded back from its record
+     */
+    private async getDatabase(): Promise<Database> {
+        if (!this.db) {
+            const saved = await Actor.getValue<Buffer>(this.recordKey);
+            this.db = await createProductDatabase(saved ? new Uint8Array(saved) : null);
+        }
+        return this.db;
+    }
+
+    async write(records: Record<string, any>[]): Promise<void> {
+        if (!this.enabled) return;
+
+        const db = await this.getDatabase();
+        this.writtenCount += upsertRecords(db, records);
+    }
+
+    /**
+     * Store the database as a key-value store record
+     */
+    async persist(): Promise<void> {
+        if (!this.enabled || !this.db) return;
+
+        await Actor.setValue(this.recordKey, Buffer.from(this.db.export()), { contentType: SQLITE_CONTENT_TYPE });
+        const [{ count }] = queryRows(this.db, 'SELECT COUNT(*) AS count FROM products');
+        log.info(`SQLite output: ${this.writtenCount} records written, ${count} products in "${this.recordKey}"`);
+    }
+}
+
+export const sqliteSink = new SqliteSink();
@@ -1,5 +1,9 @@
 import { Request } from 'crawlee';
-import { BASE_URL, COUNTRIES, Labels } from './constants.js';
+import { Labels } from './constants.js';
+import { getMarketUrl, Market, requireMarket } from './markets.js';
+import { HMUrlBuilder } from './url_builder.js';
+import { getWatchlistRequests } from './watchlist.js';
+import type { ResolvedInput } from './input.js';
 
 /**
  * Determine if a URL is a product page
@@ -35,7 +39,7 @@ import { getMockStartUrls } from './debug.js';
  * for better performance and batch processing.
  *
  * @param useMockStartRequests - When true, return mock start URLs for local debugging.
- * @param inputCountry - Exact country name from `COUNTRIES` to target in production mode.
+ * @param inputCountry - Market code or country name from the market registry to target in production mode.
  * @returns Array of Crawlee Requests used to seed the crawler.
  */
 export const getStartUrls = (useMockStartRequests: boolean | undefined, inputCountry: string | undefined, ...extra: unknown[]): Request[] => {
@@ -50,7 +54,7 @@ export const getStartUrls = (useMockStartRequests: boolean | undefined, inputCou
 /**
  * Returns production start URLs for the given country.
  *
- * @param inputCountry - Exact country name from `COUNTRIES`.
+ * @param inputCountry - Market code or country name from the market registry.
  * @returns Array of Crawlee Requests for navigation data of the selected country.
  */
 export const getProductionStartUrls = (inputCountry:string | undefined, ...extra: unknown[]): Request[] => {
@@ -58,26 +62,89 @@ export const getProductionStartUrls = (inputCountry:string | undefined, ...extra
         throw new Error(`getProductionStartUrls expected 1 argument, received ${1 + extra.length}`);
     }
     if (!inputCountry) {
-        const supportedCountries = COUNTRIES.map((c) => c.name).join(', ');
-        throw new Error(`getProductionStartUrls: inputCountry is required. Supported countries: ${supportedCountries}`);
+        throw new Error('getProductionStartUrls: inputCountry is required');
     }
 
-    const inputCountryDetails = COUNTRIES.filter((countryDetails) => countryDetails.name === inputCountry);
+    const country = requireMarket(inputCountry);
 
-    if (inputCountryDetails.length === 0) {
-        const supportedCountries = COUNTRIES.map((c) => c.name).join(', ');
-        throw new Error(`Unsupported country: ${inputCountry}. Supported countries: ${supportedCountries}`);
+    return [new Request({
+        url: getMarketUrl(country.code, '/apis/navigation/v1/nav-data.json'),
+        userData: {
+            label: Labels.NAVIGATION,
+            country,
+        },
+    })];
+};
+
+/**
+ * Builds the start requests of a run from the resolved actor input.
+ *
+ * Direct URLs, category paths and search queries are combined. When none of them is given,
+ * the crawl starts from the navigation data of the selected country.
+ *
+ * @param input - Resolved actor input.
+ * @param country - Country the run targets.
+ * @returns Array of Crawlee Requests used to seed the crawler.
+ */
+export const getStartRequests = (input: ResolvedInput, country: Market): Request[] => {
+    if (input.useMockRequests) return getMockStartUrls();
+
+    // Watchlist mode re-checks only the watched articles
+    if (input.watchlist.length > 0) return getWatchlistRequests(input.watchlist, country);
+
+    // Discovery mode reads only the navigation data and the product counts of its categories
+    if (input.categoryDiscovery) return getProductionStartUrls(country.code);
+
+    const { filters, sortBy, productsPerPage, extractProductDetails, maxProducts, maxPages } = input;
+    const sharedUserData = { extractProductDetails, maxProducts, maxPages };
+    const requests: Request[] = [];
+
+    // 1. Direct URLs
+    for (const startUrl of input.startUrls) {
+        const url = typeof startUrl === 'string' ? startUrl : startUrl.url;
+        requests.push(createRequestFromUrl(url, country, sharedUserData));
     }
 
-    return inputCountryDetails.map((country) => {
-        return new Request({
-            url: `${BASE_URL}/${country.code}/apis/navigation/v1/nav-data.json`,
+    // 2. Category URLs
+    const baseUrl = getMarketUrl(country.code);
+    for (const category of input.categories) {
+        const categoryPath = category.startsWith('/') ? category : `/${category}`;
+        const url = new HMUrlBuilder(`${baseUrl}${categoryPath}.html`)
+            .applyFilters(filters)
+            .applySort({ sort: sortBy })
+            .build();
+
+        requests.push(new Request({
+            url,
             userData: {
-                label: Labels.NAVIGATION,
+                label: Labels.SUB_CATEGORY,
                 country,
+                category,
+                ...sharedUserData,
             },
-        });
-    });
+        }));
+    }
+
+    // 3. Search URLs
+    for (const query of input.searchQueries) {
+        const url = new HMUrlBuilder(`${baseUrl}/search-results/_jcr_content/search.display.json?q=${encodeURIComponent(query)}`)
+            .applyPagination({ offset: 0, pageSize: productsPerPage })
+            .build();
+
+        requests.push(new Request({
+            url,
+            userData: {
+                label: Labels.SEARCH_RESULTS,
+                country,
+                query,
+                ...sharedUserData,
+            },
+        }));
+    }
+
+    if (requests.length > 0) return requests;
+
+    return getProductionStartUrls(country.code);
 };
 
 export const getMainImageFromMiniature = (imageUrl: string) => {
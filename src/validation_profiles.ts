@@ -0,0 +1,146 @@
+import { log } from 'crawlee';
+import { Labels } from './constants.js';
+import {
+    cleanProduct,
+    compileValidationRules,
+    ProductData,
+    validateProductData,
+    ValidationProfileName,
+    ValidationRules,
+    VALIDATION_PROFILES,
+} from './data_validation.js';
+import { ProductSource, quarantine, toValidationQuarantineRecord } from './quarantine.js';
+import { compileRegExp } from './regexp.js';
+import type { ResolvedInput } from './input.js';
+
+/**
+ * Validation profiles
+ * Picks the validation profile of each route, applies the profile overrides of the input and
+ * quarantines every rejected product with machine-readable reasons
+ */
+
+/**
+ * Profile of the products saved by each route, routes not listed use `detail`
+ */
+export const DEFAULT_ROUTE_PROFILES: Record<string, ValidationProfileName> = {
+    [Labels.SUB_CATEGORY]: 'listing',
+    [Labels.SEARCH_RESULTS]: 'listing',
+    [Labels.PRODUCT]: 'detail',
+    PRODUCT_URL: 'detail',
+};
+
+export type ValidationProfileOverrides = Partial<Record<ValidationProfileName, { [Field in keyof ValidationRules]?: Partial<ValidationRules[Field]> }>>;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+/**
+ * Built-in profiles with the overrides of the input, rules are overridden one by one.
+ * Patterns are compiled here, once per run.
+ */
+export const mergeValidationProfiles = (overrides: ValidationProfileOverrides = {}): Record<ValidationProfileName, ValidationRules> => {
+    return Object.fromEntries(Object.entries(VALIDATION_PROFILES).map(([name, rules]) => {
+        const profileOverrides: Record<string, object> = overrides[name as ValidationProfileName] ?? {};
+        const merged = Object.fromEntries(Object.entries(rules).map(([field, rule]) => [field, { ...rule, ...profileOverrides[field] }]));
+        return [name, compileValidationRules(merged as ValidationRules)];
+    })) as Record<ValidationProfileName, ValidationRules>;
+};
+
+/**
+ * Check profile overrides and route profiles of the input against the built-in profiles
+ */
+export const validateValidationProfiles = (
+    overrides: unknown,
+    routeProfiles: unknown,
+): { isValid: boolean; errors: string[] } => {
+    const errors: string[] = [];
+    const profileNames = Object.keys(VALIDATION_PROFILES);
+
+    for (const [name, profile] of Object.entries(isPlainObject(overrides) ? overrides : {})) {
+        const defaults = VALIDATION_PROFILES[name as ValidationProfileName];
+        if (!defaults) {
+            errors.push(`validationProfiles.${name}: unknown profile, expected one of ${profileNames.join(', ')}`);
+            continue;
+        }
+
+        for (const [field, rule] of Object.entries(isPlainObject(profile) ? profile : {})) {
+            const defaultRule = defaults[field as keyof ValidationRules] as Record<string, unknown> | undefined;
+            if (!defaultRule) {
+                errors.push(`validationProfiles.${name}.${field}: unknown field`);
+                continue;
+            }
+
+            for (const [key, value] of Object.entries(isPlainObject(rule) ? rule : {})) {
+                const path = `validationProfiles.${name}.${field}.${key}`;
+                if (!(key in defaultRule)) {
+                    errors.push(`${path}: unknown rule`);
+                } else if (typeof value !== typeof defaultRule[key]) {
+                    errors.push(`${path}: must be a ${typeof defaultRule[key]}`);
+                } else if (key === 'pattern') {
+                    const { error } = compileRegExp(value as string);
+                    if (error) {
+                        errors.push(`${path}: invalid regular expression (${error})`);
+                    }
+                }
+            }
+        }
+    }
+
+    for (const [route, profile] of Object.entries(isPlainObject(routeProfiles) ? routeProfiles : {})) {
+        if (!profileNames.includes(profile as string)) {
+            errors.push(`routeValidationProfiles.${route}: received ${JSON.stringify(profile)}, expected one of ${profileNames.join(', ')}`);
+        }
+    }
+
+    return { isValid: errors.length === 0, errors };
+};
+
+class ValidationProfiles {
+    private profiles = mergeValidationProfiles();
+    private routeProfiles: Record<string, ValidationProfileName> = DEFAULT_ROUTE_PROFILES;
+
+    configure(input: ResolvedInput) {
+        this.profiles = mergeValidationProfiles(input.validationProfiles);
+        this.routeProfiles = { ...DEFAULT_ROUTE_PROFILES, ...input.routeValidationProfiles };
+    }
+
+    /**
+     * Profile name of a route
+     */
+    getProfileName(route: string): ValidationProfileName {
+        return this.routeProfiles[route] ?? 'detail';
+    }
+
+    getRules(route: string): ValidationRules {
+        return this.profiles[this.getProfileName(route)];
+    }
+
+    /**
+     * Clean a product and validate it with the profile of the route that found it.
+     * Rejected products are quarantined.
+     */
+    cleanAndValidate(rawProduct: any, source: ProductSource): ProductData | null {
+        const profile = this.getProfileName(source.route);
+
+        try {
+            const cleanedProduct = cleanProduct(rawProduct);
+            const { isValid, errors, issues } = validateProductData(cleanedProduct, this.profiles[profile]);
+            if (isValid) return cleanedProduct;
+
+            log.warning(`Product validation failed (${profile}): ${errors.join(', ')}`, {
+                productName: cleanedProduct.productName,
+                articleNo: cleanedProduct.articleNo,
+            });
+            quarantine.add(toValidationQuarantineRecord(rawProduct, cleanedProduct, issues, profile, source));
+            return null;
+        } catch (error: any) {
+            log.error('Error cleaning product data:', error);
+            const issue = { field: 'product', reason: 'invalidFormat' as const, code: 'product.invalidFormat', message: error.message };
+            quarantine.add(toValidationQuarantineRecord(rawProduct, null, [issue], profile, source));
+            return null;
+        }
+    }
+}
+
+export const validationProfiles = new ValidationProfiles();
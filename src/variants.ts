@@ -0,0 +1,114 @@
+import { log } from 'crawlee';
+import { getMarketByCode, getMarketCountryCode } from './markets.js';
+import type { ResolvedInput } from './input.js';
+
+/**
+ * Variant explosion
+ * With `includeVariants`, a product is emitted as one record per SKU (color article × size) carrying
+ * the size, its size system and stock state. `productId` links the records back to their color article.
+ */
+
+export type SizeStock = 'in' | 'low' | 'out';
+
+export interface SizeVariant {
+    code: string;
+    name: string;
+    stock: SizeStock;
+    sku?: string;
+    sizeSystem?: string;
+}
+
+/**
+ * Fields added to every variant record
+ */
+export interface VariantFields {
+    productId: string;
+    variantId: string;
+    sku: string;
+    size: string;
+    sizeSystem: string;
+    sizeStock: SizeStock;
+}
+
+/**
+ * Stock state of a size as reported by H&M
+ */
+export const getSizeStock = (size: any): SizeStock => {
+    if (size.availability === 'OutOfStock' || size.stock === 0) return 'out';
+    if (size.availability === 'LowStock' || size.stock < 10) return 'low';
+    return 'in';
+};
+
+// Size systems of the countries not selling in EU sizes, by ISO country code
+const COUNTRY_SIZE_SYSTEMS: Record<string, string> = {
+    US: 'US',
+    GB: 'UK',
+};
+
+/**
+ * Size system used in a market of the registry, EU sizes for unknown markets
+ */
+export const getSizeSystem = (market: string): string => {
+    const countryCode = getMarketByCode(market) ? getMarketCountryCode(market) : undefined;
+    return (countryCode && COUNTRY_SIZE_SYSTEMS[countryCode]) || 'EU';
+};
+
+/**
+ * H&M size codes are the article code followed by a 3-digit size suffix, some pages give only the suffix
+ */
+export const getVariantId = (articleNo: string, sizeCode: string): string => {
+    return sizeCode.startsWith(articleNo) ? sizeCode : `${articleNo}${sizeCode}`;
+};
+
+/**
+ * One record per size, sizes without code are skipped.
+ * A product without sizes stays a single record.
+ */
+export const explodeVariants = <T extends object>(
+    record: T,
+    articleNo: string | number,
+    sizes: SizeVariant[],
+    market: string,
+): (T & Partial<VariantFields>)[] => {
+    const productId = String(articleNo);
+    const variants = sizes.filter((size) => size.code);
+    if (variants.length === 0) return [record];
+
+    return variants.map((size) => {
+        const variantId = getVariantId(productId, size.code);
+        return {
+            ...record,
+            productId,
+            variantId,
+            sku: size.sku || variantId,
+            size: size.name,
+            sizeSystem: size.sizeSystem || getSizeSystem(market),
+            sizeStock: size.stock,
+        };
+    });
+};
+
+class VariantExpander {
+    private enabled = false;
+
+    configure(input: ResolvedInput) {
+        this.enabled = input.includeVariants;
+
+        if (this.enabled) {
+            log.info('Variant mode: one record per color and size');
+        }
+    }
+
+    isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    /**
+     * Variant records of a product in variant mode, the product itself otherwise
+     */
+    expand<T extends object>(record: T, articleNo: string | number, sizes: SizeVariant[] | undefined, market: string): (T & Partial<VariantFields>)[] {
+        return this.enabled ? explodeVariants(record, articleNo, sizes ?? [], market) : [record];
+    }
+}
+
+export const variantExpander = new VariantExpander();
@@ -0,0 +1,279 @@
+import { Actor, KeyValueStore } from 'apify';
+import { CheerioRoot, log, Request } from 'crawlee';
+import { Labels } from './constants.js';
+import { getCombinationsInfoFromProductObject, getProductInfoObject } from './extractors.js';
+import { extractionRules } from './extraction_rules.js';
+import { findMarket, getMarketCurrency, getMarketUrl, Market } from './markets.js';
+import { SizeStock, SizeVariant } from './variants.js';
+import type { ResolvedInput } from './input.js';
+
+/**
+ * Watchlist monitoring
+ * Re-checks the product pages of a fixed list of articles and compares price and per-size availability
+ * with the previous check. Snapshots and the change log live in a named key-value store across runs.
+ */
+
+export const DEFAULT_WATCHLIST_STORE = 'hm-watchlist';
+export const DEFAULT_WATCHLIST_DATASET = 'watchlist-checks';
+export const WATCHLIST_CHANGE_LOG_KEY = 'CHANGE_LOG';
+
+// Oldest changes are dropped beyond this, the record must stay well below the key-value store limit
+const MAX_CHANGE_LOG_ENTRIES = 10000;
+
+/**
+ * A watched article, by article number or product URL, optionally limited to some markets
+ */
+export interface WatchlistEntry {
+    articleNo?: string;
+    url?: string;
+    markets?: string[];
+}
+
+export type WatchlistInput = string | WatchlistEntry;
+
+/**
+ * Parsed watchlist entry, without markets the article is checked in every market of the run
+ */
+export interface WatchedArticle {
+    articleNo: string;
+    markets: string[];
+}
+
+/**
+ * State of a watched article in one market at one check
+ */
+export interface WatchSnapshot {
+    articleNo: string;
+    market: string;
+    productName?: string;
+    url: string;
+    found: boolean;
+    available: boolean;
+    listPrice: number | null;
+    salePrice: number | null;
+    currency: string;
+    sizes: SizeVariant[];
+    checkedAt: string;
+}
+
+export type WatchChangeType = 'firstCheck' | 'removed' | 'relisted' | 'priceChanged' | 'backInStock' | 'outOfStock' | 'sizeStockChanged';
+
+export interface WatchChange {
+    type: WatchChangeType;
+    articleNo: string;
+    market: string;
+    size?: string;
+    previous?: number | string | null;
+    current?: number | string | null;
+    previousCheckAt?: string;
+    checkedAt: string;
+}
+
+const ARTICLE_NO_PATTERN = /^\d{10}$/;
+
+const toWatchlistEntry = (entry: WatchlistInput): WatchlistEntry => {
+    if (typeof entry !== 'string') return entry ?? {};
+
+    const value = entry.trim();
+    return ARTICLE_NO_PATTERN.test(value) ? { articleNo: value } : { url: value };
+};
+
+/**
+ * Article number and market of a watchlist entry, null when the entry names no article
+ */
+export const parseWatchlistEntry = (entry: WatchlistInput): WatchedArticle | null => {
+    const { articleNo, url, markets } = toWatchlistEntry(entry);
+
+    if (articleNo) {
+        return ARTICLE_NO_PATTERN.test(articleNo) ? { articleNo, markets: markets ?? [] } : null;
+    }
+
+    const urlMatch = url?.match(/\/([a-z]{2}_[a-z]{2})\/productpage\.(\d{10})\.html/);
+    if (!urlMatch) return null;
+
+    // A product URL is checked in its own market unless the entry names markets
+    const urlMarket = findMarket(urlMatch[1]);
+    return { articleNo: urlMatch[2], markets: markets ?? (urlMarket ? [urlMarket.code] : []) };
+};
+
+/**
+ * Product page requests of the articles watched in a market
+ */
+export const getWatchlistRequests = (watchlist: WatchlistInput[], country: Market): Request[] => {
+    const articles = watchlist
+        .map(parseWatchlistEntry)
+        .filter((article): article is WatchedArticle => article !== null)
+        .filter(({ markets }) => markets.length === 0 || markets.includes(country.code));
+
+    return articles.map(({ articleNo }) => new Request({
+        url: getMarketUrl(country.code, `/productpage.${articleNo}.html`),
+        uniqueKey: `watch_${articleNo}_${country.code}`,
+        userData: {
+            label: Labels.WATCHLIST,
+            articleNo,
+            country,
+        },
+    }));
+};
+
+/**
+ * Snapshot of a watched article from its product page
+ */
+export const parseWatchSnapshot = ($: CheerioRoot, body: string, articleNo: string, country: Market, url: string): WatchSnapshot => {
+    const combinations = getCombinationsInfoFromProductObject(getProductInfoObject(body));
+    const combination = combinations.find((candidate) => candidate.articleNo === articleNo);
+    if (!combination) {
+        throw new Error(`Article ${articleNo} is not on its product page`);
+    }
+
+    const { sizeVariants: sizes } = combination;
+    return {
+        articleNo,
+        market: country.code,
+        productName: $(extractionRules.get().productPage.productName).text().trim() || undefined,
+        url,
+        found: true,
+        // Articles without sizes (e.g. beauty) are available while their page is listed
+        available: sizes.length === 0 || sizes.some((size) => size.stock !== 'out'),
+        listPrice: Number.isFinite(combination.listPrice) ? combination.listPrice : null,
+        salePrice: combination.salePrice,
+        currency: getMarketCurrency(country.code),
+        sizes,
+        checkedAt: new Date().toISOString(),
+    };
+};
+
+/**
+ * Snapshot of a watched article whose product page is gone
+ */
+export const createMissingSnapshot = (articleNo: string, country: Market, url: string): WatchSnapshot => ({
+    articleNo,
+    market: country.code,
+    url,
+    found: false,
+    available: false,
+    listPrice: null,
+    salePrice: null,
+    currency: getMarketCurrency(country.code),
+    sizes: [],
+    checkedAt: new Date().toISOString(),
+});
+
+const getEffectivePrice = ({ listPrice, salePrice }: WatchSnapshot): number | null => salePrice ?? listPrice;
+
+/**
+ * Changes between two checks of an article, a first check is a change of its own
+ */
+export const diffWatchSnapshots = (previous: WatchSnapshot | undefined, current: WatchSnapshot): WatchChange[] => {
+    const { articleNo, market, checkedAt } = current;
+    const base = { articleNo, market, previousCheckAt: previous?.checkedAt, checkedAt };
+
+    if (!previous) return [{ type: 'firstCheck', articleNo, market, checkedAt }];
+    if (previous.found && !current.found) return [{ type: 'removed', ...base }];
+
+    const changes: WatchChange[] = [];
+    if (!previous.found && current.found) changes.push({ type: 'relisted', ...base });
+
+    const previousPrice = getEffectivePrice(previous);
+    const currentPrice = getEffectivePrice(current);
+    if (previous.found && current.found && previousPrice !== currentPrice) {
+        changes.push({ type: 'priceChanged', ...base, previous: previousPrice, current: currentPrice });
+    }
+
+    if (previous.available !== current.available) {
+        changes.push({ type: current.available ? 'backInStock' : 'outOfStock', ...base });
+    }
+
+    const previousStock = new Map<string, SizeStock>(previous.sizes.map((size) => [size.code, size.stock]));
+    for (const size of current.sizes) {
+        const previousSizeStock = previousStock.get(size.code);
+        if (previousSizeStock && previousSizeStock !== size.stock) {
+            changes.push({ type: 'sizeStockChanged', ...base, size: size.name || size.code, previous: previousSizeStock, current: size.stock });
+        }
+    }
+
+    return changes;
+};
+
+class WatchlistMonitor {
+    private enabled = false;
+    private storeName = DEFAULT_WATCHLIST_STORE;
+    private datasetName = DEFAULT_WATCHLIST_DATASET;
+    private store?: KeyValueStore;
+    private snapshots = new Map<string, Record<string, WatchSnapshot>>();
+    private pendingChanges: WatchChange[] = [];
+    private checkCount = 0;
+
+    configure(input: ResolvedInput) {
+        this.enabled = input.watchlist.length > 0;
+        this.storeName = input.watchlistStoreName;
+        this.datasetName = input.watchlistDatasetName;
+
+        if (this.enabled) {
+            log.info(`Watchlist mode: checking ${input.watchlist.length} articles, snapshots in key-value store "${this.storeName}", `
+                + `checks in dataset "${this.datasetName}"`);
+        }
+    }
+
+    isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    private getRecordKey(market: string): string {
+        return `SNAPSHOTS_${market}`;
+    }
+
+    private async getStore(): Promise<KeyValueStore> {
+        this.store ??= await Actor.openKeyValueStore(this.storeName);
+        return this.store;
+    }
+
+    private async getMarket(market: string): Promise<Record<string, WatchSnapshot>> {
+        let snapshots = this.snapshots.get(market);
+        if (snapshots) return snapshots;
+
+        const store = await this.getStore();
+        snapshots = (await store.getValue<Record<string, WatchSnapshot>>(this.getRecordKey(market))) ?? {};
+        this.snapshots.set(market, snapshots);
+        return snapshots;
+    }
+
+    /**
+     * Compare a check with the previous one, save the check to the watchlist dataset and remember its changes
+     */
+    async recordCheck(snapshot: WatchSnapshot): Promise<WatchChange[]> {
+        const snapshots = await this.getMarket(snapshot.market);
+        const changes = diffWatchSnapshots(snapshots[snapshot.articleNo], snapshot);
+
+        snapshots[snapshot.articleNo] = snapshot;
+        this.pendingChanges.push(...changes);
+        this.checkCount++;
+
+        // Checks are no product records, they stay out of the product dataset
+        const dataset = await Actor.openDataset(this.datasetName);
+        await dataset.pushData({ ...snapshot, changes: changes.map(({ type }) => type) });
+        return changes;
+    }
+
+    /**
+     * Write snapshots and append the changes of this run to the change log
+     */
+    async persist(): Promise<void> {
+        if (!this.enabled || !this.store) return;
+
+        for (const [market, snapshots] of this.snapshots) {
+            await this.store.setValue(this.getRecordKey(market), snapshots);
+        }
+
+        if (this.pendingChanges.length > 0) {
+            const changeLog = (await this.store.getValue<WatchChange[]>(WATCHLIST_CHANGE_LOG_KEY)) ?? [];
+            await this.store.setValue(WATCHLIST_CHANGE_LOG_KEY, [...changeLog, ...this.pendingChanges].slice(-MAX_CHANGE_LOG_ENTRIES));
+        }
+
+        const changeCount = this.pendingChanges.filter(({ type }) => type !== 'firstCheck').length;
+        log.info(`Watchlist: ${this.checkCount} checks, ${changeCount} changes since the previous check`);
+        this.pendingChanges = [];
+    }
+}
+
+export const watchlistMonitor = new WatchlistMonitor();
@@ -0,0 +1,71 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CanonicalProduct } from '../src/canonical_schema.js';
+import { formatCanonicalProduct, isCanonicalRecord, outputFormatter } from '../src/canonical_output.js';
+
+const product = {
+    productId: '1023045002',
+    variantId: '1023045002001',
+    market: 'de_de',
+    title: 'Leinenblazer',
+    title_original: 'Linen-blend blazer',
+    price: 59.99,
+    originalPrice: 79.99,
+    currency: 'EUR',
+    url: 'https://www2.hm.com/de_de/productpage.1023045002.html',
+    size: '46',
+    sizeStock: 'low',
+    availableSizes: [{ code: '001', name: '46', name_original: '46' }],
+    relatedProducts: ['1023045003'],
+    rawData: { articleCode: '1023045002' },
+    scrapedAt: '2024-03-01T10:00:00.000Z',
+} as unknown as CanonicalProduct;
+
+const legacyRecord = {
+    market: 'de_de',
+    productName: 'Leinenblazer',
+    articleNo: 1023045002,
+    listPrice: 59.99,
+    currency: 'EUR',
+};
+
+describe('formatCanonicalProduct', () => {
+    it('drops raw data, related products and translations unless they are included', () => {
+        const formatted = formatCanonicalProduct(product);
+
+        assert.equal(formatted.rawData, undefined);
+        assert.equal(formatted.relatedProducts, undefined);
+        assert.equal(formatted.title_original, undefined);
+        assert.deepEqual(formatted.availableSizes, [{ code: '001', name: '46' }]);
+
+        const full = formatCanonicalProduct(product, { includeRawData: true, includeTranslations: true, includeRelatedProducts: true });
+        assert.deepEqual(full, product);
+    });
+
+    it('selects canonical fields through the output field aliases and keeps identity fields', () => {
+        const formatted = formatCanonicalProduct(product, { fields: ['productId', 'price', 'sizes'] });
+
+        assert.deepEqual(Object.keys(formatted).sort(), ['availableSizes', 'market', 'price', 'productId', 'size', 'sizeStock', 'variantId']);
+    });
+
+    it('selects fields without an alias by their name', () => {
+        assert.deepEqual(formatCanonicalProduct(product, { fields: ['scrapedAt'] }), {
+            productId: '1023045002',
+            market: 'de_de',
+            scrapedAt: '2024-03-01T10:00:00.000Z',
+        });
+    });
+});
+
+describe('outputFormatter', () => {
+    afterEach(() => outputFormatter.configure('legacy'));
+
+    it('formats canonical records as they are written and keeps legacy records', () => {
+        outputFormatter.configure('canonical', { fields: ['title'] });
+
+        assert.equal(isCanonicalRecord(product as unknown as Record<string, unknown>), true);
+        assert.equal(isCanonicalRecord(legacyRecord), false);
+        assert.deepEqual(outputFormatter.formatRecord(product), { productId: '1023045002', market: 'de_de', title: 'Leinenblazer' });
+        assert.equal(outputFormatter.formatRecord(legacyRecord), legacyRecord);
+    });
+});
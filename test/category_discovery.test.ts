@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadJsonFixture } from './helpers.js';
+import {
+    buildCategoryTree,
+    DEFAULT_CATEGORY_FILTER,
+    matchesPattern,
+    setProductCount,
+    SiteNavigationResponse,
+    toCategoryTreeRecord,
+} from '../src/category_discovery.js';
+import { getCategoryCountRequests } from '../src/extractors.js';
+import { requireMarket } from '../src/markets.js';
+
+const navigation = loadJsonFixture<SiteNavigationResponse>('navigation.json');
+
+describe('matchesPattern', () => {
+    it('matches tracking labels and titles with wildcards, ignoring case', () => {
+        const item = { trackingLabel: 'suits-blazers', title: 'Suits & Blazers' };
+
+        assert.equal(matchesPattern(item, 'suits-blazers'), true);
+        assert.equal(matchesPattern(item, 'suits & blazers'), true);
+        assert.equal(matchesPattern(item, '*blazers'), true);
+        assert.equal(matchesPattern(item, 'suits'), false);
+    });
+});
+
+describe('buildCategoryTree', () => {
+    it('keeps the categories of the selected divisions', () => {
+        const tree = buildCategoryTree(navigation);
+
+        assert.deepEqual(tree.map((division) => division.trackingLabel), ['men', 'beauty']);
+        assert.deepEqual(tree[0].children.map((category) => category.trackingLabel), ['suits-blazers']);
+        assert.deepEqual(tree[0].children[0].children.map((subCategory) => subCategory.title), ['Blazers', 'Suits']);
+        assert.equal(tree[0].children[0].url, 'https://www2.hm.com/en_gb/men/shop-by-product/suits-blazers.html');
+        assert.deepEqual(tree[1].children, []);
+    });
+
+    it('applies include and exclude patterns', () => {
+        const tree = buildCategoryTree(navigation, {
+            ...DEFAULT_CATEGORY_FILTER,
+            includeDivisions: [],
+            excludeDivisions: ['beauty'],
+            excludeCategories: [],
+        });
+
+        assert.deepEqual(tree.map((division) => division.trackingLabel), ['men', 'divided']);
+        assert.deepEqual(tree[0].children.map((category) => category.trackingLabel), ['view-all', 'suits-blazers']);
+    });
+
+    it('marks categories of which only some subcategories are included', () => {
+        const tree = buildCategoryTree(navigation, { ...DEFAULT_CATEGORY_FILTER, includeCategories: ['blaz*'] });
+        const [category] = tree[0].children;
+        const country = requireMarket('en_gb');
+
+        assert.equal(category.partial, true);
+        assert.deepEqual(category.children.map((subCategory) => subCategory.trackingLabel), ['blazers']);
+        assert.deepEqual(getCategoryCountRequests(tree, country).map((request) => request.url), [
+            'https://www2.hm.com/en_gb/men/shop-by-product/suits-blazers/blazers.html',
+        ]);
+        assert.equal(getCategoryCountRequests(tree, country, true).length, 2);
+    });
+});
+
+describe('toCategoryTreeRecord', () => {
+    it('counts the categories and keeps their product counts', () => {
+        const tree = buildCategoryTree(navigation);
+        assert.equal(setProductCount(tree, '/en_gb/men/shop-by-product/suits-blazers/blazers.html', 74), true);
+        assert.equal(setProductCount(tree, '/en_gb/men/shop-by-product/shirts.html', 12), false);
+
+        const record = toCategoryTreeRecord(tree, requireMarket('en_gb'), '2024-03-01T10:00:00.000Z');
+        assert.equal(record.type, 'categoryTree');
+        assert.equal(record.market, 'en_gb');
+        assert.deepEqual([record.divisionCount, record.categoryCount, record.subCategoryCount], [2, 1, 2]);
+        assert.equal(record.divisions[0].children[0].children[0].productCount, 74);
+        assert.equal(record.divisions[0].children[0].productCount, null);
+    });
+});
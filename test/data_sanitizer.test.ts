@@ -0,0 +1,108 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DataSanitizer } from '../src/data_sanitizer.js';
+
+describe('DataSanitizer', () => {
+    it('sanitizeString trims, collapses whitespace, decodes entities and strips scripts', () => {
+        assert.equal(DataSanitizer.sanitizeString('  Slim   Fit Jacket\0 '), 'Slim Fit Jacket');
+        assert.equal(DataSanitizer.sanitizeString('H&amp;M &#8211; Basics'), 'H&M – Basics');
+        assert.equal(DataSanitizer.sanitizeString('Dress<script>alert(1)</script>'), 'Dress');
+        assert.equal(DataSanitizer.sanitizeString(42), '42');
+        assert.equal(DataSanitizer.sanitizeString(null), '');
+    });
+
+    it('sanitizeNumber parses prices with currency symbols and decimal commas', () => {
+        assert.equal(DataSanitizer.sanitizeNumber('£59.99'), 59.99);
+        assert.equal(DataSanitizer.sanitizeNumber('29,99 €'), 29.99);
+        assert.equal(DataSanitizer.sanitizeNumber(12.5), 12.5);
+        assert.equal(DataSanitizer.sanitizeNumber('free', 'price', -1), -1);
+        assert.equal(DataSanitizer.sanitizeNumber(Number.NaN), 0);
+        assert.equal(DataSanitizer.sanitizeNumber(undefined, 'price', 5), 5);
+    });
+
+    it('sanitizeBoolean accepts common truthy strings and numbers', () => {
+        assert.equal(DataSanitizer.sanitizeBoolean('Yes'), true);
+        assert.equal(DataSanitizer.sanitizeBoolean('off'), false);
+        assert.equal(DataSanitizer.sanitizeBoolean(0), false);
+        assert.equal(DataSanitizer.sanitizeBoolean(undefined, true), true);
+    });
+
+    it('sanitizeUrl resolves relative URLs and rejects invalid ones', () => {
+        assert.equal(DataSanitizer.sanitizeUrl('/en_gb/productpage.1023045002.html'), 'https://www2.hm.com/en_gb/productpage.1023045002.html');
+        assert.equal(DataSanitizer.sanitizeUrl('image.hm.com/assets/1.jpg'), 'https://image.hm.com/assets/1.jpg');
+        assert.equal(DataSanitizer.sanitizeUrl('https://exa mple.com'), '');
+        assert.equal(DataSanitizer.sanitizeUrl(''), '');
+    });
+
+    it('sanitizeProductId keeps alphanumerics, dots and dashes up to 50 characters', () => {
+        assert.equal(DataSanitizer.sanitizeProductId(' 1023045 002#'), '1023045002');
+        assert.equal(DataSanitizer.sanitizeProductId('a'.repeat(60)).length, 50);
+    });
+
+    it('standardizes colors, hex colors and sizes', () => {
+        assert.equal(DataSanitizer.sanitizeColor('Schwarz'), 'black');
+        assert.equal(DataSanitizer.sanitizeColor('Dark blue'), 'Dark blue');
+        assert.equal(DataSanitizer.sanitizeHexColor('f5f5dc'), '#F5F5DC');
+        assert.equal(DataSanitizer.sanitizeHexColor('#12345'), '');
+        assert.equal(DataSanitizer.sanitizeSize('Extra Large'), 'XL');
+        assert.equal(DataSanitizer.sanitizeSize('m'), 'M');
+    });
+
+    it('sanitizeCurrency falls back to EUR for unknown codes', () => {
+        assert.equal(DataSanitizer.sanitizeCurrency(' gbp '), 'GBP');
+        assert.equal(DataSanitizer.sanitizeCurrency('XYZ'), 'EUR');
+        assert.equal(DataSanitizer.sanitizeCurrency(undefined), 'EUR');
+    });
+
+    it('sanitizeStringArray wraps single values and drops empty items', () => {
+        assert.deepEqual(DataSanitizer.sanitizeStringArray(['Cotton 100%', '  ', null]), ['Cotton 100%']);
+        assert.deepEqual(DataSanitizer.sanitizeStringArray('Machine wash 40°'), ['Machine wash 40°']);
+    });
+
+    it('sanitizeDate returns ISO strings or the default', () => {
+        assert.equal(DataSanitizer.sanitizeDate('2024-03-01T10:00:00Z'), '2024-03-01T10:00:00.000Z');
+        assert.equal(DataSanitizer.sanitizeDate('not a date', 'unknown'), 'unknown');
+    });
+
+    it('sanitizeProduct normalizes a product and removes empty fields', () => {
+        const sanitized = DataSanitizer.sanitizeProduct({
+            articleNo: '1023045002',
+            productName: '  Slim Fit Jacket ',
+            price: '£39.99',
+            originalPrice: '£59.99',
+            salePrice: '39,99',
+            currency: 'gbp',
+            color: 'Schwarz',
+            hexColor: '000000',
+            size: 'medium',
+            materials: ['Polyester 65%', 'Viscose 35%'],
+            images: [{ url: '/assets/1.jpg', alt: 'Front' }, 'https://image.hm.com/assets/2.jpg'],
+            inStock: 'yes',
+            url: '/en_gb/productpage.1023045002.html',
+            market: 'en_gb',
+            scrapedAt: '2024-03-01T10:00:00Z',
+        });
+
+        assert.deepEqual(sanitized, {
+            productId: '1023045002',
+            title: 'Slim Fit Jacket',
+            price: 39.99,
+            originalPrice: 59.99,
+            salePrice: 39.99,
+            currency: 'GBP',
+            color: 'black',
+            hexColor: '#000000',
+            size: 'M',
+            materials: ['Polyester 65%', 'Viscose 35%'],
+            careInstructions: [],
+            images: [
+                { url: 'https://www2.hm.com/assets/1.jpg', alt: 'Front' },
+                { url: 'https://image.hm.com/assets/2.jpg', alt: '' },
+            ],
+            inStock: true,
+            url: 'https://www2.hm.com/en_gb/productpage.1023045002.html',
+            market: 'en_gb',
+            scrapedAt: '2024-03-01T10:00:00.000Z',
+        });
+    });
+});
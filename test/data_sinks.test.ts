@@ -0,0 +1,125 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createDataSink, createJsonlFileSink, DataSink, dataSinks, DEFAULT_OUTPUT_SINKS } from '../src/data_sinks.js';
+
+const createMemorySink = (name: string, batchSize = 0) => {
+    const batches: Record<string, any>[][] = [];
+    const sink: DataSink = { name, batchSize, write: async (records) => { batches.push(records); } };
+    return { sink, batches };
+};
+
+const products = (...articleNos: number[]) => articleNos.map((articleNo) => ({ articleNo, market: 'en_gb' }));
+
+describe('dataSinks', () => {
+    afterEach(() => {
+        dataSinks.use(DEFAULT_OUTPUT_SINKS.map(createDataSink));
+    });
+
+    it('batches every sink on its own', async () => {
+        const everyBatch = createMemorySink('every batch');
+        const largeBatches = createMemorySink('large batches', 3);
+        dataSinks.use([everyBatch.sink, largeBatches.sink]);
+
+        await dataSinks.write(products(1, 2));
+        await dataSinks.write(products(3));
+        await dataSinks.write(products(4));
+        await dataSinks.flush();
+
+        assert.deepEqual(everyBatch.batches.map((batch) => batch.length), [2, 1, 1]);
+        assert.deepEqual(largeBatches.batches.map((batch) => batch.length), [3, 1]);
+    });
+
+    it('keeps the records of a failing sink pending without blocking the others', async () => {
+        const healthy = createMemorySink('healthy');
+        let failing = true;
+        const flaky = createMemorySink('flaky');
+        dataSinks.use([healthy.sink, {
+            ...flaky.sink,
+            write: async (records) => {
+                if (failing) throw new Error('Webhook unavailable');
+                await flaky.sink.write(records);
+            },
+        }]);
+
+        await dataSinks.write(products(1));
+        assert.equal(healthy.batches.length, 1);
+        assert.deepEqual(dataSinks.getStats().map(({ name, pending, failures }) => ({ name, pending, failures })), [
+            { name: 'healthy', pending: 0, failures: 0 },
+            { name: 'flaky', pending: 1, failures: 1 },
+        ]);
+
+        failing = false;
+        await dataSinks.write(products(2));
+        assert.deepEqual(flaky.batches, [products(1, 2)]);
+        assert.equal(dataSinks.getStats()[1].written, 2);
+    });
+
+    it('reports the records of the primary sink and throws its failures', async () => {
+        const secondary = createMemorySink('secondary');
+        let failing = true;
+        const primary = createMemorySink('primary');
+        dataSinks.use([{
+            ...primary.sink,
+            write: async (records) => {
+                if (failing) throw new Error('Dataset unavailable');
+                await primary.sink.write(records);
+            },
+        }, secondary.sink]);
+
+        await assert.rejects(dataSinks.write(products(1, 2)), /Dataset unavailable/);
+        assert.deepEqual(secondary.batches, [products(1, 2)]);
+        assert.equal(dataSinks.getStats()[0].pending, 2);
+
+        failing = false;
+        assert.deepEqual(await dataSinks.retryPrimary(), products(1, 2));
+        assert.deepEqual(await dataSinks.write(products(3)), products(3));
+        assert.deepEqual(primary.batches, [products(1, 2), products(3)]);
+    });
+
+    it('reports the records of a batching primary sink once it writes them', async () => {
+        const primary = createMemorySink('primary', 3);
+        dataSinks.use([primary.sink]);
+
+        assert.deepEqual(await dataSinks.write(products(1, 2)), []);
+        assert.deepEqual(await dataSinks.write(products(3)), products(1, 2, 3));
+        assert.deepEqual(await dataSinks.write(products(4)), []);
+        assert.deepEqual(await dataSinks.flush(), products(4));
+    });
+
+    it('reports the records as handed in, not as formatted for the sinks', async () => {
+        const primary = createMemorySink('primary');
+        dataSinks.use([primary.sink]);
+        const canonical = { productId: '1023045002', market: 'en_gb', title: 'Blazer', rawData: { id: 1 } };
+
+        const [written] = await dataSinks.write([canonical]);
+
+        assert.equal(written, canonical);
+        assert.equal('rawData' in primary.batches[0][0], false);
+    });
+});
+
+describe('createDataSink', () => {
+    it('appends JSON lines to a file', async () => {
+        const dir = await mkdtemp(join(tmpdir(), 'hm-sinks-'));
+        try {
+            const path = join(dir, 'output', 'products.jsonl');
+            const sink = createJsonlFileSink(path);
+            await sink.write(products(1));
+            await sink.write(products(2));
+
+            const lines = (await readFile(path, 'utf8')).trim().split('\n');
+            assert.deepEqual(lines.map((line) => JSON.parse(line)), products(1, 2));
+        } finally {
+            await rm(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('rejects sinks without their target', () => {
+        assert.throws(() => createDataSink({ type: 'jsonl' }), /needs a path/);
+        assert.throws(() => createDataSink({ type: 'webhook' }), /needs a url/);
+        assert.equal(createDataSink({ type: 'webhook', url: 'https://example.com/hooks/hm', batchSize: 100 }).batchSize, 100);
+    });
+});
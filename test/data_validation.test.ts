@@ -0,0 +1,115 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    calculateProductQualityScore,
+    calculateQualityBreakdown,
+    cleanAndValidateProduct,
+    ProductData,
+    QUALITY_DIMENSION_POINTS,
+} from '../src/data_validation.js';
+
+const rawProduct = {
+    company: 'H&M',
+    country: 'United Kingdom',
+    market: 'en_gb',
+    productName: '  Slim   Fit Jacket ',
+    articleNo: '1023045002',
+    division: 'Men',
+    category: 'Suits & Blazers',
+    subCategory: 'Blazers',
+    listPrice: '£59.99',
+    salePrice: 39.99,
+    currency: 'GBP',
+    description: 'Single-breasted jacket in woven fabric with notch lapels.',
+    url: 'https://www2.hm.com/en_gb/productpage.1023045002.html?utm_source=newsletter',
+    imageUrl: '//image.hm.com/assets/hm/1a/2b/1023045002.jpg',
+    timestamp: '2024-03-01T10:00:00.000Z',
+    colors: ['Black', { name: 'Beige', code: '#F5F5DC' }, ''],
+    sizes: [{ code: '001', name: '46' }, '48'],
+    inStock: true,
+};
+
+describe('cleanAndValidateProduct', () => {
+    it('cleans text, prices and URLs of a valid product', () => {
+        assert.deepEqual(cleanAndValidateProduct(rawProduct), {
+            company: 'H&M',
+            country: 'United Kingdom',
+            market: 'en_gb',
+            productName: 'Slim Fit Jacket',
+            articleNo: 1023045002,
+            division: 'Men',
+            category: 'Suits & Blazers',
+            subCategory: 'Blazers',
+            listPrice: 59.99,
+            salePrice: 39.99,
+            currency: 'GBP',
+            description: 'Single-breasted jacket in woven fabric with notch lapels.',
+            url: 'https://www2.hm.com/en_gb/productpage.1023045002.html',
+            imageUrl: 'https://image.hm.com/assets/hm/1a/2b/1023045002.jpg',
+            timestamp: '2024-03-01T10:00:00.000Z',
+            colors: ['Black', 'Beige'],
+            sizes: ['46', '48'],
+            inStock: true,
+        });
+    });
+
+    it('keeps the search query that surfaced the product', () => {
+        assert.equal(cleanAndValidateProduct({ ...rawProduct, searchQuery: ' linen shirt ' })?.searchQuery, 'linen shirt');
+    });
+
+    it('rejects products failing a validation rule', () => {
+        assert.equal(cleanAndValidateProduct({ ...rawProduct, productName: 'Hi' }), null);
+        assert.equal(cleanAndValidateProduct({ ...rawProduct, articleNo: '12' }), null);
+        assert.equal(cleanAndValidateProduct({ ...rawProduct, listPrice: 'free' }), null);
+        assert.equal(cleanAndValidateProduct({ ...rawProduct, salePrice: 25000 }), null);
+        assert.equal(cleanAndValidateProduct({ ...rawProduct, description: 'Short' }), null);
+        assert.equal(cleanAndValidateProduct({ ...rawProduct, url: 'not a url' }), null);
+        assert.equal(cleanAndValidateProduct({ ...rawProduct, imageUrl: '' }), null);
+    });
+
+    it('leaves optional variant fields out when the source has none', () => {
+        const cleaned = cleanAndValidateProduct({ ...rawProduct, colors: undefined, sizes: undefined, inStock: undefined });
+
+        assert.ok(cleaned);
+        assert.equal('colors' in cleaned, false);
+        assert.equal('sizes' in cleaned, false);
+        assert.equal('inStock' in cleaned, false);
+    });
+
+    it('keeps the fields of a variant record', () => {
+        const variant = { productId: '1023045002', variantId: '1023045002001', sku: '1023045002001', size: '46', sizeSystem: 'UK', sizeStock: 'low' };
+        const cleaned = cleanAndValidateProduct({ ...rawProduct, ...variant });
+
+        assert.ok(cleaned);
+        assert.deepEqual({ ...cleaned, ...variant }, cleaned);
+    });
+});
+
+describe('calculateProductQualityScore', () => {
+    const product = cleanAndValidateProduct(rawProduct) as ProductData;
+
+    it('gives a complete H&M product the full score', () => {
+        assert.equal(calculateProductQualityScore(product), 100);
+    });
+
+    it('scores missing sale price, short texts and foreign images lower', () => {
+        assert.equal(calculateProductQualityScore({ ...product, salePrice: null }), 95);
+        assert.equal(calculateProductQualityScore({ ...product, productName: 'Jacket' }), 90);
+        assert.equal(calculateProductQualityScore({ ...product, description: 'A woven jacket with lapels.' }), 90);
+        assert.equal(calculateProductQualityScore({ ...product, imageUrl: 'https://cdn.example.com/1.jpg' }), 90);
+    });
+
+    it('breaks the score down per dimension', () => {
+        assert.deepEqual(calculateQualityBreakdown(product), QUALITY_DIMENSION_POINTS);
+        assert.deepEqual(calculateQualityBreakdown({ ...product, salePrice: null, productName: 'Jacket' }), {
+            ...QUALITY_DIMENSION_POINTS,
+            name: 10,
+            price: 15,
+        });
+    });
+
+    it('scores an empty product 0', () => {
+        const empty = { ...product, productName: '', description: '', listPrice: 0, salePrice: null, imageUrl: '', url: '', articleNo: 0 };
+        assert.equal(calculateProductQualityScore(empty), 0);
+    });
+});
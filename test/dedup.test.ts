@@ -0,0 +1,136 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ProductData } from '../src/data_validation.js';
+import { DEFAULT_INPUT } from '../src/input.js';
+import { getDedupKey, keepLastRecords, mergeRecords, productDedup } from '../src/dedup.js';
+
+const listingProduct: ProductData = {
+    company: 'H&M',
+    country: 'United Kingdom',
+    market: 'en_gb',
+    productName: 'Slim Fit Jacket',
+    articleNo: 1023045002,
+    division: 'Men',
+    category: 'Suits & Blazers',
+    subCategory: 'Blazers',
+    listPrice: 59.99,
+    salePrice: null,
+    currency: 'GBP',
+    description: '',
+    url: 'https://www2.hm.com/en_gb/productpage.1023045002.html',
+    imageUrl: 'https://image.hm.com/assets/hm/1a/2b/1023045002.jpg',
+    timestamp: '2024-03-01T10:00:00.000Z',
+    colors: ['Black'],
+};
+
+const detailProduct: ProductData = {
+    ...listingProduct,
+    description: 'Single-breasted jacket in woven fabric with notch lapels and a chest pocket.',
+    sizes: ['46', '48'],
+    colors: [],
+    timestamp: '2024-03-01T10:02:00.000Z',
+};
+
+const useDedup = (dedupMergePolicy: typeof DEFAULT_INPUT.dedupMergePolicy, dedupIdentity = DEFAULT_INPUT.dedupIdentity) => {
+    productDedup.configure({ ...DEFAULT_INPUT, dedupIdentity, dedupMergePolicy });
+};
+
+describe('getDedupKey', () => {
+    it('builds the identity of legacy, variant and canonical records', () => {
+        const variant = { ...listingProduct, variantId: '1023045002001', size: '46' };
+
+        assert.equal(getDedupKey(listingProduct, 'articleMarket'), '1023045002_en_gb');
+        assert.equal(getDedupKey({ articleNo: '01023045002', market: 'en_gb' }, 'articleMarket'), '1023045002_en_gb');
+        assert.equal(getDedupKey(listingProduct, 'article'), '1023045002');
+        assert.equal(getDedupKey(variant, 'article'), '1023045002_1023045002001');
+        assert.equal(getDedupKey({ productId: '1023045002', size: 'M' }, 'articleSize'), '1023045002_M');
+    });
+});
+
+describe('keepLastRecords', () => {
+    it('keeps the last record of each product and market, in the order products were first read', () => {
+        const germanProduct = { ...listingProduct, market: 'de_de', currency: 'EUR' };
+        const records = keepLastRecords([listingProduct, germanProduct, detailProduct]);
+
+        assert.deepEqual(records, [detailProduct, germanProduct]);
+    });
+
+    it('keeps the sizes of variant records and the records without article', () => {
+        const variant = { productId: '1023045002', market: 'en_gb', variantId: '1023045002001', size: '46' };
+        const otherSize = { ...variant, variantId: '1023045002002', size: '48' };
+        const markers = [{ message: 'no article' }, { message: 'no article' }];
+
+        assert.deepEqual(keepLastRecords([variant, otherSize, ...markers]), [variant, otherSize, ...markers]);
+    });
+});
+
+describe('mergeRecords', () => {
+    it('fills the empty fields of the preferred record', () => {
+        const merged = mergeRecords(detailProduct, listingProduct);
+
+        assert.equal(merged.description, detailProduct.description);
+        assert.deepEqual(merged.colors, ['Black']);
+        assert.deepEqual(merged.sizes, ['46', '48']);
+        assert.equal(merged.timestamp, detailProduct.timestamp);
+    });
+});
+
+describe('productDedup', () => {
+    afterEach(() => {
+        productDedup.reset();
+        useDedup('keepFirst');
+    });
+
+    it('keeps the first record of an article and market', () => {
+        useDedup('keepFirst');
+
+        assert.equal(productDedup.accept(listingProduct).status, 'new');
+        assert.equal(productDedup.accept(detailProduct).status, 'duplicate');
+        assert.equal(productDedup.accept({ ...detailProduct, market: 'de_de' }).status, 'new');
+        assert.deepEqual(productDedup.getStats(), { identity: 'articleMarket', policy: 'keepFirst', unique: 2, duplicates: 1, updated: 0 });
+    });
+
+    it('saves a richer duplicate again', () => {
+        useDedup('keepRichest');
+
+        assert.equal(productDedup.accept(listingProduct).status, 'new');
+        assert.equal(productDedup.accept(detailProduct).status, 'updated');
+        assert.equal(productDedup.accept(listingProduct).status, 'duplicate');
+    });
+
+    it('combines listing and product page records regardless of their order', () => {
+        useDedup('mergeFields');
+
+        productDedup.accept(detailProduct);
+        const { status, record } = productDedup.accept(listingProduct);
+
+        assert.equal(status, 'updated');
+        assert.equal(record.description, detailProduct.description);
+        assert.deepEqual(record.colors, ['Black']);
+        assert.equal(productDedup.accept(listingProduct).status, 'duplicate');
+    });
+
+    it('falls back to the richest record once the merged record is gone', () => {
+        useDedup('mergeFields');
+
+        productDedup.accept(listingProduct);
+        for (let i = 0; i < 5000; i++) productDedup.accept({ ...listingProduct, articleNo: i });
+
+        assert.equal(productDedup.accept({ ...listingProduct, colors: [] }).status, 'duplicate');
+        assert.equal(productDedup.accept(detailProduct).status, 'updated');
+    });
+
+    it('handles a product once per route and market, whatever the policy', () => {
+        useDedup('mergeFields');
+
+        assert.equal(productDedup.markHandled('CATEGORY', { articleNo: '1023045002', market: 'en_gb' }), true);
+        assert.equal(productDedup.markHandled('CATEGORY', listingProduct), false);
+        assert.equal(productDedup.markHandled('PRODUCT', listingProduct), true);
+        assert.equal(productDedup.markHandled('CATEGORY', { ...listingProduct, market: 'de_de' }), true);
+    });
+
+    it('keeps every variant of an article', () => {
+        const variants = ['1023045002001', '1023045002002', '1023045002002'].map((variantId) => ({ ...listingProduct, variantId }));
+        assert.deepEqual(variants.map((variant) => productDedup.accept(variant).status), ['new', 'new', 'duplicate']);
+    });
+});
@@ -0,0 +1,93 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { CircuitBreaker, classifyError, ErrorType } from '../src/error_handling.js';
+
+describe('classifyError', () => {
+    const cases: [string, ErrorType, boolean, string][] = [
+        ['connect ETIMEDOUT 23.45.67.89:443', ErrorType.NETWORK, true, 'medium'],
+        ['Request timeout after 60s', ErrorType.NETWORK, true, 'medium'],
+        ['Received response with status code 429', ErrorType.RATE_LIMIT, true, 'high'],
+        ['Request blocked - received 403 status code', ErrorType.BLOCKING, true, 'critical'],
+        ['Captcha page detected', ErrorType.BLOCKING, true, 'critical'],
+        ['Product object could not be parsed', ErrorType.PARSING, false, 'medium'],
+        ['Unexpected token < in JSON at position 0', ErrorType.PARSING, false, 'medium'],
+        ['Product name is required', ErrorType.VALIDATION, false, 'low'],
+        ['Something odd happened', ErrorType.UNKNOWN, true, 'medium'],
+    ];
+
+    for (const [message, type, retryable, severity] of cases) {
+        it(`classifies "${message}" as ${type}`, () => {
+            assert.deepEqual(classifyError(new Error(message)), { type, message, retryable, severity });
+        });
+    }
+
+    it('accepts plain messages', () => {
+        assert.equal(classifyError('ECONNRESET').type, ErrorType.NETWORK);
+    });
+
+    it('checks network errors before parsing errors', () => {
+        assert.equal(classifyError('Timeout while parsing JSON').type, ErrorType.NETWORK);
+    });
+});
+
+describe('CircuitBreaker', () => {
+    const fail = async () => {
+        throw new Error('ECONNRESET');
+    };
+    const succeed = async () => 'ok';
+
+    afterEach(() => mock.restoreAll());
+
+    it('stays closed while operations succeed', async () => {
+        const breaker = new CircuitBreaker(2, 1000, 5000);
+
+        assert.equal(await breaker.execute(succeed), 'ok');
+        assert.equal(breaker.getState(), 'CLOSED');
+    });
+
+    it('opens after the failure threshold and rejects further operations', async () => {
+        const breaker = new CircuitBreaker(2, 1000, 5000);
+
+        await assert.rejects(breaker.execute(fail), /ECONNRESET/);
+        assert.equal(breaker.getState(), 'CLOSED');
+        await assert.rejects(breaker.execute(fail), /ECONNRESET/);
+        assert.equal(breaker.getState(), 'OPEN');
+
+        const operation = mock.fn(succeed);
+        await assert.rejects(breaker.execute(operation, 'navigation'), /Circuit breaker is OPEN for navigation/);
+        assert.equal(operation.mock.callCount(), 0);
+    });
+
+    it('tries again after the reset timeout and closes on success', async () => {
+        const breaker = new CircuitBreaker(1, 1000, 5000);
+        let now = 1_000_000;
+        mock.method(Date, 'now', () => now);
+
+        await assert.rejects(breaker.execute(fail));
+        assert.equal(breaker.getState(), 'OPEN');
+
+        now += 5001;
+        assert.equal(await breaker.execute(succeed), 'ok');
+        assert.equal(breaker.getState(), 'CLOSED');
+    });
+
+    it('opens again when the trial operation fails', async () => {
+        const breaker = new CircuitBreaker(1, 1000, 5000);
+        let now = 1_000_000;
+        mock.method(Date, 'now', () => now);
+
+        await assert.rejects(breaker.execute(fail));
+        now += 5001;
+        await assert.rejects(breaker.execute(fail), /ECONNRESET/);
+        assert.equal(breaker.getState(), 'OPEN');
+    });
+
+    it('resets the failure count after a success', async () => {
+        const breaker = new CircuitBreaker(2, 1000, 5000);
+
+        await assert.rejects(breaker.execute(fail));
+        await breaker.execute(succeed);
+        await assert.rejects(breaker.execute(fail));
+        assert.equal(breaker.getState(), 'CLOSED');
+    });
+});
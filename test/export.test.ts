@@ -0,0 +1,112 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    applyFieldMapping,
+    buildExportRows,
+    flattenRecord,
+    projectRecord,
+    toColumnar,
+    toDelimited,
+    toFlatRows,
+    toJsonLines,
+} from '../src/export.js';
+
+const legacyRecord = {
+    market: 'en_gb',
+    productName: 'Linen-blend blazer',
+    articleNo: 1023045002,
+    category: 'blazers',
+    listPrice: 59.99,
+    salePrice: null,
+    currency: 'GBP',
+    url: 'https://www2.hm.com/en_gb/productpage.1023045002.html',
+    sizes: ['46', '48'],
+};
+
+const canonicalRecord = {
+    productId: '1023045002',
+    market: 'en_gb',
+    title: 'Linen-blend blazer',
+    price: 59.99,
+    currency: 'GBP',
+    images: [{ url: 'https://image.hm.com/1.jpg', type: 'main' }, { url: 'https://image.hm.com/2.jpg', type: 'detail' }],
+    availableSizes: [{ code: '001', name: '46', inStock: true }, { code: '002', name: '48', inStock: false }],
+    materials: [{ name: 'Linen', percentage: 55 }, { name: 'Viscose', percentage: 45 }],
+    categoryPath: { domain: 'men', category: 'blazers' },
+};
+
+describe('projectRecord', () => {
+    it('selects legacy fields through the output field aliases and keeps identity fields', () => {
+        assert.deepEqual(projectRecord(legacyRecord, ['title', 'price']), {
+            market: 'en_gb',
+            productName: 'Linen-blend blazer',
+            articleNo: 1023045002,
+            listPrice: 59.99,
+        });
+    });
+
+    it('selects canonical fields', () => {
+        assert.deepEqual(Object.keys(projectRecord(canonicalRecord, ['sizes'])), ['productId', 'market', 'availableSizes']);
+    });
+
+    it('keeps every field without a selection', () => {
+        assert.equal(projectRecord(legacyRecord, []), legacyRecord);
+    });
+});
+
+describe('flattenRecord', () => {
+    it('joins lists and writes nested fields to dotted columns', () => {
+        const row = flattenRecord(canonicalRecord);
+
+        assert.equal(row['images.url'], 'https://image.hm.com/1.jpg|https://image.hm.com/2.jpg');
+        assert.equal(row['availableSizes.name'], '46|48');
+        assert.equal(row['availableSizes.inStock'], 'true|false');
+        assert.equal(row['materials.percentage'], '55|45');
+        assert.equal(row['categoryPath.domain'], 'men');
+        assert.equal(flattenRecord(legacyRecord).sizes, '46|48');
+    });
+});
+
+describe('toFlatRows', () => {
+    it('writes one row per element of the explode field', () => {
+        const rows = toFlatRows(canonicalRecord, 'explode', 'availableSizes');
+
+        assert.equal(rows.length, 2);
+        assert.deepEqual(rows.map((row) => row['availableSizes.name']), ['46', '48']);
+        assert.deepEqual(rows.map((row) => row['availableSizes.inStock']), [true, false]);
+        assert.equal(rows[1]['images.url'], 'https://image.hm.com/1.jpg|https://image.hm.com/2.jpg');
+    });
+
+    it('keeps a single row when the explode field is missing or empty', () => {
+        assert.equal(toFlatRows(legacyRecord, 'explode', 'availableSizes').length, 1);
+        assert.equal(toFlatRows({ ...canonicalRecord, availableSizes: [] }, 'explode', 'availableSizes').length, 1);
+    });
+});
+
+describe('writers', () => {
+    const rows = buildExportRows([legacyRecord, { ...legacyRecord, articleNo: 1023045003, productName: 'Blazer, "slim fit"' }], {
+        fields: ['title', 'price'],
+        arrayStrategy: 'join',
+        explodeField: 'availableSizes',
+        fieldMapping: { productName: 'title' },
+    });
+
+    it('renames columns', () => {
+        assert.deepEqual(applyFieldMapping({ productName: 'Blazer', listPrice: 59.99 }, { productName: 'title' }), { title: 'Blazer', listPrice: 59.99 });
+    });
+
+    it('writes quoted CSV and TSV', () => {
+        assert.equal(toDelimited(rows), [
+            'market,title,articleNo,listPrice',
+            'en_gb,Linen-blend blazer,1023045002,59.99',
+            'en_gb,"Blazer, ""slim fit""",1023045003,59.99',
+            '',
+        ].join('\r\n'));
+        assert.equal(toDelimited(rows, '\t').split('\r\n')[2], 'en_gb\t"Blazer, ""slim fit"""\t1023045003\t59.99');
+    });
+
+    it('writes JSON lines and columns', () => {
+        assert.deepEqual(toJsonLines(rows).trim().split('\n').map((line) => JSON.parse(line)), rows);
+        assert.deepEqual(toColumnar([{ a: 1 }, { b: 'x' }]), { columns: ['a', 'b'], rowCount: 2, data: { a: [1, null], b: [null, 'x'] } });
+    });
+});
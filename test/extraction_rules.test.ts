@@ -0,0 +1,118 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { load } from 'cheerio';
+import { loadFixture } from './helpers.js';
+import {
+    DEFAULT_EXTRACTION_RULES,
+    extractionRules,
+    mergeExtractionRules,
+    readFirst,
+    readInlineValue,
+    validateExtractionRules,
+} from '../src/extraction_rules.js';
+import { extractionTelemetry } from '../src/extraction_telemetry.js';
+import { getProductCount } from '../src/extractors.js';
+import { SmartDataExtractor } from '../src/smart_extractor.js';
+
+describe('rule lookups', () => {
+    it('returns the first truthy value of a fallback chain', () => {
+        const product = { code: '', id: '1023045002', image: [{ src: 'https://image.hm.com/1.jpg' }] };
+
+        assert.equal(readFirst(product, ['articleCode', 'code', 'id']), '1023045002');
+        assert.equal(readFirst(product, ['image.0.src', 'image']), 'https://image.hm.com/1.jpg');
+        assert.equal(readFirst(product, ['title', 'name']), undefined);
+    });
+
+    it('reads inline values between markers', () => {
+        const body = '<script>var data = { regularPrice:"59.99", redPrice:"" }</script>';
+
+        assert.equal(readInlineValue(body, { start: 'regularPrice:"', end: '"' }), '59.99');
+        assert.equal(readInlineValue(body, { start: 'redPrice:"', end: '"' }), '');
+        assert.equal(readInlineValue(body, { start: 'whitePrice:"', end: '"' }), undefined);
+    });
+});
+
+describe('mergeExtractionRules', () => {
+    it('merges objects and replaces lists', () => {
+        const rules = mergeExtractionRules(DEFAULT_EXTRACTION_RULES, {
+            version: '2024.1-patch',
+            listing: { fields: { title: ['productTitle'] } },
+            jsonLd: { listTypes: ['ItemList'] },
+        });
+
+        assert.equal(rules.version, '2024.1-patch');
+        assert.deepEqual(rules.listing.fields.title, ['productTitle']);
+        assert.deepEqual(rules.listing.fields.articleCode, DEFAULT_EXTRACTION_RULES.listing.fields.articleCode);
+        assert.deepEqual(rules.jsonLd.listTypes, ['ItemList']);
+        assert.deepEqual(rules.navigation, DEFAULT_EXTRACTION_RULES.navigation);
+    });
+
+    it('keeps the defaults without overrides', () => {
+        assert.deepEqual(mergeExtractionRules(DEFAULT_EXTRACTION_RULES, undefined), DEFAULT_EXTRACTION_RULES);
+    });
+});
+
+describe('validateExtractionRules', () => {
+    it('accepts the default rules', () => {
+        assert.deepEqual(validateExtractionRules(DEFAULT_EXTRACTION_RULES), { isValid: true, errors: [] });
+    });
+
+    it('reports unknown rules, wrong types and invalid patterns', () => {
+        const invalid = mergeExtractionRules(DEFAULT_EXTRACTION_RULES, {
+            categoryPage: { productLink: '.product-card a', productCount: 42 },
+            listing: { products: 'hits' },
+        });
+        assert.deepEqual(validateExtractionRules(invalid).errors, [
+            'extractionRules.listing.products: must be an array',
+            'extractionRules.categoryPage.productLink: unknown rule',
+            'extractionRules.categoryPage.productCount: must be a non-empty string',
+        ]);
+
+        const badPattern = mergeExtractionRules(DEFAULT_EXTRACTION_RULES, { windowObject: { patterns: ['window\\.data = ({'] } });
+        assert.equal(validateExtractionRules(badPattern).errors.length, 1);
+        assert.match(validateExtractionRules(badPattern).errors[0], /windowObject\.patterns\.0: invalid regular expression/);
+    });
+});
+
+describe('extractionRules', () => {
+    afterEach(() => {
+        extractionRules.reset();
+        extractionTelemetry.reset();
+    });
+
+    it('rejects invalid rules and keeps the rules in use', () => {
+        const invalid = mergeExtractionRules(DEFAULT_EXTRACTION_RULES, { nextData: { listingPaths: [''] } });
+
+        assert.throws(() => extractionRules.use(invalid), /Invalid extraction rules:\n {2}- extractionRules\.nextData\.listingPaths\.0/);
+        assert.equal(extractionRules.get(), DEFAULT_EXTRACTION_RULES);
+    });
+
+    it('drives the extractors', () => {
+        const html = '<div class="pagination-count">74 products</div>';
+        assert.equal(getProductCount(load(html)).text(), '');
+
+        extractionRules.use(mergeExtractionRules(DEFAULT_EXTRACTION_RULES, { categoryPage: { productCount: '.pagination-count' } }));
+        assert.equal(getProductCount(load(html)).text(), '74 products');
+    });
+
+    it('patches the __NEXT_DATA__ listing path and its drift schema', () => {
+        const listingProps = 'props.pageProps.productListingProps';
+        extractionRules.use(mergeExtractionRules(DEFAULT_EXTRACTION_RULES, {
+            nextData: {
+                listingPaths: [listingProps],
+                schema: {
+                    listing: [
+                        { path: listingProps, type: 'object' },
+                        { path: `${listingProps}.hits`, type: 'array' },
+                    ],
+                },
+            },
+        }));
+
+        const context = { route: 'subCategory', market: 'en_gb', pageType: 'listing' as const };
+        const result = SmartDataExtractor.extract(loadFixture('listing-next-data-drifted.html'), undefined, context);
+
+        assert.equal(result?.products.length, 1);
+        assert.equal(extractionTelemetry.getReport().driftDetected, false);
+    });
+});
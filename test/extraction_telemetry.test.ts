@@ -0,0 +1,115 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { load } from 'cheerio';
+import { loadFixture } from './helpers.js';
+import { detectSchemaDrift, extractionTelemetry, getValueType } from '../src/extraction_telemetry.js';
+import { DEFAULT_EXTRACTION_RULES } from '../src/extraction_rules.js';
+import { SmartDataExtractor } from '../src/smart_extractor.js';
+
+const listingSchema = DEFAULT_EXTRACTION_RULES.nextData.schema.listing!;
+const listingContext = { route: 'subCategory', market: 'en_gb', pageType: 'listing' as const, url: 'https://www2.hm.com/en_gb/men/blazers.html' };
+
+describe('detectSchemaDrift', () => {
+    it('finds no drift in a current listing page', () => {
+        const nextData = SmartDataExtractor.parseNextData(loadFixture('listing-next-data.html'));
+        assert.deepEqual(detectSchemaDrift(nextData, listingSchema), []);
+    });
+
+    it('reports paths that disappeared', () => {
+        const nextData = SmartDataExtractor.parseNextData(loadFixture('listing-next-data-drifted.html'));
+
+        assert.deepEqual(detectSchemaDrift(nextData, listingSchema), [
+            { path: 'props.pageProps.plpProps.productListingProps', expectedType: 'object', actualType: 'missing' },
+            { path: 'props.pageProps.plpProps.productListingProps.hits', expectedType: 'array', actualType: 'missing' },
+            { path: 'props.pageProps.plpProps.productListingProps.totalHits', expectedType: 'number', actualType: 'missing' },
+        ]);
+    });
+
+    it('reports paths that changed type', () => {
+        const nextData = { props: { pageProps: { plpProps: { productListingProps: { hits: {}, totalHits: '74' } } } } };
+
+        assert.deepEqual(detectSchemaDrift(nextData, listingSchema), [
+            { path: 'props.pageProps.plpProps.productListingProps.hits', expectedType: 'array', actualType: 'object' },
+            { path: 'props.pageProps.plpProps.productListingProps.totalHits', expectedType: 'number', actualType: 'string' },
+        ]);
+    });
+
+    it('reports a page without __NEXT_DATA__', () => {
+        assert.deepEqual(detectSchemaDrift(null, listingSchema), [
+            { path: '__NEXT_DATA__', expectedType: 'object', actualType: 'missing' },
+        ]);
+    });
+
+    it('tells arrays and null apart from objects', () => {
+        assert.equal(getValueType([]), 'array');
+        assert.equal(getValueType(null), 'null');
+        assert.equal(getValueType({}), 'object');
+        assert.equal(getValueType(undefined), 'missing');
+    });
+});
+
+describe('extractionTelemetry', () => {
+    beforeEach(() => extractionTelemetry.reset());
+
+    it('counts the successful strategy per route and market', () => {
+        SmartDataExtractor.extract(loadFixture('listing-next-data.html'), undefined, listingContext);
+        SmartDataExtractor.extract(loadFixture('listing-json-ld.html'), undefined, listingContext);
+        SmartDataExtractor.extract(loadFixture('listing-json-ld.html'), undefined, { ...listingContext, market: 'de_de' });
+
+        const html = loadFixture('listing-data-attributes.html');
+        SmartDataExtractor.extract(html, load(html), { route: 'PRODUCT_URL', market: 'en_gb' });
+        SmartDataExtractor.extract('<html></html>', undefined, { route: 'PRODUCT_URL', market: 'en_gb' });
+
+        assert.deepEqual(extractionTelemetry.getReport().strategies, {
+            subCategory: {
+                en_gb: { nextJs: 1, jsonLd: 1 },
+                de_de: { jsonLd: 1 },
+            },
+            PRODUCT_URL: {
+                en_gb: { dataAttributes: 1, none: 1 },
+            },
+        });
+    });
+
+    it('does not count extractions without a context', () => {
+        SmartDataExtractor.extract(loadFixture('listing-next-data.html'));
+        assert.deepEqual(extractionTelemetry.getReport().strategies, {});
+    });
+
+    it('aggregates drift of listing pages into the report', () => {
+        const drifted = loadFixture('listing-next-data-drifted.html');
+        const result = SmartDataExtractor.extract(drifted, undefined, listingContext);
+        SmartDataExtractor.extract(drifted, undefined, { ...listingContext, market: 'de_de' });
+        SmartDataExtractor.extract(loadFixture('listing-next-data.html'), undefined, listingContext);
+
+        // A fallback path still finds the products, only the report tells the structure changed
+        assert.equal(result?.products.length, 1);
+
+        const report = extractionTelemetry.getReport();
+        assert.equal(report.driftDetected, true);
+        assert.deepEqual(report.pagesChecked, { listing: 3 });
+        assert.equal(report.drift.length, 3);
+        assert.deepEqual(
+            { ...report.drift[0], firstSeenAt: undefined },
+            {
+                pageType: 'listing',
+                path: 'props.pageProps.plpProps.productListingProps',
+                expectedType: 'object',
+                actualType: 'missing',
+                occurrences: 2,
+                routes: ['subCategory'],
+                markets: ['en_gb', 'de_de'],
+                exampleUrl: listingContext.url,
+                firstSeenAt: undefined,
+            },
+        );
+    });
+
+    it('checks only pages with a known page type', () => {
+        SmartDataExtractor.extract(loadFixture('listing-json-ld.html'), undefined, { route: 'PRODUCT_URL', market: 'en_gb' });
+
+        const report = extractionTelemetry.getReport();
+        assert.equal(report.driftDetected, false);
+        assert.deepEqual(report.pagesChecked, {});
+    });
+});
@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadFixture, loadJsonFixture } from './helpers.js';
+import { getCategoriesFromNavigation, getCombinationsInfoFromProductObject, getProductInfoObject } from '../src/extractors.js';
+import { Labels } from '../src/constants.js';
+import { requireMarket } from '../src/markets.js';
+
+describe('getCategoriesFromNavigation', () => {
+    const country = requireMarket('en_gb');
+    const requests = getCategoriesFromNavigation(loadJsonFixture('navigation.json'), country);
+
+    it('enqueues subcategories and their category from shop-by-product', () => {
+        assert.deepEqual(requests.map((request) => request.url), [
+            'https://www2.hm.com/en_gb/men/shop-by-product/suits-blazers/blazers.html',
+            'https://www2.hm.com/en_gb/men/shop-by-product/suits-blazers/suits.html',
+            'https://www2.hm.com/en_gb/men/shop-by-product/suits-blazers.html',
+        ]);
+    });
+
+    it('skips unknown divisions, divisions without shop-by-product and view-all categories', () => {
+        assert.ok(requests.every((request) => !request.url.includes('/divided') && !request.url.includes('/beauty')));
+        assert.ok(requests.every((request) => !request.url.includes('view-all')));
+    });
+
+    it('labels requests for the product count with division, category and market', () => {
+        for (const request of requests) {
+            assert.equal(request.userData.label, Labels.SUB_CATEGORY_COUNT);
+            assert.equal(request.userData.divisionName, 'Men');
+            assert.equal(request.userData.categoryName, 'Suits & Blazers');
+            assert.equal(request.userData.country, country);
+        }
+    });
+});
+
+describe('getProductInfoObject', () => {
+    it('parses the productArticleDetails object of a product page', () => {
+        const productObject = getProductInfoObject(loadFixture('product-article-details.html'));
+
+        assert.equal(productObject.articleCode, '1023045');
+        assert.equal(productObject['1023045002'].whitePriceValue, '59.99');
+    });
+
+    it('throws when the page has no product object', () => {
+        assert.throws(() => getProductInfoObject(loadFixture('listing-next-data.html')), /Could not find the JS object/);
+    });
+});
+
+describe('getCombinationsInfoFromProductObject', () => {
+    const combinations = getCombinationsInfoFromProductObject(getProductInfoObject(loadFixture('product-article-details.html')));
+
+    it('returns one entry per color article and skips other keys', () => {
+        assert.deepEqual(combinations.map((combination) => combination.articleNo), ['1023045002', '1023045003']);
+    });
+
+    it('parses prices, color, sizes and image', () => {
+        assert.deepEqual(combinations[0], {
+            listPrice: 59.99,
+            salePrice: 39.99,
+            articleNo: '1023045002',
+            description: 'Single-breasted jacket in woven fabric with notch lapels.',
+            urlPath: '/en_gb/productpage.1023045002.html',
+            imageUrl: '//image.hm.com/assets/hm/1a/2b/1023045002-thumb.jpg',
+            colorName: 'Black',
+            sizes: ['46', '48'],
+            sizeVariants: [
+                { code: '001', name: '46', stock: 'in' },
+                { code: '002', name: '48', stock: 'out' },
+                { code: '003', name: '', stock: 'in' },
+            ],
+        });
+    });
+
+    it('handles articles without sale price, images or sizes', () => {
+        const [, beige] = combinations;
+
+        assert.equal(beige.salePrice, null);
+        assert.equal(beige.imageUrl, undefined);
+        assert.deepEqual(beige.sizes, []);
+        assert.deepEqual(beige.sizeVariants, []);
+    });
+});
@@ -0,0 +1,116 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Actor } from 'apify';
+import { CheerioCrawler, CheerioCrawlerOptions } from 'crawlee';
+import { loadFixture } from './helpers.js';
+import { FixtureMode, fixtureManager, loadFixtureManifest, normalizeFixtureUrl } from '../src/fixtures.js';
+import { DEFAULT_INPUT } from '../src/input.js';
+import { requireMarket } from '../src/markets.js';
+import { DEFAULT_WATCHLIST_DATASET, getWatchlistRequests } from '../src/watchlist.js';
+
+const productUrl = 'https://www2.hm.com/en_gb/productpage.1023045002.html';
+
+describe('normalizeFixtureUrl', () => {
+    it('drops the anti-bot parameters and the hash', () => {
+        assert.equal(
+            normalizeFixtureUrl(`${productUrl}?_t=1718000000000&_r=0.42#sizes`),
+            productUrl,
+        );
+    });
+
+    it('matches the same page requested with its parameters in another order', () => {
+        const url = 'https://www2.hm.com/en_gb/men/shop-by-product/blazers.html?sort=stock&page-size=36';
+
+        assert.equal(
+            normalizeFixtureUrl(url),
+            normalizeFixtureUrl('https://www2.hm.com/en_gb/men/shop-by-product/blazers.html?page-size=36&_t=1&sort=stock'),
+        );
+        assert.equal(normalizeFixtureUrl(url), 'https://www2.hm.com/en_gb/men/shop-by-product/blazers.html?page-size=36&sort=stock');
+    });
+});
+
+describe('fixture recording and replay', () => {
+    const storageDir = mkdtempSync(join(tmpdir(), 'fixtures-'));
+    const fixturesDir = join(storageDir, 'fixtures');
+    const html = loadFixture('product-article-details.html');
+
+    const useFixtureMode = (fixtureMode: FixtureMode) => {
+        fixtureManager.configure({ ...DEFAULT_INPUT, fixtureMode, fixturesDir });
+    };
+
+    // URL the replay hook sends a crawler request to
+    const getReplayUrl = async (url: string): Promise<string> => {
+        const [hook] = fixtureManager.getCrawlerHooks().preNavigationHooks as NonNullable<CheerioCrawlerOptions['preNavigationHooks']>;
+        const gotOptions: Record<string, any> = {};
+        await hook({ request: { url } } as any, gotOptions);
+        return gotOptions.url;
+    };
+
+    before(async () => {
+        process.env.CRAWLEE_STORAGE_DIR = storageDir;
+
+        useFixtureMode('record');
+        await fixtureManager.record(`${productUrl}?_t=1718000000000`, 'text/html', html);
+        useFixtureMode('replay');
+        await fixtureManager.start();
+    });
+
+    after(async () => {
+        await fixtureManager.stop();
+        useFixtureMode('off');
+        await Actor.exit({ exit: false });
+        rmSync(storageDir, { recursive: true, force: true });
+    });
+
+    it('records the response under its normalized URL', async () => {
+        const manifest = await loadFixtureManifest(fixturesDir);
+        const entry = manifest[productUrl];
+
+        assert.deepEqual(Object.keys(manifest), [productUrl]);
+        assert.equal(entry.contentType, 'text/html');
+        assert.match(entry.file, /^en_gb-productpage\.1023045002-[0-9a-f]{8}\.html$/);
+        assert.equal(readFileSync(join(fixturesDir, entry.file), 'utf8'), html);
+    });
+
+    it('replays the recorded response for the same page requested with other anti-bot parameters', async () => {
+        const response = await fetch(await getReplayUrl(`${productUrl}?_r=0.42`));
+
+        assert.equal(response.status, 200);
+        assert.equal(response.headers.get('content-type'), 'text/html');
+        assert.equal(await response.text(), html);
+    });
+
+    it('answers 404 for a page that was never recorded', async () => {
+        const response = await fetch(await getReplayUrl('https://www2.hm.com/en_gb/productpage.1023045003.html'));
+
+        assert.equal(response.status, 404);
+    });
+
+    it('runs the recorded product page through the routes', async () => {
+        // The routes start the actor and a statistics log interval on import, the interval would keep the test running
+        mock.timers.enable({ apis: ['setInterval'] });
+        const { router } = await import('../src/routes.js');
+        mock.timers.reset();
+
+        const crawler = new CheerioCrawler({
+            requestHandler: router,
+            maxRequestRetries: 0,
+            ...fixtureManager.getCrawlerHooks(),
+        });
+        const { requestsFinished, requestsFailed } = await crawler.run(getWatchlistRequests(['1023045002'], requireMarket('en_gb')));
+        const { items } = await (await Actor.openDataset(DEFAULT_WATCHLIST_DATASET)).getData();
+
+        assert.equal(requestsFinished, 1);
+        assert.equal(requestsFailed, 0);
+        assert.equal(items.length, 1);
+        // The handlers see the original URL, not the one of the fixture server
+        assert.equal(items[0].url, productUrl);
+        assert.equal(items[0].found, true);
+        assert.equal(items[0].salePrice, 39.99);
+        assert.deepEqual(items[0].sizes.map(({ stock }: { stock: string }) => stock), ['in', 'out', 'in']);
+        assert.deepEqual(items[0].changes, ['firstCheck']);
+    });
+});
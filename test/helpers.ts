@@ -0,0 +1,12 @@
+import { readFileSync } from 'fs';
+
+/**
+ * Shared test helpers
+ * Fixtures live in test/fixtures and are trimmed copies of real H&M responses
+ */
+
+const FIXTURES_DIR = new URL('./fixtures/', import.meta.url);
+
+export const loadFixture = (name: string): string => readFileSync(new URL(name, FIXTURES_DIR), 'utf8');
+
+export const loadJsonFixture = <T = unknown>(name: string): T => JSON.parse(loadFixture(name));
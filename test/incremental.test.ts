@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyChange, createFingerprint } from '../src/incremental.js';
+
+const lastSeen = '2024-03-01T10:00:00.000Z';
+
+const record = {
+    articleNo: '1023045002',
+    productName: 'Slim Fit Jacket',
+    url: 'https://www2.hm.com/en_gb/productpage.1023045002.html',
+    listPrice: 59.99,
+    salePrice: null,
+    sizes: ['48', '46'],
+    colors: ['Black'],
+};
+
+describe('createFingerprint', () => {
+    it('reads legacy records with sorted sizes and colors', () => {
+        assert.deepEqual(createFingerprint(record, lastSeen), {
+            listPrice: 59.99,
+            salePrice: null,
+            inStock: null,
+            sizes: ['46', '48'],
+            colors: ['Black'],
+            productName: 'Slim Fit Jacket',
+            url: record.url,
+            lastSeen,
+        });
+    });
+
+    it('keeps the in stock sizes of canonical records', () => {
+        const fingerprint = createFingerprint({
+            productId: '1023045002',
+            title: 'Slim Fit Jacket',
+            originalPrice: 59.99,
+            availableSizes: [{ name: '46', stock: 'in' }, { name: '48', stock: 'out' }],
+            color: { name: 'Black' },
+            inStock: true,
+        }, lastSeen);
+
+        assert.equal(fingerprint.listPrice, 59.99);
+        assert.equal(fingerprint.inStock, true);
+        assert.deepEqual(fingerprint.sizes, ['46']);
+        assert.deepEqual(fingerprint.colors, ['Black']);
+        assert.equal(fingerprint.productName, 'Slim Fit Jacket');
+    });
+
+    it('keeps the size stock and the article of variant records', () => {
+        const fingerprint = createFingerprint({
+            productId: '1023045002',
+            variantId: '1023045002001',
+            size: '46',
+            sizeStock: 'out',
+            listPrice: 59.99,
+        }, lastSeen);
+
+        assert.equal(fingerprint.inStock, false);
+        assert.equal(fingerprint.articleNo, '1023045002');
+    });
+});
+
+describe('classifyChange', () => {
+    const previous = createFingerprint(record, lastSeen);
+
+    it('reports new products as added', () => {
+        assert.equal(classifyChange(undefined, previous), 'added');
+    });
+
+    it('reports price changes before stock changes', () => {
+        const current = createFingerprint({ ...record, salePrice: 39.99, sizes: ['46'] }, lastSeen);
+        assert.equal(classifyChange(previous, current), 'priceChanged');
+    });
+
+    it('reports changed sizes, colors and stock', () => {
+        assert.equal(classifyChange(previous, createFingerprint({ ...record, sizes: ['46'] }, lastSeen)), 'stockChanged');
+        assert.equal(classifyChange(previous, createFingerprint({ ...record, colors: ['Black', 'Beige'] }, lastSeen)), 'stockChanged');
+        assert.equal(classifyChange(previous, createFingerprint({ ...record, inStock: false }, lastSeen)), 'stockChanged');
+    });
+
+    it('ignores the last seen time and the order of sizes', () => {
+        const current = createFingerprint({ ...record, sizes: ['46', '48'] }, '2024-03-02T10:00:00.000Z');
+        assert.equal(classifyChange(previous, current), null);
+    });
+});
@@ -0,0 +1,115 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { DEFAULT_INPUT, OPTIONAL_INPUT_KEYS, resolveInput } from '../src/input.js';
+import { normalizeLegacyInput, validateInput } from '../src/input_validation.js';
+
+const inputSchema = JSON.parse(readFileSync(new URL('../.actor/INPUT_SCHEMA.json', import.meta.url), 'utf8'));
+
+describe('validateInput', () => {
+    it('accepts the defaults', () => {
+        assert.deepEqual(validateInput({}), { isValid: true, errors: [], warnings: [] });
+        assert.equal(validateInput(DEFAULT_INPUT).isValid, true);
+    });
+
+    it('reports invalid types with the received value', () => {
+        const { isValid, errors } = validateInput({ maxProducts: '100', includeVariants: 'yes' });
+
+        assert.equal(isValid, false);
+        assert.deepEqual(errors, [
+            'maxProducts: must be of type integer, received "100"',
+            'includeVariants: must be of type boolean, received "yes"',
+        ]);
+    });
+
+    it('lists the allowed values of short enums and suggests the closest value of long ones', () => {
+        const { errors } = validateInput({ outputFormat: 'canonicall', country: 'en_gbb' });
+
+        assert.deepEqual(errors, [
+            'country: received "en_gbb", which is not a supported value. Did you mean "en_gb"?',
+            'outputFormat: received "canonicall", which is not a supported value. Allowed values: legacy, canonical.',
+        ]);
+    });
+
+    it('warns about unknown keys and suggests the intended one', () => {
+        const { isValid, warnings } = validateInput({ maxProduct: 10, filters: { minPrize: 5 }, somethingElse: true });
+
+        assert.equal(isValid, true);
+        assert.deepEqual(warnings, [
+            'maxProduct: unknown input field, it will be ignored. Did you mean "maxProducts"?',
+            'somethingElse: unknown input field, it will be ignored.',
+            'filters.minPrize: not a documented filter. Did you mean "minPrice"?',
+        ]);
+    });
+
+    it('reports conflicting and inconsistent options', () => {
+        const { errors } = validateInput({
+            filters: { minPrice: 50, maxPrice: 10 },
+            countries: ['de_de', 'xx_yy'],
+            outputSinks: [{ type: 'jsonl' }],
+        });
+
+        assert.deepEqual(errors, [
+            'filters: minPrice (50) is greater than maxPrice (10)',
+            'countries.1: received "xx_yy", which is not a supported market.',
+            'outputSinks.0: the jsonl sink needs a file path',
+        ]);
+    });
+});
+
+describe('normalizeLegacyInput', () => {
+    it('maps legacy keys and country names to their current equivalents', () => {
+        const { input, errors, warnings } = normalizeLegacyInput({ inputCountry: 'GERMANY', maxItems: 20 });
+
+        assert.deepEqual(input, { country: 'de_de', maxProducts: 20 });
+        assert.deepEqual(errors, []);
+        assert.deepEqual(warnings, ['inputCountry: deprecated, use "country" instead', 'maxItems: deprecated, use "maxProducts" instead']);
+    });
+
+    it('prefers the current key when both are set', () => {
+        const { input, warnings } = normalizeLegacyInput({ maxItems: 20, maxProducts: 50 });
+
+        assert.deepEqual(input, { maxProducts: 50 });
+        assert.deepEqual(warnings, ['maxItems: ignored because "maxProducts" is set as well']);
+    });
+
+    it('rejects unknown legacy countries', () => {
+        const { errors } = normalizeLegacyInput({ inputCountry: 'Germny' });
+        assert.match(errors[0], /^inputCountry: received "Germny", which is not a supported country\. Did you mean "Germany"\?/);
+    });
+});
+
+describe('resolveInput', () => {
+    it('applies the defaults of the input schema', () => {
+        const resolved = resolveInput({ inputCountry: 'GERMANY', searchQueries: ['blazer'] });
+
+        assert.equal(resolved.country, 'de_de');
+        assert.deepEqual(resolved.searchQueries, ['blazer']);
+        assert.equal(resolved.maxProducts, DEFAULT_INPUT.maxProducts);
+        assert.equal(resolveInput(null).dedupMergePolicy, 'keepFirst');
+    });
+
+    it('throws one error listing every problem', () => {
+        assert.throws(
+            () => resolveInput({ maxProducts: -1, filters: { minPrice: 50, maxPrice: 10 } }),
+            (error: Error) => {
+                assert.match(error.message, /^Invalid input, 2 problem\(s\) found:/);
+                assert.match(error.message, /maxProducts: must be >= 0/);
+                assert.match(error.message, /filters: minPrice \(50\) is greater than maxPrice \(10\)/);
+                return true;
+            },
+        );
+    });
+});
+
+describe('DEFAULT_INPUT', () => {
+    it('takes a default from the input schema for every field but the optional ones', () => {
+        for (const [key, property] of Object.entries<any>(inputSchema.properties)) {
+            if ((OPTIONAL_INPUT_KEYS as readonly string[]).includes(key)) {
+                assert.equal(key in DEFAULT_INPUT, false, key);
+            } else {
+                assert.deepEqual((DEFAULT_INPUT as any)[key], property.default, key);
+            }
+        }
+    });
+});
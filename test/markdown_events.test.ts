@@ -0,0 +1,134 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { DEFAULT_INPUT } from '../src/input.js';
+import { detectMarkdown, markdownEventReporter } from '../src/markdown_events.js';
+import { PriceObservation, PricePoint } from '../src/price_history.js';
+
+const record = {
+    articleNo: '1023045002',
+    market: 'de_de',
+    productName: 'Slim Fit Jacket',
+    url: 'https://www2.hm.com/de_de/productpage.1023045002.html',
+    division: 'Herren',
+    category: 'Anzüge & Blazer',
+    subCategory: 'Blazer',
+};
+
+const point = (listPrice: number, salePrice: number | null, timestamp: string, currency = 'EUR'): PricePoint => ({
+    listPrice,
+    salePrice,
+    currency,
+    timestamp,
+});
+
+const observe = (previous: PricePoint | null, current: PricePoint): PriceObservation => ({ record, previous, current });
+
+const previous = point(60, null, '2024-03-01T10:00:00.000Z');
+const detectedAt = '2024-03-02T10:00:00.000Z';
+
+describe('detectMarkdown', () => {
+    it('reports a product that went on sale', () => {
+        const event = detectMarkdown(observe(previous, point(60, 45, detectedAt)), detectedAt);
+
+        assert.deepEqual(event, {
+            eventType: 'markdown',
+            articleNo: '1023045002',
+            market: 'de_de',
+            productName: 'Slim Fit Jacket',
+            url: record.url,
+            categoryPath: 'Herren > Anzüge & Blazer > Blazer',
+            currency: 'EUR',
+            listPrice: 60,
+            oldPrice: 60,
+            newPrice: 45,
+            markdownPercentage: 25,
+            discountPercentage: 25,
+            previousObservedAt: previous.timestamp,
+            detectedAt,
+        });
+    });
+
+    it('reports a deeper discount against the previous sale price', () => {
+        const event = detectMarkdown(observe(point(60, 45, previous.timestamp), point(60, 30, detectedAt)), detectedAt);
+
+        assert.equal(event?.oldPrice, 45);
+        assert.equal(event?.markdownPercentage, 33.3);
+        assert.equal(event?.discountPercentage, 50);
+    });
+
+    it('ignores first sightings, unchanged or higher sale prices, list price drops and other currencies', () => {
+        assert.equal(detectMarkdown(observe(null, point(60, 45, detectedAt))), null);
+        assert.equal(detectMarkdown(observe(point(60, 45, previous.timestamp), point(60, 45, detectedAt))), null);
+        assert.equal(detectMarkdown(observe(point(60, 40, previous.timestamp), point(60, 45, detectedAt))), null);
+        assert.equal(detectMarkdown(observe(previous, point(50, null, detectedAt))), null);
+        assert.equal(detectMarkdown(observe(previous, point(700, 500, detectedAt, 'SEK'))), null);
+    });
+});
+
+describe('markdownEventReporter', () => {
+    let server: Server;
+    let responses: number[] = [];
+    const requests: any[] = [];
+    // Events are saved to a dataset of a throwaway storage directory
+    const storageDir = mkdtempSync(join(tmpdir(), 'hm-markdown-events-'));
+
+    before(async () => {
+        process.env.CRAWLEE_STORAGE_DIR = storageDir;
+
+        server = createServer((request, response) => {
+            let body = '';
+            request.on('data', (chunk) => { body += chunk; });
+            request.on('end', () => {
+                requests.push({ method: request.method, contentType: request.headers['content-type'], body: JSON.parse(body) });
+                response.writeHead(responses.shift() ?? 200).end();
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+        const { port } = server.address() as AddressInfo;
+        markdownEventReporter.configure({ ...DEFAULT_INPUT, detectMarkdowns: true, markdownWebhookUrl: `http://127.0.0.1:${port}/markdowns` });
+    });
+
+    after(async () => {
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+        rmSync(storageDir, { recursive: true, force: true });
+    });
+
+    it('posts the detected events to the webhook and retries failed deliveries', async () => {
+        responses = [503];
+
+        const events = await markdownEventReporter.report([
+            observe(previous, point(60, 45, detectedAt)),
+            observe(previous, point(60, null, detectedAt)),
+        ]);
+
+        assert.equal(events.length, 1);
+        assert.equal(requests.length, 2);
+        assert.deepEqual(requests[1], {
+            method: 'POST',
+            contentType: 'application/json',
+            body: { eventType: 'markdown', count: 1, events },
+        });
+        assert.equal(markdownEventReporter.getEventCount(), 1);
+    });
+
+    it('sends the events the webhook did not accept with the next report', async () => {
+        responses = [503, 503, 503];
+        requests.length = 0;
+
+        const events = await markdownEventReporter.report([observe(previous, point(60, 30, detectedAt))]);
+        assert.equal(requests.length, 3);
+        assert.equal(markdownEventReporter.getUndeliveredCount(), 1);
+
+        await markdownEventReporter.report([]);
+
+        assert.equal(requests.length, 4);
+        assert.deepEqual(requests[3].body, { eventType: 'markdown', count: 1, events });
+        assert.equal(markdownEventReporter.getUndeliveredCount(), 0);
+    });
+});
@@ -0,0 +1,167 @@
+import { after, afterEach, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { RequestQueue } from 'crawlee';
+import { DEFAULT_INPUT, ResolvedInput } from '../src/input.js';
+import { requireMarket } from '../src/markets.js';
+import {
+    assertMarketsSucceeded,
+    crawlEachMarket,
+    getMarketQueueName,
+    getRunMarkets,
+    withMarketQueue,
+} from '../src/market_runs.js';
+
+const runInput = (overrides: Partial<ResolvedInput>): ResolvedInput => ({ ...DEFAULT_INPUT, ...overrides });
+
+const codes = (markets: { code: string }[]) => markets.map(({ code }) => code);
+
+describe('getRunMarkets', () => {
+    it('uses the single country when no market selection is given', () => {
+        assert.deepEqual(codes(getRunMarkets(runInput({ country: 'de_at' }))), ['de_at']);
+    });
+
+    it('combines countries, regions and currencies without duplicates', () => {
+        const markets = getRunMarkets(runInput({ countries: ['de_de', 'en_gb'], currencies: ['gbp'] }));
+
+        assert.deepEqual(codes(markets), ['de_de', 'en_gb']);
+    });
+
+    it('ignores the single country once a selection is given', () => {
+        const markets = getRunMarkets(runInput({ country: 'de_at', countries: ['en_gb'] }));
+
+        assert.deepEqual(codes(markets), ['en_gb']);
+    });
+
+    it('throws when the selection matches no market', () => {
+        assert.throws(
+            () => getRunMarkets(runInput({ regions: ['Atlantis'] })),
+            /No H&M market matches the selection \(regions: Atlantis; currencies: \)/,
+        );
+    });
+});
+
+describe('crawlEachMarket', () => {
+    const markets = ['de_de', 'en_gb', 'fr_fr'].map(requireMarket);
+
+    it('keeps crawling after a market failed and returns the failed markets', async () => {
+        const crawled: string[] = [];
+        const recovered: string[] = [];
+
+        const failedMarkets = await crawlEachMarket(markets, {
+            hasReachedLimit: () => false,
+            crawl: async (market) => {
+                crawled.push(market.code);
+                if (market.code === 'en_gb') throw new Error('Request blocked - received 403 status code');
+            },
+            recover: async (market, error) => {
+                recovered.push(`${market.code}: ${error.message}`);
+            },
+        });
+
+        assert.deepEqual(crawled, ['de_de', 'en_gb', 'fr_fr']);
+        assert.deepEqual(recovered, ['en_gb: Request blocked - received 403 status code']);
+        assert.deepEqual(failedMarkets, ['en_gb']);
+    });
+
+    it('counts a market as failed when its recovery fails too', async () => {
+        const failedMarkets = await crawlEachMarket(markets, {
+            hasReachedLimit: () => false,
+            crawl: async (market) => {
+                if (market.code === 'de_de') throw new Error('connect ETIMEDOUT');
+            },
+            recover: async () => {
+                throw new Error('Dataset is not writable');
+            },
+        });
+
+        assert.deepEqual(failedMarkets, ['de_de']);
+    });
+
+    it('skips the remaining markets once the product limit is reached', async () => {
+        const crawled: string[] = [];
+
+        await crawlEachMarket(markets, {
+            hasReachedLimit: () => crawled.length === 2,
+            crawl: async (market) => { crawled.push(market.code); },
+            recover: async () => {},
+        });
+
+        assert.deepEqual(crawled, ['de_de', 'en_gb']);
+    });
+});
+
+describe('assertMarketsSucceeded', () => {
+    it('fails the run with every failed market', () => {
+        assert.throws(() => assertMarketsSucceeded(['en_gb', 'fr_fr']), { message: 'Crawler failed for market(s): en_gb, fr_fr' });
+    });
+
+    it('passes when no market failed', () => {
+        assert.doesNotThrow(() => assertMarketsSucceeded([]));
+    });
+});
+
+describe('market request queues', () => {
+    const storageDir = mkdtempSync(join(tmpdir(), 'market-runs-'));
+    const market = requireMarket('de_de');
+
+    before(() => {
+        process.env.CRAWLEE_STORAGE_DIR = storageDir;
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    after(() => {
+        rmSync(storageDir, { recursive: true, force: true });
+    });
+
+    it('names the queue after the market and the run', () => {
+        assert.equal(getMarketQueueName(market, 'abc123'), 'market-de-de-abc123');
+    });
+
+    it('gives every local run its own queue name', () => {
+        assert.match(getMarketQueueName(market), /^market-de-de-[0-9a-f]{8}$/);
+    });
+
+    it('drops the queue of a failed market', async () => {
+        const drop = mock.method(RequestQueue.prototype, 'drop', async () => {});
+        let queueName: string | undefined;
+
+        await assert.rejects(
+            withMarketQueue(market, async (requestQueue) => {
+                queueName = requestQueue.name;
+                throw new Error('Request blocked - received 403 status code');
+            }),
+            /Request blocked/,
+        );
+
+        assert.equal(queueName, getMarketQueueName(market));
+        assert.equal(drop.mock.callCount(), 1);
+    });
+
+    it('drops the queue of a finished market', async () => {
+        const drop = mock.method(RequestQueue.prototype, 'drop', async () => {});
+
+        const requestsFailed = await withMarketQueue(market, async () => 0);
+
+        assert.equal(requestsFailed, 0);
+        assert.equal(drop.mock.callCount(), 1);
+    });
+
+    it('keeps the error of the market when the queue cannot be dropped', async () => {
+        mock.method(RequestQueue.prototype, 'drop', async () => {
+            throw new Error('ENOENT: no such file or directory');
+        });
+
+        await assert.rejects(
+            withMarketQueue(market, async () => {
+                throw new Error('Request blocked - received 403 status code');
+            }),
+            /Request blocked/,
+        );
+    });
+});
@@ -0,0 +1,50 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildPriceComparisons, ExchangeRates } from '../src/price_comparison.js';
+
+const exchangeRates: ExchangeRates = { base: 'EUR', rates: { GBP: 0.8, USD: 1.1 } };
+
+const records = [
+    { market: 'en_gb', country: 'United Kingdom', articleNo: '1023045002', productName: 'Slim Fit Jacket', currency: 'GBP', listPrice: 20, salePrice: null },
+    { market: 'de_de', country: 'Germany', articleNo: '1023045002', productName: 'Slim Fit Jacket', currency: 'EUR', listPrice: 25, salePrice: 22 },
+    { market: 'de_de', country: 'Germany', articleNo: '1023045001', productName: 'Slim Fit Jacket', currency: 'EUR', listPrice: 25, salePrice: null },
+    { market: 'sv_se', country: 'Sweden', articleNo: '1023045002', productName: 'Slim Fit Jacket', currency: 'SEK', listPrice: 299, salePrice: null },
+    { market: 'en_gb', country: 'United Kingdom', articleNo: '0970818001', productName: 'Cotton T-shirt', currency: 'GBP', listPrice: 8, salePrice: null },
+];
+
+describe('buildPriceComparisons', () => {
+    it('converts the cheapest color of every market to the reference currency', () => {
+        const [comparison] = buildPriceComparisons(records, exchangeRates, 'EUR');
+
+        assert.equal(comparison.baseProductId, '1023045');
+        assert.equal(comparison.marketCount, 3);
+        assert.deepEqual(comparison.markets.map(({ market, price, convertedPrice }) => [market, price, convertedPrice]), [
+            ['en_gb', 20, 25],
+            ['de_de', 22, 22],
+            ['sv_se', 299, undefined],
+        ]);
+        assert.deepEqual(comparison.missingExchangeRates, ['SEK']);
+    });
+
+    it('computes the price spread between the cheapest and the most expensive market', () => {
+        const [comparison] = buildPriceComparisons(records, exchangeRates, 'EUR');
+
+        assert.equal(comparison.cheapestMarket, 'de_de');
+        assert.equal(comparison.cheapestPrice, 22);
+        assert.equal(comparison.mostExpensiveMarket, 'en_gb');
+        assert.equal(comparison.mostExpensivePrice, 25);
+        assert.equal(comparison.priceSpreadPercentage, 13.64);
+    });
+
+    it('rebases the exchange rates on another reference currency', () => {
+        const [comparison] = buildPriceComparisons(records, exchangeRates, 'GBP');
+
+        assert.equal(comparison.cheapestPrice, 17.6);
+        assert.equal(comparison.mostExpensivePrice, 20);
+    });
+
+    it('skips articles scraped in a single market', () => {
+        const comparisons = buildPriceComparisons(records, exchangeRates, 'EUR');
+        assert.deepEqual(comparisons.map(({ baseProductId }) => baseProductId), ['1023045']);
+    });
+});
@@ -0,0 +1,105 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { DEFAULT_INPUT } from '../src/input.js';
+import { getEffectivePrice, PricePoint, priceHistoryTracker, summarizePriceHistory } from '../src/price_history.js';
+
+const point = (day: number, listPrice: number, salePrice: number | null = null): PricePoint => ({
+    listPrice,
+    salePrice,
+    currency: 'EUR',
+    timestamp: new Date(Date.UTC(2024, 2, day, 12)).toISOString(),
+});
+
+describe('getEffectivePrice', () => {
+    it('prefers the sale price', () => {
+        assert.equal(getEffectivePrice(point(1, 29.99, 19.99)), 19.99);
+        assert.equal(getEffectivePrice(point(1, 29.99)), 29.99);
+    });
+});
+
+describe('summarizePriceHistory', () => {
+    it('counts markdowns and the days spent on sale', () => {
+        const summary = summarizePriceHistory([point(1, 30), point(3, 30, 25), point(4, 30, 20), point(6, 30)]);
+
+        assert.deepEqual(summary, {
+            firstSeen: '2024-03-01T12:00:00.000Z',
+            lastSeen: '2024-03-06T12:00:00.000Z',
+            lowestPrice: 20,
+            currentPrice: 30,
+            markdownCount: 2,
+            daysOnSale: 3,
+        });
+    });
+
+    it('counts a lower list price as a markdown', () => {
+        const summary = summarizePriceHistory([point(1, 30), point(2, 25), point(3, 25)]);
+
+        assert.equal(summary.markdownCount, 1);
+        assert.equal(summary.daysOnSale, 0);
+        assert.equal(summary.currentPrice, 25);
+    });
+
+    it('summarizes a single observation', () => {
+        const summary = summarizePriceHistory([point(1, 30, 24)]);
+
+        assert.equal(summary.firstSeen, summary.lastSeen);
+        assert.equal(summary.lowestPrice, 24);
+        assert.equal(summary.markdownCount, 0);
+        assert.equal(summary.daysOnSale, 0);
+    });
+});
+
+describe('priceHistoryTracker', () => {
+    // Histories are stored in a throwaway storage directory
+    const storageDir = mkdtempSync(join(tmpdir(), 'hm-price-history-'));
+
+    const record = (day: number, listPrice: number, salePrice: number | null = null) => ({
+        articleNo: '1023045002',
+        market: 'de_de',
+        productName: 'Slim Fit Jacket',
+        ...point(day, listPrice, salePrice),
+    });
+
+    before(() => {
+        process.env.CRAWLEE_STORAGE_DIR = storageDir;
+        priceHistoryTracker.configure({ ...DEFAULT_INPUT, trackPriceHistory: true });
+    });
+
+    after(() => {
+        rmSync(storageDir, { recursive: true, force: true });
+    });
+
+    it('stores the observed prices only on commit', async () => {
+        const [observation] = await priceHistoryTracker.record([record(1, 60)]);
+        assert.equal(observation.previous, null);
+
+        priceHistoryTracker.discard();
+        assert.equal(await priceHistoryTracker.getHistory('de_de', '1023045002'), null);
+
+        await priceHistoryTracker.record([record(1, 60)]);
+        await priceHistoryTracker.commit();
+        assert.deepEqual((await priceHistoryTracker.getHistory('de_de', '1023045002'))?.points, [point(1, 60)]);
+    });
+
+    it('observes a discarded price again against the last stored one', async () => {
+        const [first] = await priceHistoryTracker.record([record(2, 60, 45)]);
+        priceHistoryTracker.discard();
+        const [second] = await priceHistoryTracker.record([record(2, 60, 45)]);
+        await priceHistoryTracker.commit();
+
+        assert.deepEqual(first.previous, point(1, 60));
+        assert.deepEqual(second.previous, point(1, 60));
+        assert.equal((await priceHistoryTracker.getHistory('de_de', '1023045002'))?.summary.markdownCount, 1);
+    });
+
+    it('records the shared price of variant records once', async () => {
+        const observations = await priceHistoryTracker.record([record(3, 60, 40), { ...record(3, 60, 40), size: '48' }]);
+        await priceHistoryTracker.commit();
+
+        assert.equal(observations.length, 1);
+        assert.equal((await priceHistoryTracker.getHistory('de_de', '1023045002'))?.points.length, 3);
+    });
+});
@@ -0,0 +1,81 @@
+import { after, afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CanonicalProduct } from '../src/canonical_schema.js';
+import { createDataSink, DataSink, dataSinks, DEFAULT_OUTPUT_SINKS } from '../src/data_sinks.js';
+import { DedupMergePolicy, productDedup } from '../src/dedup.js';
+import { DEFAULT_INPUT } from '../src/input.js';
+import { ProgressiveDataSaver, progressiveDataSaver } from '../src/progressive_saving.js';
+
+const product = (fields: Partial<CanonicalProduct> = {}) => ({
+    productId: '1023045002',
+    market: 'en_gb',
+    title: 'Linen-blend blazer',
+    url: 'https://www2.hm.com/en_gb/productpage.1023045002.html',
+    ...fields,
+}) as CanonicalProduct;
+
+const useMemorySink = () => {
+    const records: Record<string, any>[] = [];
+    const sink: DataSink = { name: 'memory', batchSize: 0, write: async (batch) => { records.push(...batch); } };
+    dataSinks.use([sink]);
+    return records;
+};
+
+const createSaver = (dedupMergePolicy: DedupMergePolicy) => {
+    productDedup.reset();
+    productDedup.configure({ ...DEFAULT_INPUT, dedupMergePolicy });
+    return new ProgressiveDataSaver({ batchSize: 1, minQualityScore: 0 });
+};
+
+describe('ProgressiveDataSaver', () => {
+    afterEach(() => {
+        dataSinks.use(DEFAULT_OUTPUT_SINKS.map(createDataSink));
+        productDedup.configure(DEFAULT_INPUT);
+        productDedup.reset();
+    });
+
+    after(async () => {
+        await progressiveDataSaver.cleanup();
+    });
+
+    it('writes records as their batch fills and drops duplicates with keepFirst', async () => {
+        const written = useMemorySink();
+        const saver = createSaver('keepFirst');
+
+        assert.equal(await saver.addCanonicalProduct(product()), true);
+        assert.equal(written.length, 1);
+        assert.equal(await saver.addCanonicalProduct(product({ description: 'Single-breasted blazer', price: 59.99 })), false);
+        await saver.cleanup();
+
+        assert.deepEqual(written.map(({ description }) => description), [undefined]);
+    });
+
+    it('holds records until the end of the run and writes the updated version once with keepRichest', async () => {
+        const written = useMemorySink();
+        const saver = createSaver('keepRichest');
+
+        assert.equal(await saver.addCanonicalProduct(product()), true);
+        assert.equal(await saver.addCanonicalProduct(product({ description: 'Single-breasted blazer', price: 59.99 })), false);
+        assert.equal(written.length, 0);
+        assert.equal(saver.getStats().heldRecords, 1);
+
+        await saver.cleanup();
+
+        assert.equal(written.length, 1);
+        assert.equal(written[0].description, 'Single-breasted blazer');
+        assert.equal('upsertKey' in written[0], false);
+    });
+
+    it('writes the merged record once with mergeFields', async () => {
+        const written = useMemorySink();
+        const saver = createSaver('mergeFields');
+
+        await saver.addCanonicalProduct(product({ description: 'Single-breasted blazer' }));
+        await saver.addCanonicalProduct(product({ price: 59.99, currency: 'GBP' }));
+        await saver.cleanup();
+
+        assert.equal(written.length, 1);
+        assert.equal(written[0].description, 'Single-breasted blazer');
+        assert.equal(written[0].price, 59.99);
+    });
+});
@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_INPUT } from '../src/input.js';
+import { requireMarket } from '../src/markets.js';
+import { evaluateQualityGate, getBaselineScope, QualityGateThresholds } from '../src/quality_gate.js';
+import { DataQualityReport, qualityReport } from '../src/quality_report.js';
+
+const createReport = (overrides: Partial<DataQualityReport> = {}, fillRates: Partial<DataQualityReport['fieldFillRates']> = {}): DataQualityReport => {
+    const report = qualityReport.getReport();
+    return {
+        ...report,
+        processed: 100,
+        valid: 95,
+        invalid: 5,
+        validRate: 0.95,
+        averageQualityScore: 88,
+        ...overrides,
+        fieldFillRates: { ...report.fieldFillRates, imageUrl: 1, salePrice: 0.4, ...fillRates },
+    };
+};
+
+const thresholds: QualityGateThresholds = {
+    minValidProductRate: 0.9,
+    minAverageQualityScore: 80,
+    minProductCountRatio: 0.8,
+    maxFillRateDrops: { imageUrl: 0.05, salePrice: 0.2 },
+};
+
+describe('evaluateQualityGate', () => {
+    it('passes a run matching its baseline', () => {
+        assert.deepEqual(evaluateQualityGate(createReport(), createReport(), thresholds), []);
+    });
+
+    it('checks the valid rate and average score without a baseline', () => {
+        const violations = evaluateQualityGate(createReport({ validRate: 0.6, averageQualityScore: 52.5 }, { imageUrl: 0 }), null, thresholds);
+
+        assert.deepEqual(violations.map(({ check, actual, threshold }) => ({ check, actual, threshold })), [
+            { check: 'validRate', actual: 0.6, threshold: 0.9 },
+            { check: 'averageQualityScore', actual: 52.5, threshold: 80 },
+        ]);
+    });
+
+    it('flags fewer products and emptier fields than the last successful run', () => {
+        const violations = evaluateQualityGate(createReport({ valid: 40 }, { imageUrl: 0.5, salePrice: 0.3 }), createReport(), thresholds);
+
+        assert.deepEqual(violations.map(({ check, field, actual }) => ({ check, field, actual })), [
+            { check: 'productCount', field: undefined, actual: 0.4211 },
+            { check: 'fillRateDrop', field: 'imageUrl', actual: 0.5 },
+        ]);
+        assert.match(violations[1].message, /imageUrl dropped from 1 to 0.5/);
+    });
+
+    it('skips disabled checks', () => {
+        const disabled = { minValidProductRate: 0, minAverageQualityScore: 0, minProductCountRatio: 0, maxFillRateDrops: {} };
+        assert.deepEqual(evaluateQualityGate(createReport({ valid: 1, validRate: 0.01 }, { imageUrl: 0 }), createReport(), disabled), []);
+    });
+});
+
+describe('getBaselineScope', () => {
+    it('keeps baselines of different markets and limits apart', () => {
+        const [gb, de] = ['en_gb', 'de_de'].map(requireMarket);
+        const scope = getBaselineScope(DEFAULT_INPUT, [gb, de]);
+
+        assert.match(scope, /^catalog_[0-9a-f]{12}$/);
+        assert.equal(getBaselineScope(DEFAULT_INPUT, [de, gb]), scope);
+        assert.notEqual(getBaselineScope(DEFAULT_INPUT, [gb]), scope);
+        assert.notEqual(getBaselineScope({ ...DEFAULT_INPUT, maxProducts: 500 }, [gb, de]), scope);
+    });
+});
@@ -0,0 +1,98 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateProductQualityScore, ProductData } from '../src/data_validation.js';
+import { fromCanonicalProduct, getScoreBucket, isFieldFilled, qualityReport } from '../src/quality_report.js';
+
+const product: ProductData = {
+    company: 'H&M',
+    country: 'United Kingdom',
+    market: 'en_gb',
+    productName: 'Slim Fit Jacket',
+    articleNo: 1023045002,
+    division: 'Men',
+    category: 'Suits & Blazers',
+    subCategory: 'Blazers',
+    listPrice: 59.99,
+    salePrice: 39.99,
+    currency: 'GBP',
+    description: 'Single-breasted jacket in woven fabric with notch lapels and a chest pocket.',
+    url: 'https://www2.hm.com/en_gb/productpage.1023045002.html',
+    imageUrl: 'https://image.hm.com/assets/hm/1a/2b/1023045002.jpg',
+    timestamp: '2024-03-01T10:00:00.000Z',
+    sizes: ['46', '48'],
+};
+
+describe('getScoreBucket', () => {
+    it('buckets scores by ten, 100 in the highest bucket', () => {
+        assert.equal(getScoreBucket(0), '0-9');
+        assert.equal(getScoreBucket(75), '70-79');
+        assert.equal(getScoreBucket(100), '90-100');
+    });
+});
+
+describe('isFieldFilled', () => {
+    it('does not count empty strings, zero prices and empty lists', () => {
+        assert.deepEqual(['', 0, null, undefined, []].map(isFieldFilled), [false, false, false, false, false]);
+        assert.deepEqual(['GBP', 39.99, ['46'], false].map(isFieldFilled), [true, true, true, true]);
+    });
+});
+
+describe('fromCanonicalProduct', () => {
+    it('scores canonical products on their legacy fields', () => {
+        const reported = fromCanonicalProduct({
+            productId: '1023045002',
+            title: product.productName,
+            description: product.description,
+            gender: 'men',
+            category: 'blazers',
+            price: 39.99,
+            originalPrice: 59.99,
+            salePrice: 39.99,
+            currency: 'GBP',
+            thumbnail: product.imageUrl,
+            url: product.url,
+            market: 'en_gb',
+            availableSizes: [{ code: '001', name: '46', stock: 'in' }],
+        });
+
+        assert.equal(reported.articleNo, 1023045002);
+        assert.equal(reported.listPrice, 59.99);
+        assert.deepEqual(reported.sizes, ['46']);
+        assert.equal(calculateProductQualityScore(reported), 100);
+    });
+});
+
+describe('qualityReport', () => {
+    beforeEach(() => qualityReport.reset());
+
+    it('reports fill rates, dimensions, histogram and breakdowns', () => {
+        qualityReport.recordProduct(product, true);
+        qualityReport.recordProduct({ ...product, market: 'de_de', salePrice: null, description: '', sizes: [] }, true);
+        qualityReport.recordProduct({ ...product, category: 'Shirts', productName: '', imageUrl: '' }, false);
+
+        const report = qualityReport.getReport();
+        assert.deepEqual([report.processed, report.valid, report.invalid, report.validRate], [3, 2, 1, 0.6667]);
+        assert.equal(report.averageQualityScore, 87.5);
+        assert.deepEqual(report.dimensions.description, { averagePoints: 10, maxPoints: 20 });
+        assert.deepEqual(report.dimensions.price, { averagePoints: 17.5, maxPoints: 20 });
+        assert.equal(report.fieldFillRates.imageUrl, 0.6667);
+        assert.equal(report.fieldFillRates.salePrice, 0.6667);
+        assert.equal(report.fieldFillRates.sizes, 0.6667);
+        assert.equal(report.scoreHistogram['90-100'], 1);
+        assert.equal(report.scoreHistogram['70-79'], 1);
+        assert.deepEqual(report.byMarket.en_gb, { processed: 2, valid: 1, invalid: 1, validRate: 0.5, averageQualityScore: 100 });
+        assert.deepEqual(Object.keys(report.byCategory), ['Men / Suits & Blazers', 'Men / Shirts']);
+    });
+
+    it('ranks failure reasons by count', () => {
+        qualityReport.recordFailure(['description.required']);
+        qualityReport.recordFailure(['description.required', 'sizes.required']);
+        qualityReport.recordFailure(['qualityScore.belowMinimum']);
+
+        assert.deepEqual(qualityReport.getReport().topFailureReasons, [
+            { reason: 'description.required', count: 2 },
+            { reason: 'qualityScore.belowMinimum', count: 1 },
+            { reason: 'sizes.required', count: 1 },
+        ]);
+    });
+});
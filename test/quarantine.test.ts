@@ -0,0 +1,98 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Actor } from 'apify';
+import { Labels } from '../src/constants.js';
+import { cleanProduct, validateProductData, VALIDATION_PROFILES } from '../src/data_validation.js';
+import {
+    MAX_PENDING_QUARANTINE_RECORDS,
+    quarantine,
+    toQualityQuarantineRecord,
+    toValidationQuarantineRecord,
+} from '../src/quarantine.js';
+
+const rawProduct = {
+    company: 'H&M',
+    country: 'United Kingdom',
+    market: 'en_gb',
+    productName: '  Slim Fit Jacket ',
+    articleNo: '1023045002',
+    listPrice: '£59.99',
+    salePrice: null,
+    currency: 'GBP',
+    description: 'Short',
+    url: 'https://www2.hm.com/en_gb/productpage.1023045002.html',
+    imageUrl: 'https://image.hm.com/assets/hm/1a/2b/1023045002.jpg',
+    timestamp: '2024-03-01T10:00:00.000Z',
+};
+
+const source = { route: Labels.SUB_CATEGORY, url: 'https://www2.hm.com/en_gb/men/shop-by-product/suits-blazers.html' };
+const quarantinedAt = '2024-03-01T10:05:00.000Z';
+
+describe('toValidationQuarantineRecord', () => {
+    it('keeps the raw and cleaned product with the failing rules, quality breakdown and source', () => {
+        const product = cleanProduct(rawProduct);
+        const { issues } = validateProductData(product, VALIDATION_PROFILES.detail);
+        const record = toValidationQuarantineRecord(rawProduct, product, issues, 'detail', source, quarantinedAt);
+
+        assert.equal(record.stage, 'validation');
+        assert.deepEqual(record.reasons, ['description.tooShort']);
+        assert.equal(record.profile, 'detail');
+        assert.deepEqual(record.qualityBreakdown, { name: 20, description: 0, price: 15, image: 20, url: 10, article: 10 });
+        assert.equal(record.qualityScore, 75);
+        assert.deepEqual([record.route, record.sourceUrl], [Labels.SUB_CATEGORY, source.url]);
+        assert.deepEqual([record.market, record.articleNo, record.productName], ['en_gb', 1023045002, 'Slim Fit Jacket']);
+        assert.equal(record.rawProduct, rawProduct);
+        assert.equal(record.product?.listPrice, 59.99);
+        assert.equal(record.quarantinedAt, quarantinedAt);
+    });
+
+    it('falls back to the raw product when it could not be cleaned', () => {
+        const issue = { field: 'product', reason: 'invalidFormat' as const, code: 'product.invalidFormat', message: 'Unexpected value' };
+        const record = toValidationQuarantineRecord(rawProduct, null, [issue], 'listing', source, quarantinedAt);
+
+        assert.deepEqual(record.reasons, ['product.invalidFormat']);
+        assert.equal(record.qualityScore, null);
+        assert.equal(record.articleNo, '1023045002');
+        assert.equal(record.productName, '  Slim Fit Jacket ');
+    });
+});
+
+describe('toQualityQuarantineRecord', () => {
+    it('records the score against the minimum quality score', () => {
+        const product = cleanProduct({ ...rawProduct, description: '' });
+        const record = toQualityQuarantineRecord(rawProduct, product, 80, source, quarantinedAt);
+
+        assert.equal(record.stage, 'quality');
+        assert.deepEqual(record.reasons, ['qualityScore.belowMinimum']);
+        assert.deepEqual(record.issues, []);
+        assert.equal(record.qualityScore, 75);
+        assert.equal(record.minQualityScore, 80);
+        assert.equal(record.qualityBreakdown?.description, 0);
+    });
+});
+
+describe('quarantine.flush', () => {
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it('keeps at most the newest pending records while the dataset cannot be written', async () => {
+        const product = cleanProduct(rawProduct);
+        for (let i = 0; i < MAX_PENDING_QUARANTINE_RECORDS + 5; i++) {
+            quarantine.add(toQualityQuarantineRecord(rawProduct, { ...product, articleNo: i }, 80, source, quarantinedAt));
+        }
+
+        mock.method(Actor, 'openDataset', async () => {
+            throw new Error('Dataset is not writable');
+        });
+        await quarantine.flush(true);
+
+        const saved: any[] = [];
+        mock.method(Actor, 'openDataset', async () => ({ pushData: async (records: any[]) => { saved.push(...records); } }));
+        await quarantine.flush(true);
+
+        assert.equal(saved.length, MAX_PENDING_QUARANTINE_RECORDS);
+        assert.equal(saved[0].articleNo, 5);
+        assert.equal(saved.at(-1).articleNo, MAX_PENDING_QUARANTINE_RECORDS + 4);
+    });
+});
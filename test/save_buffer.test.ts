@@ -0,0 +1,62 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ProductData } from '../src/data_validation.js';
+import { DedupMergePolicy, productDedup } from '../src/dedup.js';
+import { DEFAULT_INPUT } from '../src/input.js';
+import { SaveBuffer } from '../src/save_buffer.js';
+
+const product = (articleNo: number, fields: Partial<ProductData> = {}) => ({
+    articleNo,
+    market: 'en_gb',
+    productName: 'Linen-blend blazer',
+    ...fields,
+}) as ProductData;
+
+const createBuffer = (dedupMergePolicy: DedupMergePolicy) => {
+    productDedup.reset();
+    productDedup.configure({ ...DEFAULT_INPUT, dedupMergePolicy });
+    return new SaveBuffer();
+};
+
+describe('SaveBuffer', () => {
+    afterEach(() => {
+        productDedup.configure(DEFAULT_INPUT);
+        productDedup.reset();
+    });
+
+    it('buffers new records and drops duplicates with keepFirst', () => {
+        const buffer = createBuffer('keepFirst');
+
+        assert.equal(buffer.addProduct(product(1023045002), true), true);
+        assert.equal(buffer.addProduct(product(1023045002, { description: 'Single-breasted blazer' }), true), false);
+        assert.equal(buffer.addProduct(product(1023045002), false), true);
+
+        assert.equal(buffer.getSize(), 2);
+        assert.equal(buffer.getHeldCount(), 0);
+    });
+
+    it('holds updatable records and takes them only for the final save', () => {
+        const buffer = createBuffer('keepRichest');
+
+        buffer.addProduct(product(1023045002), true);
+        buffer.addProduct(product(1023045002, { description: 'Single-breasted blazer' }), true);
+
+        assert.equal(buffer.hasRecords(false), false);
+        assert.deepEqual(buffer.take(false).held, []);
+
+        const { held } = buffer.take(true);
+        assert.deepEqual(held.map(({ description }) => description), ['Single-breasted blazer']);
+        assert.equal(buffer.hasRecords(true), false);
+    });
+
+    it('restores the records of a failed save ahead of the records buffered meanwhile', () => {
+        const buffer = createBuffer('keepFirst');
+        buffer.addProduct(product(1023045002), true);
+
+        const taken = buffer.take(true);
+        buffer.addProduct(product(1023045003), true);
+        buffer.restore(taken);
+
+        assert.deepEqual(buffer.take(true).products.map(({ articleNo }) => articleNo), [1023045002, 1023045003]);
+    });
+});
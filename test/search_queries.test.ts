@@ -0,0 +1,19 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { searchQueryTracker } from '../src/search_queries.js';
+
+describe('searchQueryTracker', () => {
+    afterEach(() => searchQueryTracker.reset());
+
+    it('keeps every query that matched a product', () => {
+        searchQueryTracker.record('denim jacket', { articleNo: '1023045002', market: 'en_gb' });
+        searchQueryTracker.record('jacket', { articleNo: '1023045002', market: 'en_gb' });
+        searchQueryTracker.record('jacket', { articleNo: '1023045002', market: 'en_gb' });
+        searchQueryTracker.record('jacket', { articleNo: '1023045002', market: 'de_de' });
+
+        assert.deepEqual(searchQueryTracker.getMatches().queries, {
+            'denim jacket': [{ articleNo: '1023045002', market: 'en_gb' }],
+            jacket: [{ articleNo: '1023045002', market: 'en_gb' }, { articleNo: '1023045002', market: 'de_de' }],
+        });
+    });
+});
@@ -0,0 +1,6 @@
+import { log, LogLevel } from 'crawlee';
+
+/**
+ * Loaded before every test file, extractors and sanitizers log every fallback they try
+ */
+log.setLevel(LogLevel.OFF);
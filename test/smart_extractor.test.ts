@@ -0,0 +1,126 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { load } from 'cheerio';
+import { loadFixture } from './helpers.js';
+import { SmartDataExtractor } from '../src/smart_extractor.js';
+
+describe('SmartDataExtractor', () => {
+    describe('extractFromNextJs', () => {
+        it('reads products, pagination and facets from __NEXT_DATA__', () => {
+            const result = SmartDataExtractor.extractFromNextJs(loadFixture('listing-next-data.html'));
+
+            assert.ok(result);
+            assert.equal(result.totalProducts, 74);
+            assert.equal(result.currentPage, 2);
+            assert.equal(result.totalPages, 3);
+            assert.deepEqual(result.filters, { colorWithNames: ['black_000000', 'beige_f5f5dc'] });
+            assert.equal(result.products.length, 2);
+            assert.deepEqual(result.products[0], {
+                articleCode: '1023045002',
+                title: 'Slim Fit Jacket',
+                pdpUrl: '/en_gb/productpage.1023045002.html',
+                regularPrice: '£59.99',
+                redPrice: '£39.99',
+                category: 'men_blazerssuits_blazers',
+                imageUrl: '//image.hm.com/assets/hm/1a/2b/1023045002.jpg',
+                colors: [{ name: 'Black', code: '#000000' }, { name: 'Beige', code: '#F5F5DC' }],
+                sizes: [{ code: '001', name: '46', stock: 'in' }, { code: '002', name: '48', stock: 'low' }],
+            });
+            assert.equal(result.products[1].redPrice, undefined);
+        });
+
+        it('returns null without __NEXT_DATA__ or with an unknown structure', () => {
+            assert.equal(SmartDataExtractor.extractFromNextJs(loadFixture('listing-json-ld.html')), null);
+
+            const unknownStructure = '<script id="__NEXT_DATA__" type="application/json">{"props":{"pageProps":{}}}</script>';
+            assert.equal(SmartDataExtractor.extractFromNextJs(unknownStructure), null);
+        });
+
+        it('returns null for malformed JSON', () => {
+            const malformed = '<script id="__NEXT_DATA__" type="application/json">{"props":</script>';
+            assert.equal(SmartDataExtractor.extractFromNextJs(malformed), null);
+        });
+    });
+
+    describe('extractFromWindowObject', () => {
+        it('reads products from a window assignment', () => {
+            const result = SmartDataExtractor.extractFromWindowObject(loadFixture('listing-window-object.html'));
+
+            assert.ok(result);
+            assert.equal(result.totalProducts, 1);
+            assert.equal(result.products[0].articleCode, '1023045002');
+            assert.equal(result.products[0].title, 'Slim Fit Jacket');
+            assert.equal(result.products[0].pdpUrl, '/en_gb/productpage.1023045002.html');
+            assert.equal(result.products[0].regularPrice, '£59.99');
+            assert.equal(result.products[0].redPrice, undefined);
+        });
+
+        it('returns null without a known window assignment', () => {
+            assert.equal(SmartDataExtractor.extractFromWindowObject(loadFixture('listing-next-data.html')), null);
+        });
+    });
+
+    describe('extractFromJsonLd', () => {
+        it('reads the ItemList and skips other structured data', () => {
+            const result = SmartDataExtractor.extractFromJsonLd(loadFixture('listing-json-ld.html'));
+
+            assert.ok(result);
+            assert.deepEqual(result.products, [{
+                articleCode: '1023045002',
+                title: 'Slim Fit Jacket',
+                pdpUrl: 'https://www2.hm.com/en_gb/productpage.1023045002.html',
+                regularPrice: '59.99',
+                category: 'Blazers',
+                imageUrl: 'https://image.hm.com/assets/hm/1a/2b/1023045002.jpg',
+            }]);
+        });
+
+        it('returns null without an ItemList', () => {
+            assert.equal(SmartDataExtractor.extractFromJsonLd(loadFixture('listing-window-object.html')), null);
+        });
+    });
+
+    describe('extractFromDataAttributes', () => {
+        it('reads product cards and skips cards without an article code', () => {
+            const result = SmartDataExtractor.extractFromDataAttributes(load(loadFixture('listing-data-attributes.html')));
+
+            assert.ok(result);
+            assert.equal(result.products.length, 1);
+
+            const [product] = result.products;
+            // Cheerio converts numeric data attributes to numbers
+            assert.equal(String(product.articleCode), '1023045002');
+            assert.equal(product.title, 'Slim Fit Jacket');
+            assert.equal(product.pdpUrl, '/en_gb/productpage.1023045002.html');
+            assert.equal(product.regularPrice, '£59.99');
+            assert.equal(product.redPrice, '£39.99');
+            assert.equal(product.category, 'men_blazerssuits_blazers');
+            assert.equal(product.imageUrl, '//image.hm.com/assets/hm/1a/2b/1023045002.jpg');
+        });
+
+        it('returns null without product cards', () => {
+            assert.equal(SmartDataExtractor.extractFromDataAttributes(load(loadFixture('listing-json-ld.html'))), null);
+        });
+    });
+
+    describe('extract', () => {
+        it('prefers __NEXT_DATA__ over the fallbacks', () => {
+            const html = loadFixture('listing-next-data.html') + loadFixture('listing-json-ld.html');
+            const result = SmartDataExtractor.extract(html, load(html));
+
+            assert.equal(result?.totalProducts, 74);
+        });
+
+        it('falls back to the next strategy that finds products', () => {
+            assert.equal(SmartDataExtractor.extract(loadFixture('listing-window-object.html'))?.products[0].title, 'Slim Fit Jacket');
+            assert.equal(SmartDataExtractor.extract(loadFixture('listing-json-ld.html'))?.products[0].regularPrice, '59.99');
+
+            const html = loadFixture('listing-data-attributes.html');
+            assert.equal(SmartDataExtractor.extract(html, load(html))?.products[0].redPrice, '£39.99');
+        });
+
+        it('skips the data attribute strategy without a cheerio root', () => {
+            assert.equal(SmartDataExtractor.extract(loadFixture('listing-data-attributes.html')), null);
+        });
+    });
+});
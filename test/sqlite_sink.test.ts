@@ -0,0 +1,156 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Actor } from 'apify';
+import { DEFAULT_INPUT } from '../src/input.js';
+import { createProductDatabase, queryRows, sqliteSink, toSqliteRows, upsertRecords } from '../src/sqlite_sink.js';
+
+const legacyRecord = {
+    company: 'H&M',
+    country: 'United Kingdom',
+    market: 'en_gb',
+    productName: 'Linen-blend blazer',
+    articleNo: 1023045002,
+    division: 'men',
+    category: 'blazers',
+    subCategory: 'suits',
+    listPrice: 59.99,
+    salePrice: null,
+    currency: 'GBP',
+    description: 'Single-breasted blazer',
+    url: 'https://www2.hm.com/en_gb/productpage.1023045002.html',
+    imageUrl: 'https://image.hm.com/1.jpg',
+    timestamp: '2024-03-01T10:00:00.000Z',
+    sizes: ['46', '48'],
+    inStock: true,
+};
+
+describe('toSqliteRows', () => {
+    it('maps canonical records', () => {
+        const rows = toSqliteRows({
+            productId: '1023045002',
+            market: 'en_gb',
+            title: 'Linen-blend blazer',
+            domain: 'apparel',
+            category: 'blazers',
+            price: 39.99,
+            originalPrice: 59.99,
+            salePrice: 39.99,
+            currency: 'GBP',
+            availableSizes: [{ code: '001', name: '46', stock: 'low' }],
+            images: [{ url: 'https://image.hm.com/1.jpg', type: 'model', order: 0 }],
+            scrapedAt: '2024-03-01T10:00:00.000Z',
+        });
+
+        assert.equal(rows?.product.listPrice, 59.99);
+        assert.equal(rows?.product.salePrice, 39.99);
+        assert.deepEqual(rows?.category, { division: 'apparel', category: 'blazers', subCategory: '' });
+        assert.deepEqual(rows?.variants, [{ size: '46', variantId: '1023045002001', sku: null, sizeSystem: null, stock: 'low' }]);
+        assert.deepEqual(rows?.images, [{ url: 'https://image.hm.com/1.jpg', type: 'model' }]);
+    });
+
+    it('skips records without article or market', () => {
+        assert.equal(toSqliteRows({ productName: 'Blazer' }), null);
+    });
+
+    it('keeps the product of a variant record without a size but adds no size row', () => {
+        const rows = toSqliteRows({ ...legacyRecord, productId: '1023045002', variantId: '1023045002001', size: undefined });
+
+        assert.equal(rows?.product.articleNo, '1023045002');
+        assert.deepEqual(rows?.variants, []);
+    });
+
+    it('skips canonical sizes without name or code', () => {
+        const rows = toSqliteRows({ productId: '1023045002', market: 'en_gb', availableSizes: [{ stock: 'low' }, { code: '002', name: '48' }] });
+
+        assert.deepEqual(rows?.variants.map(({ size }) => size), ['48']);
+    });
+});
+
+describe('upsertRecords', () => {
+    it('upserts products by article and market and keeps every price', async () => {
+        const db = await createProductDatabase();
+        upsertRecords(db, [legacyRecord, { ...legacyRecord, market: 'de_de', currency: 'EUR', listPrice: 69.99 }]);
+        upsertRecords(db, [{ ...legacyRecord, salePrice: 39.99, sizes: ['48'], timestamp: '2024-03-08T10:00:00.000Z' }]);
+
+        assert.deepEqual(queryRows(db, 'SELECT market, list_price, sale_price, first_seen_at, updated_at FROM products ORDER BY market'), [
+            { market: 'de_de', list_price: 69.99, sale_price: null, first_seen_at: '2024-03-01T10:00:00.000Z', updated_at: '2024-03-01T10:00:00.000Z' },
+            { market: 'en_gb', list_price: 59.99, sale_price: 39.99, first_seen_at: '2024-03-01T10:00:00.000Z', updated_at: '2024-03-08T10:00:00.000Z' },
+        ]);
+        assert.deepEqual(queryRows(db, "SELECT sale_price FROM prices WHERE market = 'en_gb' ORDER BY observed_at"), [
+            { sale_price: null },
+            { sale_price: 39.99 },
+        ]);
+        assert.deepEqual(queryRows(db, "SELECT size FROM variants WHERE market = 'en_gb'"), [{ size: '48' }]);
+        assert.deepEqual(queryRows(db, 'SELECT division, category, sub_category FROM categories'), [
+            { division: 'men', category: 'blazers', sub_category: 'suits' },
+        ]);
+        assert.equal(queryRows(db, 'SELECT COUNT(*) AS count FROM images')[0].count, 2);
+    });
+
+    it('adds the sizes of variant records one by one', async () => {
+        const db = await createProductDatabase();
+        const variant = { ...legacyRecord, productId: '1023045002', sizeSystem: 'UK', sizes: undefined };
+        upsertRecords(db, [
+            { ...variant, variantId: '1023045002001', sku: '1023045002001', size: '46', sizeStock: 'in' },
+            { ...variant, variantId: '1023045002002', sku: '1023045002002', size: '48', sizeStock: 'out' },
+        ]);
+
+        assert.equal(queryRows(db, 'SELECT COUNT(*) AS count FROM products')[0].count, 1);
+        assert.deepEqual(queryRows(db, 'SELECT size, variant_id, stock FROM variants ORDER BY size'), [
+            { size: '46', variant_id: '1023045002001', stock: 'in' },
+            { size: '48', variant_id: '1023045002002', stock: 'out' },
+        ]);
+    });
+
+    it('reopens a saved database', async () => {
+        const db = await createProductDatabase();
+        upsertRecords(db, [legacyRecord]);
+
+        const reopened = await createProductDatabase(db.export());
+        assert.equal(queryRows(reopened, 'SELECT name FROM products')[0].name, 'Linen-blend blazer');
+    });
+});
+
+describe('sqliteSink', () => {
+    const storageDir = mkdtempSync(join(tmpdir(), 'sqlite-sink-'));
+    const recordKey = 'PRODUCTS_SQLITE_TEST';
+
+    before(() => {
+        process.env.CRAWLEE_STORAGE_DIR = storageDir;
+        sqliteSink.configure({ ...DEFAULT_INPUT, sqliteOutput: true, sqliteRecordKey: recordKey });
+    });
+
+    after(() => {
+        rmSync(storageDir, { recursive: true, force: true });
+    });
+
+    const savedProducts = async () => {
+        const saved = await Actor.getValue<Buffer>(recordKey);
+        assert.ok(saved);
+        const db = await createProductDatabase(new Uint8Array(saved));
+        return queryRows(db, 'SELECT market FROM products ORDER BY market');
+    };
+
+    it('stores the database on persistState and loads it back', async () => {
+        await sqliteSink.write([legacyRecord]);
+
+        const events = Actor.getDefaultInstance().eventManager;
+        events.emit('persistState', { isMigrating: false });
+        await events.waitForAllListenersToComplete();
+
+        assert.deepEqual(await savedProducts(), [{ market: 'en_gb' }]);
+    });
+
+    it('stores the database when the run migrates', async () => {
+        await sqliteSink.write([{ ...legacyRecord, market: 'de_de', currency: 'EUR' }]);
+
+        const events = Actor.getDefaultInstance().eventManager;
+        events.emit('migrating');
+        await events.waitForAllListenersToComplete();
+
+        assert.deepEqual(await savedProducts(), [{ market: 'de_de' }, { market: 'en_gb' }]);
+    });
+});
@@ -0,0 +1,89 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { HMUrlBuilder } from '../src/url_builder.js';
+
+const CATEGORY_URL = 'https://www2.hm.com/de_de/damen/produkte/kleider.html';
+
+describe('HMUrlBuilder', () => {
+    it('accepts full URLs and paths', () => {
+        assert.equal(new HMUrlBuilder(`${CATEGORY_URL}?sort=stock`).build(), `${CATEGORY_URL}?sort=stock`);
+        assert.equal(new HMUrlBuilder('de_de/damen/produkte/kleider.html').build(), CATEGORY_URL);
+    });
+
+    it('applies filters as H&M query parameters', () => {
+        const url = new URL(new HMUrlBuilder(CATEGORY_URL).applyFilters({
+            minPrice: 10,
+            maxPrice: 50,
+            colors: ['schwarz_000000', 'rot_ff0000'],
+            sizes: ['womenswear;NO_FORMAT[SML];M'],
+            materials: ['Baumwolle'],
+            fits: ['Regular fit'],
+            sale: true,
+            storeId: 'DE0123',
+            customFilters: { lengths: ['Midi'], season: 'summer' },
+        }).build());
+
+        assert.equal(url.searchParams.get('priceRange'), '[10,50]');
+        assert.deepEqual(url.searchParams.getAll('colorWithNames'), ['schwarz_000000', 'rot_ff0000']);
+        assert.deepEqual(url.searchParams.getAll('sizes'), ['womenswear;NO_FORMAT[SML];M']);
+        assert.deepEqual(url.searchParams.getAll('materials'), ['Baumwolle']);
+        assert.deepEqual(url.searchParams.getAll('fits'), ['Regular fit']);
+        assert.equal(url.searchParams.get('sale'), 'true');
+        assert.equal(url.searchParams.get('storeAvailability'), 'DE0123');
+        assert.deepEqual(url.searchParams.getAll('lengths'), ['Midi']);
+        assert.equal(url.searchParams.get('season'), 'summer');
+    });
+
+    it('fills an open price range', () => {
+        const url = new URL(new HMUrlBuilder(CATEGORY_URL).applyFilters({ maxPrice: 30 }).build());
+        assert.equal(url.searchParams.get('priceRange'), '[0,30]');
+    });
+
+    it('caps the page size at 128 and applies sort and display options', () => {
+        const url = new URL(new HMUrlBuilder(CATEGORY_URL)
+            .applyPagination({ offset: 72, pageSize: 500 })
+            .applySort({ sort: 'ascPrice' })
+            .applyDisplay({ imageSize: 'large', imageType: 'model' })
+            .build());
+
+        assert.equal(url.searchParams.get('offset'), '72');
+        assert.equal(url.searchParams.get('page-size'), '128');
+        assert.equal(url.searchParams.get('sort'), 'ascPrice');
+        assert.equal(url.searchParams.get('image-size'), 'large');
+        assert.equal(url.searchParams.get('image'), 'model');
+    });
+
+    it('generates one URL per page and keeps the filters', () => {
+        const urls = new HMUrlBuilder(CATEGORY_URL).applyFilters({ sale: true }).generatePageUrls(80, 36);
+
+        assert.deepEqual(urls, [
+            `${CATEGORY_URL}?sale=true&offset=0&page-size=36`,
+            `${CATEGORY_URL}?sale=true&offset=36&page-size=36`,
+            `${CATEGORY_URL}?sale=true&offset=72&page-size=36`,
+        ]);
+    });
+
+    it('parses filters, pagination, sort and display options back from a URL', () => {
+        const url = new HMUrlBuilder(CATEGORY_URL)
+            .applyFilters({ minPrice: 10, maxPrice: 50, colors: ['schwarz_000000'], sizes: ['M'], patterns: ['Gestreift'], customFilters: { lengths: 'Midi' } })
+            .applyPagination({ offset: 36, pageSize: 36 })
+            .applySort({ sort: 'newProduct' })
+            .applyDisplay({ imageType: 'product' })
+            .build();
+
+        assert.deepEqual(HMUrlBuilder.parseUrl(url), {
+            path: '/de_de/damen/produkte/kleider.html',
+            filters: {
+                minPrice: 10,
+                maxPrice: 50,
+                colors: ['schwarz_000000'],
+                sizes: ['M'],
+                patterns: ['Gestreift'],
+                customFilters: { lengths: ['Midi'] },
+            },
+            pagination: { offset: 36, pageSize: 36 },
+            sort: 'newProduct',
+            display: { imageType: 'product' },
+        });
+    });
+});
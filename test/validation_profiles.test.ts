@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { cleanProduct, compileValidationRules, validateProductData, VALIDATION_PROFILES } from '../src/data_validation.js';
+import { Labels } from '../src/constants.js';
+import { getPriceBounds } from '../src/markets.js';
+import { quarantine } from '../src/quarantine.js';
+import {
+    mergeValidationProfiles,
+    validateValidationProfiles,
+    validationProfiles,
+} from '../src/validation_profiles.js';
+
+const product = cleanProduct({
+    company: 'H&M',
+    country: 'United Kingdom',
+    market: 'en_gb',
+    productName: 'Slim Fit Jacket',
+    articleNo: '1023045002',
+    listPrice: 59.99,
+    salePrice: 39.99,
+    currency: 'GBP',
+    description: '',
+    url: 'https://www2.hm.com/en_gb/productpage.1023045002.html',
+    imageUrl: 'https://image.hm.com/assets/hm/1a/2b/1023045002.jpg',
+    timestamp: '2024-03-01T10:00:00.000Z',
+    sizes: ['46', '48'],
+});
+
+const reasons = (result: ReturnType<typeof validateProductData>) => result.issues.map(({ code }) => code);
+
+describe('validateProductData', () => {
+    it('requires descriptions on product pages only', () => {
+        assert.equal(validateProductData(product, VALIDATION_PROFILES.listing).isValid, true);
+        assert.deepEqual(reasons(validateProductData(product, VALIDATION_PROFILES.detail)), ['description.required']);
+    });
+
+    it('checks prices against the bounds of their currency', () => {
+        const yen = { ...product, market: 'ja_jp', currency: 'JPY', listPrice: 15000, salePrice: null };
+
+        assert.equal(getPriceBounds('JPY').max > getPriceBounds('EUR').max, true);
+        assert.equal(validateProductData(yen, VALIDATION_PROFILES.listing).isValid, true);
+        assert.deepEqual(reasons(validateProductData({ ...yen, currency: 'EUR' }, VALIDATION_PROFILES.listing)), ['listPrice.outOfRange']);
+    });
+
+    it('checks the consistency of prices, currency and sizes in the strict profile', () => {
+        const inconsistent = { ...product, description: 'Single-breasted jacket in woven fabric.', salePrice: 59.99, currency: 'EUR', sizes: [] };
+
+        assert.equal(validateProductData(inconsistent, VALIDATION_PROFILES.detail).isValid, true);
+        assert.deepEqual(reasons(validateProductData(inconsistent, VALIDATION_PROFILES.strict)), [
+            'salePrice.notBelowListPrice',
+            'currency.marketMismatch',
+            'sizes.required',
+        ]);
+    });
+});
+
+describe('mergeValidationProfiles', () => {
+    it('overrides single rules of a profile', () => {
+        const profiles = mergeValidationProfiles({ listing: { productName: { minLength: 20 } }, strict: { sizes: { required: false } } });
+
+        assert.deepEqual(profiles.listing.productName, { required: true, minLength: 20, maxLength: 200 });
+        assert.equal(profiles.strict.sizes.required, false);
+        assert.deepEqual(profiles.detail, compileValidationRules(VALIDATION_PROFILES.detail));
+    });
+
+    it('compiles the patterns of every profile, overridden patterns included', () => {
+        const profiles = mergeValidationProfiles({ listing: { articleNo: { pattern: '^\\d{10}$' } } });
+
+        assert.equal(profiles.listing.articleNo.regExp?.source, '^\\d{10}$');
+        assert.equal(profiles.detail.articleNo.regExp?.source, VALIDATION_PROFILES.detail.articleNo.pattern);
+        assert.deepEqual(reasons(validateProductData({ ...product, articleNo: 970819001 }, profiles.listing)), ['articleNo.invalidFormat']);
+    });
+});
+
+describe('validateValidationProfiles', () => {
+    it('reports unknown profiles, fields and rules, wrong types and invalid patterns', () => {
+        const { isValid, errors } = validateValidationProfiles(
+            {
+                lenient: {},
+                listing: { colour: {}, productName: { minLength: '3', maxChars: 10 }, articleNo: { pattern: '(' } },
+            },
+            { [Labels.PRODUCT]: 'strict', [Labels.SUB_CATEGORY]: 'loose' },
+        );
+
+        assert.equal(isValid, false);
+        assert.equal(errors.length, 6);
+        assert.match(errors[0], /^validationProfiles\.lenient: unknown profile/);
+        assert.match(errors[1], /^validationProfiles\.listing\.colour: unknown field/);
+        assert.match(errors[2], /^validationProfiles\.listing\.productName\.minLength: must be a number/);
+        assert.match(errors[3], /^validationProfiles\.listing\.productName\.maxChars: unknown rule/);
+        assert.match(errors[4], /^validationProfiles\.listing\.articleNo\.pattern: invalid regular expression/);
+        assert.match(errors[5], /^routeValidationProfiles\.subCategory: received "loose"/);
+    });
+});
+
+describe('validationProfiles', () => {
+    it('validates products with the profile of their route and quarantines rejections', () => {
+        const { validation } = quarantine.getCounts();
+        const url = 'https://www2.hm.com/en_gb/men/shop-by-product/suits-blazers.html';
+
+        assert.equal(validationProfiles.getProfileName(Labels.SUB_CATEGORY), 'listing');
+        assert.equal(validationProfiles.getProfileName('UNKNOWN'), 'detail');
+        assert.ok(validationProfiles.cleanAndValidate(product, { route: Labels.SUB_CATEGORY, url }));
+        assert.equal(validationProfiles.cleanAndValidate(product, { route: Labels.PRODUCT, url }), null);
+        assert.equal(quarantine.getCounts().validation, validation + 1);
+    });
+});
@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { explodeVariants, getSizeStock, getSizeSystem, getVariantId } from '../src/variants.js';
+
+describe('getSizeStock', () => {
+    it('tells in, low and out of stock apart', () => {
+        assert.equal(getSizeStock({ availability: 'OutOfStock' }), 'out');
+        assert.equal(getSizeStock({ stock: 0 }), 'out');
+        assert.equal(getSizeStock({ availability: 'LowStock' }), 'low');
+        assert.equal(getSizeStock({ stock: 3 }), 'low');
+        assert.equal(getSizeStock({ stock: 25 }), 'in');
+        assert.equal(getSizeStock({}), 'in');
+    });
+});
+
+describe('getSizeSystem', () => {
+    it('uses US and UK sizes in their markets and EU sizes elsewhere', () => {
+        assert.equal(getSizeSystem('en_us'), 'US');
+        assert.equal(getSizeSystem('en_gb'), 'UK');
+        assert.equal(getSizeSystem('de_de'), 'EU');
+    });
+
+    it('looks up the market code exactly', () => {
+        assert.equal(getSizeSystem('es_uy'), 'EU');
+        assert.equal(getSizeSystem('us'), 'EU');
+        assert.equal(getSizeSystem('en_gbr'), 'EU');
+        assert.equal(getSizeSystem(''), 'EU');
+    });
+});
+
+describe('getVariantId', () => {
+    it('appends a size suffix to the article code', () => {
+        assert.equal(getVariantId('1023045002', '001'), '1023045002001');
+    });
+
+    it('keeps full size codes', () => {
+        assert.equal(getVariantId('1023045002', '1023045002001'), '1023045002001');
+    });
+});
+
+describe('explodeVariants', () => {
+    const product = { articleNo: 1023045002, productName: 'Slim Fit Jacket', market: 'en_gb' };
+
+    it('emits one record per size', () => {
+        const records = explodeVariants(product, product.articleNo, [
+            { code: '001', name: '46', stock: 'in' },
+            { code: '002', name: '48', stock: 'out', sku: '0987654321' },
+        ], 'en_gb');
+
+        assert.deepEqual(records, [
+            {
+                ...product,
+                productId: '1023045002',
+                variantId: '1023045002001',
+                sku: '1023045002001',
+                size: '46',
+                sizeSystem: 'UK',
+                sizeStock: 'in',
+            },
+            {
+                ...product,
+                productId: '1023045002',
+                variantId: '1023045002002',
+                sku: '0987654321',
+                size: '48',
+                sizeSystem: 'UK',
+                sizeStock: 'out',
+            },
+        ]);
+    });
+
+    it('keeps the size system of a size', () => {
+        const [record] = explodeVariants(product, product.articleNo, [{ code: '001', name: '8', stock: 'in', sizeSystem: 'US' }], 'en_gb');
+        assert.equal(record.sizeSystem, 'US');
+    });
+
+    it('keeps a product without sizes as a single record', () => {
+        assert.deepEqual(explodeVariants(product, product.articleNo, [], 'en_gb'), [product]);
+        assert.deepEqual(explodeVariants(product, product.articleNo, [{ code: '', name: 'One size', stock: 'in' }], 'en_gb'), [product]);
+    });
+});
@@ -0,0 +1,120 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { load } from 'cheerio';
+import { loadFixture } from './helpers.js';
+import { Labels } from '../src/constants.js';
+import { requireMarket } from '../src/markets.js';
+import {
+    createMissingSnapshot,
+    diffWatchSnapshots,
+    getWatchlistRequests,
+    parseWatchlistEntry,
+    parseWatchSnapshot,
+    WatchSnapshot,
+} from '../src/watchlist.js';
+
+const country = requireMarket('en_gb');
+const url = 'https://www2.hm.com/en_gb/productpage.1023045002.html';
+
+describe('parseWatchlistEntry', () => {
+    it('reads article numbers, product URLs and entries with markets', () => {
+        assert.deepEqual(parseWatchlistEntry(' 1023045002 '), { articleNo: '1023045002', markets: [] });
+        assert.deepEqual(parseWatchlistEntry(url), { articleNo: '1023045002', markets: ['en_gb'] });
+        assert.deepEqual(parseWatchlistEntry({ url, markets: ['de_de'] }), { articleNo: '1023045002', markets: ['de_de'] });
+        assert.deepEqual(parseWatchlistEntry({ articleNo: '1023045002', markets: ['de_de'] }), { articleNo: '1023045002', markets: ['de_de'] });
+    });
+
+    it('rejects entries without an article', () => {
+        assert.equal(parseWatchlistEntry('1023045'), null);
+        assert.equal(parseWatchlistEntry('https://www2.hm.com/en_gb/men/blazers.html'), null);
+        assert.equal(parseWatchlistEntry({ markets: ['de_de'] }), null);
+    });
+});
+
+describe('getWatchlistRequests', () => {
+    it('requests the product pages of the articles watched in a market', () => {
+        const requests = getWatchlistRequests(['1023045002', 'https://www2.hm.com/de_de/productpage.0970819001.html'], country);
+
+        assert.deepEqual(requests.map((request) => request.url), [url]);
+        assert.equal(requests[0].uniqueKey, 'watch_1023045002_en_gb');
+        assert.equal(requests[0].userData.label, Labels.WATCHLIST);
+        assert.equal(requests[0].userData.articleNo, '1023045002');
+    });
+});
+
+describe('parseWatchSnapshot', () => {
+    const html = loadFixture('product-article-details.html');
+
+    it('reads price and per-size stock of the watched article', () => {
+        const snapshot = parseWatchSnapshot(load(html), html, '1023045002', country, url);
+
+        assert.deepEqual({ ...snapshot, checkedAt: undefined }, {
+            articleNo: '1023045002',
+            market: 'en_gb',
+            productName: undefined,
+            url,
+            found: true,
+            available: true,
+            listPrice: 59.99,
+            salePrice: 39.99,
+            currency: 'GBP',
+            sizes: [
+                { code: '001', name: '46', stock: 'in' },
+                { code: '002', name: '48', stock: 'out' },
+                { code: '003', name: '', stock: 'in' },
+            ],
+            checkedAt: undefined,
+        });
+    });
+
+    it('fails for an article that is not on the page', () => {
+        assert.throws(() => parseWatchSnapshot(load(html), html, '1023045009', country, url), /not on its product page/);
+    });
+});
+
+describe('diffWatchSnapshots', () => {
+    const previous: WatchSnapshot = {
+        ...createMissingSnapshot('1023045002', country, url),
+        found: true,
+        available: true,
+        listPrice: 59.99,
+        salePrice: null,
+        sizes: [{ code: '001', name: '46', stock: 'in' }, { code: '002', name: '48', stock: 'low' }],
+        checkedAt: '2024-03-01T10:00:00.000Z',
+    };
+    const checkedAt = '2024-03-02T10:00:00.000Z';
+
+    it('reports a first check', () => {
+        assert.deepEqual(diffWatchSnapshots(undefined, previous), [
+            { type: 'firstCheck', articleNo: '1023045002', market: 'en_gb', checkedAt: previous.checkedAt },
+        ]);
+    });
+
+    it('reports nothing for an unchanged article', () => {
+        assert.deepEqual(diffWatchSnapshots(previous, { ...previous, checkedAt }), []);
+    });
+
+    it('reports price and size stock changes', () => {
+        const sizes = [{ code: '001', name: '46', stock: 'in' as const }, { code: '002', name: '48', stock: 'out' as const }];
+        const current = { ...previous, salePrice: 39.99, sizes, checkedAt };
+
+        assert.deepEqual(diffWatchSnapshots(previous, current).map(({ type, size, previous: from, current: to }) => ({ type, size, from, to })), [
+            { type: 'priceChanged', size: undefined, from: 59.99, to: 39.99 },
+            { type: 'sizeStockChanged', size: '48', from: 'low', to: 'out' },
+        ]);
+    });
+
+    it('reports an article going out of and back in stock', () => {
+        const soldOut = { ...previous, available: false, sizes: previous.sizes.map((size) => ({ ...size, stock: 'out' as const })), checkedAt };
+
+        assert.deepEqual(diffWatchSnapshots(previous, soldOut).map(({ type }) => type), ['outOfStock', 'sizeStockChanged', 'sizeStockChanged']);
+        assert.deepEqual(diffWatchSnapshots(soldOut, previous).map(({ type }) => type), ['backInStock', 'sizeStockChanged', 'sizeStockChanged']);
+    });
+
+    it('reports removed and relisted product pages', () => {
+        const missing = createMissingSnapshot('1023045002', country, url);
+
+        assert.deepEqual(diffWatchSnapshots(previous, missing).map(({ type }) => type), ['removed']);
+        assert.deepEqual(diffWatchSnapshots(missing, previous).map(({ type }) => type), ['relisted', 'backInStock']);
+    });
+});